@@ -0,0 +1,71 @@
+import { createSign } from 'node:crypto'
+
+export type ServiceAccount = {
+  client_email: string
+  private_key: string
+  token_uri?: string
+}
+
+type TokenResponse = {
+  access_token: string
+  expires_in: number
+}
+
+export const SHEETS_READONLY_SCOPE = 'https://www.googleapis.com/auth/spreadsheets.readonly'
+
+function base64Url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url')
+}
+
+export function createSignedAssertion(
+  account: ServiceAccount,
+  tokenUrl: string,
+  scope: string,
+  now = Math.floor(Date.now() / 1000),
+): string {
+  const header = base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }))
+  const claims = base64Url(
+    JSON.stringify({
+      iss: account.client_email,
+      scope,
+      aud: tokenUrl,
+      iat: now,
+      exp: now + 3600,
+    }),
+  )
+  const signature = createSign('RSA-SHA256')
+    .update(`${header}.${claims}`)
+    .sign(account.private_key)
+  return `${header}.${claims}.${base64Url(signature)}`
+}
+
+export function createAccessTokenProvider(
+  account: ServiceAccount,
+  options: { tokenUrl?: string; scope?: string } = {},
+): () => Promise<string> {
+  const tokenUrl = options.tokenUrl ?? account.token_uri ?? 'https://oauth2.googleapis.com/token'
+  const scope = options.scope ?? SHEETS_READONLY_SCOPE
+  let cached: { token: string; expiresAt: number } | null = null
+
+  return async () => {
+    if (cached && cached.expiresAt - 60_000 > Date.now()) {
+      return cached.token
+    }
+
+    const response = await fetch(tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion: createSignedAssertion(account, tokenUrl, scope),
+      }),
+    })
+    if (!response.ok) {
+      throw new Error(`서비스 계정 토큰 발급 실패: ${response.status}`)
+    }
+
+    const body = (await response.json()) as TokenResponse
+    cached = { token: body.access_token, expiresAt: Date.now() + body.expires_in * 1000 }
+    return cached.token
+  }
+}
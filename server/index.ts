@@ -0,0 +1,24 @@
+import { existsSync } from 'node:fs'
+import { loadSheetsProxyConfig, SHEETS_PROXY_PREFIX, startSheetsProxyServer } from './sheetsProxy'
+
+if (existsSync('.env')) {
+  process.loadEnvFile('.env')
+}
+
+const config = loadSheetsProxyConfig(process.env)
+if (!config) {
+  console.error('GOOGLE_SERVICE_ACCOUNT_FILE 또는 GOOGLE_SERVICE_ACCOUNT_JSON 환경 변수가 필요합니다.')
+  process.exit(1)
+}
+if (config.accessKeys.length === 0) {
+  console.error('SHEETS_PROXY_ACCESS_KEYS 환경 변수가 필요합니다. 키 없이는 프록시를 열지 않습니다.')
+  process.exit(1)
+}
+if (!config.allowedOrigin) {
+  console.error('SHEETS_PROXY_ALLOWED_ORIGIN 환경 변수에 대시보드 origin을 지정하세요.')
+  process.exit(1)
+}
+
+const port = Number(process.env.PORT || 8787)
+startSheetsProxyServer(config, port)
+console.log(`Sheets proxy listening on http://localhost:${port}${SHEETS_PROXY_PREFIX}`)
@@ -0,0 +1,30 @@
+import { generateKeyPairSync } from 'node:crypto'
+import { readFileSync } from 'node:fs'
+import { startMockSheetsApi, type MockFixture } from './mockSheetsApi'
+import { SHEETS_PROXY_PREFIX, startSheetsProxyServer } from './sheetsProxy'
+
+const fixturePath = process.env.MOCK_FIXTURE_FILE || 'public/fixtures/portfolio.json'
+const mockPort = Number(process.env.MOCK_SHEETS_PORT || 8788)
+const proxyPort = Number(process.env.PORT || 8787)
+const sheetTitle = process.env.VITE_GOOGLE_SHEET_NAME || 'Sheet1'
+const fixture = JSON.parse(readFileSync(fixturePath, 'utf8')) as MockFixture
+const { publicKey, privateKey } = generateKeyPairSync('rsa', { modulusLength: 2048 })
+
+startMockSheetsApi(fixture, publicKey, { port: mockPort, portfolioSheetTitle: sheetTitle })
+startSheetsProxyServer(
+  {
+    spreadsheetId: 'mock-spreadsheet',
+    serviceAccount: {
+      client_email: 'mock@example.iam.gserviceaccount.com',
+      private_key: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    },
+    sheetsApiBaseUrl: `http://localhost:${mockPort}`,
+    tokenUrl: `http://localhost:${mockPort}/token`,
+    accessKeys: (process.env.SHEETS_PROXY_ACCESS_KEYS ?? '').split(',').filter(Boolean),
+    allowAnonymous: true,
+    allowedOrigin: '*',
+  },
+  proxyPort,
+)
+console.log(`Mock Sheets API listening on http://localhost:${mockPort}`)
+console.log(`Sheets proxy (mock) listening on http://localhost:${proxyPort}${SHEETS_PROXY_PREFIX}`)
@@ -0,0 +1,105 @@
+import { createVerify, type KeyObject } from 'node:crypto'
+import { createServer, type Server } from 'node:http'
+import type { GridCellData, GvizTable, SheetProperties } from './sheetsApi'
+
+export type MockFixture = {
+  portfolio: GvizTable
+  tabs: Record<string, GvizTable>
+  tabTitles?: Record<string, string>
+}
+
+type MockSheet = SheetProperties & { table: GvizTable }
+
+const MOCK_ACCESS_TOKEN = 'mock-access-token'
+
+function toGridCell(cell: GvizTable['rows'][number]['c'][number]): GridCellData {
+  if (!cell || cell.v === null) return {}
+  const effectiveValue =
+    typeof cell.v === 'number'
+      ? { numberValue: cell.v }
+      : typeof cell.v === 'boolean'
+        ? { boolValue: cell.v }
+        : { stringValue: cell.v }
+  return { effectiveValue, formattedValue: cell.f ?? String(cell.v) }
+}
+
+function toRowData(table: GvizTable) {
+  return [
+    { values: table.cols.map((col) => ({ formattedValue: col.label ?? '' })) },
+    ...table.rows.map((row) => ({ values: row.c.map(toGridCell) })),
+  ]
+}
+
+function verifyAssertion(assertion: string, publicKey: KeyObject): boolean {
+  const [header, claims, signature] = assertion.split('.')
+  if (!header || !claims || !signature) return false
+  return createVerify('RSA-SHA256')
+    .update(`${header}.${claims}`)
+    .verify(publicKey, Buffer.from(signature, 'base64url'))
+}
+
+export function startMockSheetsApi(
+  fixture: MockFixture,
+  publicKey: KeyObject,
+  options: { port: number; portfolioSheetTitle: string },
+): Server {
+  const sheets: MockSheet[] = [
+    { sheetId: 0, title: options.portfolioSheetTitle, table: fixture.portfolio },
+    ...Object.entries(fixture.tabs).map(([gid, table]) => ({
+      sheetId: Number(gid),
+      title: fixture.tabTitles?.[gid] ?? `tab-${gid}`,
+      table,
+    })),
+  ]
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+    const send = (status: number, body: unknown) => {
+      res.statusCode = status
+      res.setHeader('Content-Type', 'application/json; charset=utf-8')
+      res.end(JSON.stringify(body))
+    }
+
+    if (req.method === 'POST' && url.pathname === '/token') {
+      let body = ''
+      req.on('data', (chunk: Buffer) => {
+        body += chunk.toString()
+      })
+      req.on('end', () => {
+        const assertion = new URLSearchParams(body).get('assertion') ?? ''
+        if (!verifyAssertion(assertion, publicKey)) {
+          send(401, { error: 'invalid_grant' })
+          return
+        }
+        send(200, { access_token: MOCK_ACCESS_TOKEN, expires_in: 3600, token_type: 'Bearer' })
+      })
+      return
+    }
+
+    if (req.headers.authorization !== `Bearer ${MOCK_ACCESS_TOKEN}`) {
+      send(401, { error: { code: 401, message: 'Request had invalid authentication credentials.' } })
+      return
+    }
+    if (!url.pathname.startsWith('/v4/spreadsheets/')) {
+      send(404, { error: { code: 404, message: 'Not found' } })
+      return
+    }
+
+    const range = url.searchParams.get('ranges')
+    if (!range) {
+      send(200, { sheets: sheets.map(({ sheetId, title }) => ({ properties: { sheetId, title } })) })
+      return
+    }
+
+    const title = range.replace(/^'(.*)'$/, '$1').replace(/''/g, "'")
+    const sheet = sheets.find((item) => item.title === title)
+    if (!sheet) {
+      send(400, { error: { code: 400, message: `Unable to parse range: ${range}` } })
+      return
+    }
+    send(200, { sheets: [{ data: [{ rowData: toRowData(sheet.table) }] }] })
+  })
+
+  server.listen(options.port)
+  return server
+}
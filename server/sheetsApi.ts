@@ -0,0 +1,123 @@
+export type GvizCellValue = string | number | boolean | null
+export type GvizCell = { v: GvizCellValue; f?: string }
+export type GvizTable = { cols: Array<{ label?: string }>; rows: Array<{ c: Array<GvizCell | null> }> }
+
+export type SheetProperties = { sheetId: number; title: string }
+
+export type GridCellData = {
+  formattedValue?: string
+  effectiveValue?: { numberValue?: number; stringValue?: string; boolValue?: boolean }
+  effectiveFormat?: { numberFormat?: { type?: string } }
+}
+
+type SpreadsheetMetadata = {
+  sheets?: Array<{ properties: SheetProperties }>
+}
+
+type SpreadsheetGrid = {
+  sheets?: Array<{ data?: Array<{ rowData?: Array<{ values?: GridCellData[] }> }> }>
+}
+
+export type SheetsApiClient = {
+  listSheets: () => Promise<SheetProperties[]>
+  fetchTable: (tab: { gid?: string; sheet?: string }) => Promise<GvizTable>
+}
+
+const METADATA_TTL_MS = 5 * 60 * 1000
+const DATE_FORMAT_TYPES = new Set(['DATE', 'TIME', 'DATE_TIME'])
+
+function toGvizCell(cell: GridCellData | undefined): GvizCell | null {
+  if (!cell) return null
+  const formatted = cell.formattedValue
+  const effective = cell.effectiveValue
+  if (!effective && formatted === undefined) return null
+
+  const formatType = cell.effectiveFormat?.numberFormat?.type
+  if (formatType && DATE_FORMAT_TYPES.has(formatType) && formatted !== undefined) {
+    return { v: formatted }
+  }
+
+  const value =
+    effective?.numberValue ?? effective?.stringValue ?? effective?.boolValue ?? formatted ?? null
+  if (formatted !== undefined && formatted !== String(value)) {
+    return { v: value, f: formatted }
+  }
+  return { v: value }
+}
+
+export function gridToGvizTable(rowData: Array<{ values?: GridCellData[] }>): GvizTable {
+  const [headerRow, ...bodyRows] = rowData
+  const headerValues = headerRow?.values ?? []
+  const width = Math.max(headerValues.length, ...bodyRows.map((row) => row.values?.length ?? 0))
+
+  return {
+    cols: Array.from({ length: width }, (_, index) => ({
+      label: (headerValues[index]?.formattedValue ?? '').trim(),
+    })),
+    rows: bodyRows.map((row) => ({
+      c: Array.from({ length: width }, (_, index) => toGvizCell(row.values?.[index])),
+    })),
+  }
+}
+
+function quoteSheetTitle(title: string): string {
+  return `'${title.replace(/'/g, "''")}'`
+}
+
+export function createSheetsApiClient(options: {
+  spreadsheetId: string
+  getAccessToken: () => Promise<string>
+  baseUrl?: string
+}): SheetsApiClient {
+  const baseUrl = (options.baseUrl ?? 'https://sheets.googleapis.com').replace(/\/$/, '')
+  const spreadsheetUrl = `${baseUrl}/v4/spreadsheets/${encodeURIComponent(options.spreadsheetId)}`
+  let metadata: { sheets: SheetProperties[]; fetchedAt: number } | null = null
+
+  const request = async <T>(params: URLSearchParams): Promise<T> => {
+    const token = await options.getAccessToken()
+    const response = await fetch(`${spreadsheetUrl}?${params.toString()}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+    if (!response.ok) {
+      throw new Error(`Google Sheets API 요청 실패: ${response.status}`)
+    }
+    return (await response.json()) as T
+  }
+
+  const listSheets = async () => {
+    if (metadata && Date.now() - metadata.fetchedAt < METADATA_TTL_MS) {
+      return metadata.sheets
+    }
+    const body = await request<SpreadsheetMetadata>(
+      new URLSearchParams({ fields: 'sheets.properties(sheetId,title)' }),
+    )
+    metadata = {
+      sheets: (body.sheets ?? []).map((sheet) => sheet.properties),
+      fetchedAt: Date.now(),
+    }
+    return metadata.sheets
+  }
+
+  const fetchTable = async (tab: { gid?: string; sheet?: string }) => {
+    const sheets = await listSheets()
+    const target =
+      tab.gid !== undefined
+        ? sheets.find((sheet) => String(sheet.sheetId) === tab.gid)
+        : sheets.find((sheet) => sheet.title === tab.sheet)
+    if (!target) {
+      throw new Error(`시트 탭을 찾을 수 없습니다: ${tab.gid ?? tab.sheet}`)
+    }
+
+    const body = await request<SpreadsheetGrid>(
+      new URLSearchParams({
+        ranges: quoteSheetTitle(target.title),
+        includeGridData: 'true',
+        fields:
+          'sheets.data.rowData.values(formattedValue,effectiveValue,effectiveFormat.numberFormat.type)',
+      }),
+    )
+    return gridToGvizTable(body.sheets?.[0]?.data?.[0]?.rowData ?? [])
+  }
+
+  return { listSheets, fetchTable }
+}
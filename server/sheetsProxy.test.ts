@@ -0,0 +1,126 @@
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterEach, describe, expect, it } from 'vitest'
+import type { SheetsApiClient } from './sheetsApi'
+import {
+  createSheetsProxyHandler,
+  loadSheetsProxyConfig,
+  type SheetsProxyConfig,
+} from './sheetsProxy'
+
+const client: SheetsApiClient = {
+  listSheets: async () => [{ sheetId: 0, title: 'Sheet1' }],
+  fetchTable: async () => ({ cols: [{ label: '현장' }], rows: [] }),
+}
+
+const baseConfig: SheetsProxyConfig = {
+  spreadsheetId: 'sheet-id',
+  serviceAccount: { client_email: 'proxy@example.iam.gserviceaccount.com', private_key: 'unused' },
+  accessKeys: ['team-key'],
+  allowAnonymous: false,
+  allowedOrigin: 'https://dashboard.example',
+}
+
+let server: Server | null = null
+
+afterEach(async () => {
+  await new Promise((resolve) => server?.close(resolve) ?? resolve(null))
+  server = null
+})
+
+async function startProxy(overrides: Partial<SheetsProxyConfig> = {}): Promise<string> {
+  const handler = createSheetsProxyHandler({ ...baseConfig, ...overrides }, client)
+  server = createServer((req, res) => handler(req, res))
+  await new Promise<void>((resolve) => server?.listen(0, '127.0.0.1', resolve))
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+}
+
+function request(baseUrl: string, headers: Record<string, string> = {}) {
+  return fetch(`${baseUrl}/table?gid=0`, { headers })
+}
+
+describe('createSheetsProxyHandler', () => {
+  it('serves the table with a valid access key', async () => {
+    const response = await request(await startProxy(), { Authorization: 'Bearer team-key' })
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ table: { cols: [{ label: '현장' }], rows: [] } })
+  })
+
+  it('rejects a request without an access key', async () => {
+    const response = await request(await startProxy())
+    expect(response.status).toBe(401)
+  })
+
+  it('rejects a wrong access key, including one of a different length', async () => {
+    const baseUrl = await startProxy()
+    expect((await request(baseUrl, { Authorization: 'Bearer team-kez' })).status).toBe(401)
+    expect((await request(baseUrl, { Authorization: 'Bearer team' })).status).toBe(401)
+  })
+
+  it('rejects requests and preflights from a disallowed origin', async () => {
+    const baseUrl = await startProxy()
+    const response = await request(baseUrl, {
+      Authorization: 'Bearer team-key',
+      Origin: 'https://evil.example',
+    })
+    expect(response.status).toBe(403)
+    const preflight = await fetch(`${baseUrl}/table`, {
+      method: 'OPTIONS',
+      headers: { Origin: 'https://evil.example' },
+    })
+    expect(preflight.status).toBe(403)
+  })
+
+  it('answers the allowed origin with CORS headers', async () => {
+    const response = await request(await startProxy(), {
+      Authorization: 'Bearer team-key',
+      Origin: 'https://dashboard.example',
+    })
+    expect(response.status).toBe(200)
+    expect(response.headers.get('access-control-allow-origin')).toBe('https://dashboard.example')
+  })
+
+  it('refuses anonymous access when no keys are configured outside dev', async () => {
+    const response = await request(await startProxy({ accessKeys: [] }))
+    expect(response.status).toBe(401)
+  })
+
+  it('lets the dev middleware serve without keys or an origin', async () => {
+    const baseUrl = await startProxy({ accessKeys: [], allowAnonymous: true, allowedOrigin: null })
+    expect((await request(baseUrl)).status).toBe(200)
+    expect((await request(baseUrl, { Origin: 'http://localhost:5173' })).status).toBe(200)
+  })
+
+  it('lets the mock proxy serve any origin without keys', async () => {
+    const baseUrl = await startProxy({ accessKeys: [], allowAnonymous: true, allowedOrigin: '*' })
+    const response = await request(baseUrl, { Origin: 'http://localhost:4173' })
+    expect(response.status).toBe(200)
+    expect(response.headers.get('access-control-allow-origin')).toBe('*')
+  })
+})
+
+describe('loadSheetsProxyConfig', () => {
+  const env = {
+    GOOGLE_SERVICE_ACCOUNT_JSON: JSON.stringify(baseConfig.serviceAccount),
+    GOOGLE_SHEET_ID: 'sheet-id',
+    SHEETS_PROXY_ACCESS_KEYS: ' team-key , ,other-key',
+    SHEETS_PROXY_ALLOWED_ORIGIN: 'https://dashboard.example',
+  }
+
+  it('reads keys and origin and is not anonymous by default', () => {
+    expect(loadSheetsProxyConfig(env)).toMatchObject({
+      accessKeys: ['team-key', 'other-key'],
+      allowAnonymous: false,
+      allowedOrigin: 'https://dashboard.example',
+    })
+  })
+
+  it('allows anonymous access only when the caller opts in', () => {
+    expect(loadSheetsProxyConfig(env, { allowAnonymous: true })?.allowAnonymous).toBe(true)
+  })
+
+  it('returns null without a service account and requires a sheet id', () => {
+    expect(loadSheetsProxyConfig({})).toBeNull()
+    expect(() => loadSheetsProxyConfig({ ...env, GOOGLE_SHEET_ID: '' })).toThrow('GOOGLE_SHEET_ID')
+  })
+})
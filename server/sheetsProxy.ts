@@ -0,0 +1,172 @@
+import { timingSafeEqual } from 'node:crypto'
+import { readFileSync } from 'node:fs'
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http'
+import { createAccessTokenProvider, type ServiceAccount } from './googleAuth'
+import { createSheetsApiClient, type SheetsApiClient } from './sheetsApi'
+
+export type SheetsProxyConfig = {
+  spreadsheetId: string
+  serviceAccount: ServiceAccount
+  sheetsApiBaseUrl?: string
+  tokenUrl?: string
+  accessKeys: string[]
+  // Only the Vite dev middleware and the mock API may serve without access keys.
+  allowAnonymous: boolean
+  allowedOrigin: string | null
+}
+
+export type SheetsProxyHandler = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next?: () => void,
+) => void
+
+type Env = Record<string, string | undefined>
+
+export const SHEETS_PROXY_PREFIX = '/api/sheets'
+
+function readServiceAccount(env: Env): ServiceAccount | null {
+  const raw = env.GOOGLE_SERVICE_ACCOUNT_JSON
+    ? env.GOOGLE_SERVICE_ACCOUNT_JSON
+    : env.GOOGLE_SERVICE_ACCOUNT_FILE
+      ? readFileSync(env.GOOGLE_SERVICE_ACCOUNT_FILE, 'utf8')
+      : null
+  if (!raw) return null
+
+  const parsed = JSON.parse(raw) as Partial<ServiceAccount>
+  if (!parsed.client_email || !parsed.private_key) {
+    throw new Error('서비스 계정 JSON에 client_email/private_key가 없습니다.')
+  }
+  return parsed as ServiceAccount
+}
+
+export function loadSheetsProxyConfig(
+  env: Env,
+  { allowAnonymous = false }: { allowAnonymous?: boolean } = {},
+): SheetsProxyConfig | null {
+  const serviceAccount = readServiceAccount(env)
+  if (!serviceAccount) return null
+
+  const spreadsheetId = env.GOOGLE_SHEET_ID || env.VITE_GOOGLE_SHEET_ID
+  if (!spreadsheetId) {
+    throw new Error('GOOGLE_SHEET_ID 환경 변수가 필요합니다.')
+  }
+
+  return {
+    spreadsheetId,
+    serviceAccount,
+    sheetsApiBaseUrl: env.SHEETS_API_BASE_URL || undefined,
+    tokenUrl: env.GOOGLE_TOKEN_URL || undefined,
+    accessKeys: (env.SHEETS_PROXY_ACCESS_KEYS ?? '')
+      .split(',')
+      .map((key) => key.trim())
+      .filter(Boolean),
+    allowAnonymous,
+    allowedOrigin: env.SHEETS_PROXY_ALLOWED_ORIGIN || null,
+  }
+}
+
+function isAuthorized(req: IncomingMessage, config: SheetsProxyConfig): boolean {
+  const { accessKeys } = config
+  if (accessKeys.length === 0) return config.allowAnonymous
+
+  const header = req.headers.authorization ?? ''
+  const presented = Buffer.from(header.replace(/^Bearer\s+/i, ''))
+  return accessKeys.some((key) => {
+    const expected = Buffer.from(key)
+    return expected.length === presented.length && timingSafeEqual(expected, presented)
+  })
+}
+
+// Without a configured origin (dev middleware) the browser's same-origin policy is the check.
+function isAllowedOrigin(req: IncomingMessage, config: SheetsProxyConfig): boolean {
+  const { origin } = req.headers
+  const { allowedOrigin } = config
+  return !origin || !allowedOrigin || allowedOrigin === '*' || origin === allowedOrigin
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.statusCode = status
+  res.setHeader('Content-Type', 'application/json; charset=utf-8')
+  res.setHeader('Cache-Control', 'no-store')
+  res.end(JSON.stringify(body))
+}
+
+export function createSheetsProxyHandler(
+  config: SheetsProxyConfig,
+  client: SheetsApiClient = createSheetsApiClient({
+    spreadsheetId: config.spreadsheetId,
+    baseUrl: config.sheetsApiBaseUrl,
+    getAccessToken: createAccessTokenProvider(config.serviceAccount, {
+      tokenUrl: config.tokenUrl,
+    }),
+  }),
+): SheetsProxyHandler {
+  const handle = async (req: IncomingMessage, res: ServerResponse, next?: () => void) => {
+    const url = new URL(req.url ?? '/', 'http://localhost')
+
+    if (config.allowedOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', config.allowedOrigin)
+    }
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization')
+    res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS')
+
+    if (!isAllowedOrigin(req, config)) {
+      sendJson(res, 403, { error: '허용되지 않은 origin입니다.' })
+      return
+    }
+    if (req.method === 'OPTIONS') {
+      res.statusCode = 204
+      res.end()
+      return
+    }
+    if (req.method !== 'GET' || (url.pathname !== '/table' && url.pathname !== '/sheets')) {
+      if (next) {
+        next()
+      } else {
+        sendJson(res, 404, { error: '지원하지 않는 경로입니다.' })
+      }
+      return
+    }
+    if (!isAuthorized(req, config)) {
+      sendJson(res, 401, { error: '프록시 접근 키가 올바르지 않습니다.' })
+      return
+    }
+
+    if (url.pathname === '/sheets') {
+      sendJson(res, 200, { sheets: await client.listSheets() })
+      return
+    }
+
+    const gid = url.searchParams.get('gid')
+    const sheet = url.searchParams.get('sheet')
+    if (!gid && !sheet) {
+      sendJson(res, 400, { error: 'gid 또는 sheet 파라미터가 필요합니다.' })
+      return
+    }
+    const table = await client.fetchTable(gid ? { gid } : { sheet: sheet ?? '' })
+    sendJson(res, 200, { table })
+  }
+
+  return (req, res, next) => {
+    handle(req, res, next).catch((caughtError: unknown) => {
+      const message = caughtError instanceof Error ? caughtError.message : '프록시 오류'
+      sendJson(res, 502, { error: message })
+    })
+  }
+}
+
+export function startSheetsProxyServer(config: SheetsProxyConfig, port: number): Server {
+  const handler = createSheetsProxyHandler(config)
+  const server = createServer((req, res) => {
+    const url = req.url ?? '/'
+    if (!url.startsWith(SHEETS_PROXY_PREFIX)) {
+      sendJson(res, 404, { error: '지원하지 않는 경로입니다.' })
+      return
+    }
+    req.url = url.slice(SHEETS_PROXY_PREFIX.length) || '/'
+    handler(req, res)
+  })
+  server.listen(port)
+  return server
+}
@@ -1,5 +1,8 @@
 import { BrowserRouter, Navigate, Route, Routes } from 'react-router-dom'
+import ComparePage from './pages/ComparePage'
+import OwnerPage from './pages/OwnerPage'
 import PortfolioPage from './pages/PortfolioPage'
+import ReportPage from './pages/ReportPage'
 import UnitDetailPage from './pages/UnitDetailPage'
 
 export default function App() {
@@ -8,6 +11,10 @@ export default function App() {
       <Routes>
         <Route path="/" element={<PortfolioPage />} />
         <Route path="/units/:unitSlug" element={<UnitDetailPage />} />
+        <Route path="/owners/:owner" element={<OwnerPage />} />
+        <Route path="/compare" element={<ComparePage />} />
+        <Route path="/report" element={<ReportPage />} />
+        <Route path="/report/:month" element={<ReportPage />} />
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
     </BrowserRouter>
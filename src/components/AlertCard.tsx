@@ -0,0 +1,169 @@
+import { useMemo } from 'react'
+import { Link } from 'react-router-dom'
+import { useAlertRules } from '../hooks/useAlertRules'
+import {
+  ALERT_KIND_LABELS,
+  ALERT_SEVERITY_LABELS,
+  evaluateAlerts,
+  type AlertRules,
+  type AlertSeverity,
+  type RenewalRule,
+} from '../lib/alerts'
+import type { PortfolioUnit } from '../lib/portfolio'
+import { getUnitDetailBySite, type UnitRegistry } from '../lib/unitDetailRoutes'
+
+type AlertCardProps = {
+  units: PortfolioUnit[]
+  registry: UnitRegistry
+}
+
+const SEVERITIES: AlertSeverity[] = ['critical', 'warning', 'info']
+
+function toDays(value: string): number {
+  return Math.min(3650, Math.max(0, Math.round(Number(value) || 0)))
+}
+
+export default function AlertCard({ units, registry }: AlertCardProps) {
+  const { rules, updateRules, resetRules } = useAlertRules()
+  const alerts = useMemo(() => evaluateAlerts(units, rules), [units, rules])
+  const counts = SEVERITIES.map((severity) => ({
+    severity,
+    count: alerts.filter((alert) => alert.severity === severity).length,
+  })).filter((entry) => entry.count > 0)
+
+  function updateRenewal(kind: 'contractRenewal' | 'loanRenewal', patch: Partial<RenewalRule>) {
+    updateRules({ ...rules, [kind]: { ...rules[kind], ...patch } })
+  }
+
+  function toggle(kind: keyof AlertRules, enabled: boolean) {
+    updateRules({ ...rules, [kind]: { ...rules[kind], enabled } })
+  }
+
+  return (
+    <article className="highlightCard">
+      <h2>알림</h2>
+      {counts.length > 0 ? (
+        <p className="alertCounts">
+          {counts.map((entry) => (
+            <span key={entry.severity} className={`severityBadge ${entry.severity}`}>
+              {ALERT_SEVERITY_LABELS[entry.severity]} {entry.count}
+            </span>
+          ))}
+        </p>
+      ) : null}
+      {alerts.length === 0 ? (
+        <p className="emptyText">확인할 알림이 없습니다.</p>
+      ) : (
+        <ul className="alertList">
+          {alerts.map((alert) => {
+            const detail = getUnitDetailBySite(registry, alert.site)
+            return (
+              <li key={alert.id}>
+                <span className={`severityBadge ${alert.severity}`}>
+                  {ALERT_SEVERITY_LABELS[alert.severity]}
+                </span>
+                <span className="alertType">{ALERT_KIND_LABELS[alert.kind]}</span>
+                <span>
+                  {detail ? (
+                    <Link className="unitLink" to={`/units/${detail.slug}`}>
+                      {alert.site}
+                    </Link>
+                  ) : (
+                    alert.site
+                  )}
+                </span>
+                <strong>{alert.message}</strong>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      <details className="alertRules">
+        <summary>알림 규칙 설정</summary>
+        <div className="formGrid">
+          {(['contractRenewal', 'loanRenewal'] as const).map((kind) => (
+            <div key={kind} className="formField">
+              <label className="checkboxField">
+                <input
+                  type="checkbox"
+                  checked={rules[kind].enabled}
+                  onChange={(event) => toggle(kind, event.target.checked)}
+                />
+                <span>{ALERT_KIND_LABELS[kind]}</span>
+              </label>
+              <label>
+                <span>알림 시작(일 전) </span>
+                <input
+                  className="inlineInput"
+                  type="number"
+                  min={0}
+                  value={rules[kind].leadDays}
+                  onChange={(event) =>
+                    updateRenewal(kind, { leadDays: toDays(event.target.value) })
+                  }
+                />
+              </label>
+              <label>
+                <span>긴급(일 전) </span>
+                <input
+                  className="inlineInput"
+                  type="number"
+                  min={0}
+                  value={rules[kind].criticalDays}
+                  onChange={(event) =>
+                    updateRenewal(kind, { criticalDays: toDays(event.target.value) })
+                  }
+                />
+              </label>
+            </div>
+          ))}
+          <div className="formField">
+            <label className="checkboxField">
+              <input
+                type="checkbox"
+                checked={rules.highLtv.enabled}
+                onChange={(event) => toggle('highLtv', event.target.checked)}
+              />
+              <span>{ALERT_KIND_LABELS.highLtv}</span>
+            </label>
+            <label>
+              <span>기준 LTV(%) </span>
+              <input
+                className="inlineInput"
+                type="number"
+                min={0}
+                max={100}
+                value={Math.round(rules.highLtv.threshold * 100)}
+                onChange={(event) =>
+                  updateRules({
+                    ...rules,
+                    highLtv: {
+                      ...rules.highLtv,
+                      threshold: Math.min(100, Math.max(0, Number(event.target.value))) / 100,
+                    },
+                  })
+                }
+              />
+            </label>
+          </div>
+          <div className="formField">
+            {(['missingDate', 'negativeCashflow', 'vacancy'] as const).map((kind) => (
+              <label key={kind} className="checkboxField">
+                <input
+                  type="checkbox"
+                  checked={rules[kind].enabled}
+                  onChange={(event) => toggle(kind, event.target.checked)}
+                />
+                <span>{ALERT_KIND_LABELS[kind]}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+        <button className="linkButton" onClick={resetRules}>
+          기본값으로 되돌리기
+        </button>
+      </details>
+    </article>
+  )
+}
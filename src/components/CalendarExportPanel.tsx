@@ -0,0 +1,140 @@
+import { useMemo, useState } from 'react'
+import {
+  buildCalendarEvents,
+  CALENDAR_EVENT_LABELS,
+  DEFAULT_CALENDAR_REMINDERS,
+  parseReminderDays,
+  toICalendar,
+  type CalendarEventKind,
+} from '../lib/calendar'
+import { downloadFile } from '../lib/download'
+import type { PortfolioUnit } from '../lib/portfolio'
+import { estimateBusinessTaxes, upcomingTaxFilings } from '../lib/taxEstimator'
+import type { UnitRegistry } from '../lib/unitDetailRoutes'
+
+function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}.${month}.${day}`
+}
+
+const UPCOMING_PREVIEW_COUNT = 6
+
+const EVENT_KINDS = Object.keys(CALENDAR_EVENT_LABELS) as CalendarEventKind[]
+
+type CalendarExportPanelProps = {
+  units: PortfolioUnit[]
+  registry: UnitRegistry
+}
+
+export default function CalendarExportPanel({ units, registry }: CalendarExportPanelProps) {
+  const [reminderInputs, setReminderInputs] = useState<Record<CalendarEventKind, string>>(
+    () =>
+      Object.fromEntries(
+        EVENT_KINDS.map((kind) => [kind, DEFAULT_CALENDAR_REMINDERS[kind].join(', ')]),
+      ) as Record<CalendarEventKind, string>,
+  )
+  const events = useMemo(
+    () =>
+      buildCalendarEvents(
+        units,
+        registry,
+        upcomingTaxFilings(estimateBusinessTaxes(units)),
+        window.location.origin,
+      ),
+    [units, registry],
+  )
+  const reminders = Object.fromEntries(
+    EVENT_KINDS.map((kind) => [kind, parseReminderDays(reminderInputs[kind])]),
+  ) as Record<CalendarEventKind, number[]>
+
+  const startOfToday = new Date(new Date().toDateString())
+  const upcomingEvents = events
+    .filter((event) => event.date >= startOfToday)
+    .slice(0, UPCOMING_PREVIEW_COUNT)
+
+  function exportCalendar() {
+    const today = new Date().toISOString().slice(0, 10)
+    downloadFile(
+      `portfolio-calendar-${today}.ics`,
+      toICalendar(events, reminders),
+      'text/calendar;charset=utf-8',
+    )
+  }
+
+  if (units.length === 0) return null
+
+  return (
+    <section className="tableSection">
+      <div className="tableHeader">
+        <h2>캘린더 내보내기 (.ics)</h2>
+        <p>
+          {EVENT_KINDS.map(
+            (kind) =>
+              `${CALENDAR_EVENT_LABELS[kind]} ${events.filter((event) => event.kind === kind).length}건`,
+          ).join(' · ')}
+        </p>
+      </div>
+
+      <div className="formGrid">
+        {EVENT_KINDS.map((kind) => (
+          <label key={kind} className="formField">
+            <span>{CALENDAR_EVENT_LABELS[kind]} 알림(며칠 전, 쉼표 구분)</span>
+            <input
+              type="text"
+              inputMode="numeric"
+              value={reminderInputs[kind]}
+              onChange={(event) =>
+                setReminderInputs((previous) => ({ ...previous, [kind]: event.target.value }))
+              }
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="tableContainer">
+        <table>
+          <thead>
+            <tr>
+              <th>날짜</th>
+              <th>종류</th>
+              <th>일정</th>
+              <th>알림</th>
+            </tr>
+          </thead>
+          <tbody>
+            {upcomingEvents.map((event) => (
+              <tr key={event.uid}>
+                <td>{formatDate(event.date)}</td>
+                <td>{CALENDAR_EVENT_LABELS[event.kind]}</td>
+                <td>{event.title}</td>
+                <td>
+                  {reminders[event.kind].length > 0
+                    ? reminders[event.kind].map((days) => `${days}일 전`).join(', ')
+                    : '-'}
+                </td>
+              </tr>
+            ))}
+            {upcomingEvents.length === 0 ? (
+              <tr>
+                <td colSpan={4} className="emptyRow">
+                  예정된 일정이 없습니다.
+                </td>
+              </tr>
+            ) : null}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="toolbar">
+        <button className="refreshButton" onClick={exportCalendar} disabled={events.length === 0}>
+          .ics 파일 받기 ({events.length}건)
+        </button>
+      </div>
+      <p className="subtitle calendarHint">
+        Google 캘린더는 설정 → 가져오기, Outlook은 캘린더 추가 → 파일에서 업로드로 불러옵니다. 호실
+        일정에는 상세 화면 링크가 포함됩니다.
+      </p>
+    </section>
+  )
+}
@@ -0,0 +1,89 @@
+import { useMemo } from 'react'
+import {
+  AUDIT_CHECK_LABELS,
+  AUDIT_SEVERITY_LABELS,
+  auditFieldLabel,
+  auditPortfolio,
+  type AuditFinding,
+  type AuditSeverity,
+} from '../lib/audit'
+import type { PortfolioUnit, SheetTotals } from '../lib/portfolio'
+
+const krwFormat = new Intl.NumberFormat('ko-KR', { maximumFractionDigits: 0 })
+const percentFormat = new Intl.NumberFormat('ko-KR', {
+  style: 'percent',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+})
+
+const SEVERITY_CLASS: Record<AuditSeverity, string> = {
+  error: 'critical',
+  warning: 'warning',
+  info: 'info',
+}
+
+function formatValue(finding: AuditFinding, value: number | null): string {
+  if (value === null) return '-'
+  if (finding.field === 'interestRate') return percentFormat.format(value)
+  return `${krwFormat.format(Math.round(value))}원`
+}
+
+type DataAuditPanelProps = {
+  units: PortfolioUnit[]
+  totals: SheetTotals | null
+}
+
+export default function DataAuditPanel({ units, totals }: DataAuditPanelProps) {
+  const findings = useMemo(() => auditPortfolio(units, totals), [units, totals])
+  const errorCount = findings.filter((finding) => finding.severity === 'error').length
+
+  if (units.length === 0) return null
+
+  return (
+    <section className="tableSection">
+      <div className="tableHeader">
+        <h2>데이터 점검</h2>
+        <p>
+          {findings.length === 0
+            ? `이상 없음 · 호실 ${units.length}개${totals ? ' · 합계 행 일치' : ' · 합계 행 없음'}`
+            : `발견 ${findings.length}건 · 오류 ${errorCount}건`}
+        </p>
+      </div>
+
+      {findings.length > 0 ? (
+        <div className="tableContainer">
+          <table>
+            <thead>
+              <tr>
+                <th>심각도</th>
+                <th>점검</th>
+                <th>현장</th>
+                <th>항목</th>
+                <th>예상</th>
+                <th>시트 값</th>
+                <th>내용</th>
+              </tr>
+            </thead>
+            <tbody>
+              {findings.map((finding) => (
+                <tr key={finding.id}>
+                  <td>
+                    <span className={`severityBadge ${SEVERITY_CLASS[finding.severity]}`}>
+                      {AUDIT_SEVERITY_LABELS[finding.severity]}
+                    </span>
+                  </td>
+                  <td>{AUDIT_CHECK_LABELS[finding.check]}</td>
+                  <td>{finding.site}</td>
+                  <td>{auditFieldLabel(finding.field)}</td>
+                  <td>{formatValue(finding, finding.expected)}</td>
+                  <td className="mismatchCell">{formatValue(finding, finding.actual)}</td>
+                  <td>{finding.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+    </section>
+  )
+}
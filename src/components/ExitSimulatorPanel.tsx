@@ -0,0 +1,274 @@
+import { useMemo, useState } from 'react'
+import { parseSheetDate } from '../lib/dates'
+import {
+  CAPITAL_GAINS_BASIC_DEDUCTION,
+  simulateExit,
+  type ExitInputs,
+  type ExitProperty,
+  type SalePriceMode,
+} from '../lib/exitSimulator'
+import { DEFAULT_RETURN_ASSUMPTIONS, type ReturnInput } from '../lib/returns'
+import type { TaxpayerType } from '../lib/taxEstimator'
+
+const krwFormat = new Intl.NumberFormat('ko-KR', { maximumFractionDigits: 0 })
+const percentFormat = new Intl.NumberFormat('ko-KR', {
+  style: 'percent',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+})
+
+function formatCurrency(value: number): string {
+  return `${krwFormat.format(Math.round(value))}원`
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '-' : percentFormat.format(value)
+}
+
+function formatHolding(months: number): string {
+  const years = Math.floor(months / 12)
+  return years > 0 ? `${years}년 ${months % 12}개월` : `${months}개월`
+}
+
+function toDateInput(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+type ExitSimulatorPanelProps = {
+  input: ReturnInput
+  property: ExitProperty
+  defaultPricePerPyeong: number | null
+  defaultTaxpayerType: TaxpayerType
+}
+
+export default function ExitSimulatorPanel({
+  input,
+  property,
+  defaultPricePerPyeong,
+  defaultTaxpayerType,
+}: ExitSimulatorPanelProps) {
+  const [priceMode, setPriceMode] = useState<SalePriceMode>(
+    property.areaPyeong && defaultPricePerPyeong ? 'perPyeong' : 'total',
+  )
+  const [salePrice, setSalePrice] = useState(Math.round(input.price))
+  const [pricePerPyeong, setPricePerPyeong] = useState(Math.round(defaultPricePerPyeong ?? 0))
+  const [saleDate, setSaleDate] = useState(() => toDateInput(new Date()))
+  const [saleCostRate, setSaleCostRate] = useState(DEFAULT_RETURN_ASSUMPTIONS.saleCostRate)
+  const [taxpayerType, setTaxpayerType] = useState<TaxpayerType>(defaultTaxpayerType)
+  const [comprehensiveTransfer, setComprehensiveTransfer] = useState(false)
+
+  const result = useMemo(() => {
+    const date = parseSheetDate(saleDate)?.date
+    if (!date) return null
+    const inputs: ExitInputs = {
+      priceMode,
+      salePrice,
+      pricePerPyeong,
+      saleDate: date,
+      saleCostRate,
+      taxpayerType,
+      comprehensiveTransfer,
+    }
+    return simulateExit(input, property, inputs, DEFAULT_RETURN_ASSUMPTIONS.discountRate)
+  }, [
+    input,
+    property,
+    priceMode,
+    salePrice,
+    pricePerPyeong,
+    saleDate,
+    saleCostRate,
+    taxpayerType,
+    comprehensiveTransfer,
+  ])
+
+  return (
+    <section className="tableSection">
+      <div className="tableHeader">
+        <h2>매각 시뮬레이션 · 양도소득세</h2>
+        <p>양도차익 = 매각가 - 매각 비용 - (공급금액 + 취등록세 + 중개수수료)</p>
+      </div>
+
+      <div className="formGrid">
+        <label className="formField">
+          <span>매각가 입력 방식</span>
+          <select
+            value={priceMode}
+            onChange={(event) => setPriceMode(event.target.value as SalePriceMode)}
+          >
+            <option value="total">총액</option>
+            <option value="perPyeong" disabled={!property.areaPyeong}>
+              평당가 × 분양면적
+            </option>
+          </select>
+        </label>
+        {priceMode === 'total' ? (
+          <label className="formField">
+            <span>매각가(원, 부가세 별도)</span>
+            <input
+              type="number"
+              min={0}
+              step={1_000_000}
+              value={salePrice}
+              onChange={(event) => setSalePrice(Math.max(0, Number(event.target.value)))}
+            />
+          </label>
+        ) : (
+          <label className="formField">
+            <span>평당 매각가(원) × {property.areaPyeong}평</span>
+            <input
+              type="number"
+              min={0}
+              step={100_000}
+              value={pricePerPyeong}
+              onChange={(event) => setPricePerPyeong(Math.max(0, Number(event.target.value)))}
+            />
+          </label>
+        )}
+        <label className="formField">
+          <span>매각일</span>
+          <input
+            type="date"
+            value={saleDate}
+            onChange={(event) => setSaleDate(event.target.value)}
+          />
+        </label>
+        <label className="formField">
+          <span>매각 비용(%)</span>
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={Number((saleCostRate * 100).toFixed(2))}
+            onChange={(event) => setSaleCostRate(Math.max(0, Number(event.target.value)) / 100)}
+          />
+        </label>
+        <label className="formField">
+          <span>매도자</span>
+          <select
+            value={taxpayerType}
+            onChange={(event) => setTaxpayerType(event.target.value as TaxpayerType)}
+          >
+            <option value="individual">개인 (양도소득세)</option>
+            <option value="corporation">법인 (법인세)</option>
+          </select>
+        </label>
+        <label className="formField checkboxField">
+          <input
+            type="checkbox"
+            checked={comprehensiveTransfer}
+            onChange={(event) => setComprehensiveTransfer(event.target.checked)}
+          />
+          <span>포괄양수도 (부가세 없음)</span>
+        </label>
+      </div>
+
+      {result ? (
+        <div className="highlightGrid">
+          <article className="highlightCard">
+            <h2>양도차익 · 세금</h2>
+            <div className="kvList">
+              <p>
+                <span>매각가 (보유 {formatHolding(result.holdingMonths)})</span>
+                <strong>{formatCurrency(result.salePrice)}</strong>
+              </p>
+              <p>
+                <span>취득가액 + 필요경비</span>
+                <strong>{formatCurrency(result.acquisitionBasis)}</strong>
+              </p>
+              <p>
+                <span>매각 비용</span>
+                <strong>{formatCurrency(result.saleCosts)}</strong>
+              </p>
+              <p>
+                <span>양도차익</span>
+                <strong className={result.capitalGain < 0 ? 'negative' : ''}>
+                  {formatCurrency(result.capitalGain)}
+                </strong>
+              </p>
+              {taxpayerType === 'individual' ? (
+                <>
+                  <p>
+                    <span>
+                      장기보유특별공제 ({percentFormat.format(result.tax.longTermDeductionRate)})
+                    </span>
+                    <strong>{formatCurrency(result.tax.longTermDeduction)}</strong>
+                  </p>
+                  <p>
+                    <span>기본공제 (연 {formatCurrency(CAPITAL_GAINS_BASIC_DEDUCTION)})</span>
+                    <strong>{formatCurrency(result.tax.basicDeduction)}</strong>
+                  </p>
+                </>
+              ) : null}
+              <p>
+                <span>과세표준 ({result.tax.rateLabel})</span>
+                <strong>{formatCurrency(result.tax.taxableGain)}</strong>
+              </p>
+              <p>
+                <span>{taxpayerType === 'individual' ? '양도소득세' : '법인세'} + 지방소득세</span>
+                <strong>
+                  {formatCurrency(result.tax.nationalTax)} + {formatCurrency(result.tax.localTax)}
+                </strong>
+              </p>
+            </div>
+          </article>
+
+          <article className="highlightCard">
+            <h2>매각 대금 정산</h2>
+            <div className="kvList">
+              <p>
+                <span>토지분 / 건물분 ({percentFormat.format(result.buildingShare)})</span>
+                <strong>
+                  {formatCurrency(result.landValue)} / {formatCurrency(result.buildingValue)}
+                </strong>
+              </p>
+              <p>
+                <span>건물분 부가세 (매수인에게 받아 납부)</span>
+                <strong>{formatCurrency(result.vat)}</strong>
+              </p>
+              <p>
+                <span>대출 상환</span>
+                <strong>{formatCurrency(result.loanPayoff)}</strong>
+              </p>
+              <p>
+                <span>임대보증금 반환</span>
+                <strong>{formatCurrency(result.depositReturned)}</strong>
+              </p>
+              <p>
+                <span>세금 합계</span>
+                <strong>{formatCurrency(result.tax.total)}</strong>
+              </p>
+              <p>
+                <span>세후 순매각대금</span>
+                <strong className={result.netProceeds < 0 ? 'negative' : ''}>
+                  {formatCurrency(result.netProceeds)}
+                </strong>
+              </p>
+              <p>
+                <span>실현 IRR (연)</span>
+                <strong className={(result.realized.irr ?? 0) < 0 ? 'negative' : ''}>
+                  {formatPercent(result.realized.irr)}
+                </strong>
+              </p>
+              <p>
+                <span>
+                  실현 NPV (할인율 {formatPercent(DEFAULT_RETURN_ASSUMPTIONS.discountRate)})
+                </span>
+                <strong>{formatCurrency(result.realized.npv)}</strong>
+              </p>
+            </div>
+          </article>
+        </div>
+      ) : (
+        <p className="emptyText">매각일을 입력하세요.</p>
+      )}
+      <p className="calendarHint">
+        비주택 기준 1년 미만 50%, 2년 미만 40%, 이후 기본세율이며 3년 이상 보유 시
+        장기보유특별공제(연 2%p, 최대 30%)를 적용합니다. 법인은 다른 소득이 없다고 보고 양도차익에
+        법인세율을 적용합니다. 감가상각비 누계, 다른 양도 건과의 합산은 반영하지 않습니다.
+      </p>
+    </section>
+  )
+}
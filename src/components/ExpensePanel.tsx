@@ -0,0 +1,300 @@
+import { useState, type FormEvent } from 'react'
+import {
+  EXPENSE_CATEGORY_LABELS,
+  EXPENSE_FREQUENCY_LABELS,
+  MANUAL_EXPENSE_CATEGORIES,
+  ONE_OFF_AMORTIZATION_MONTHS,
+  type Expense,
+  type ExpenseCategory,
+  type ExpenseFrequency,
+  type OperatingSummary,
+} from '../lib/expenses'
+import type { PortfolioSummary, PortfolioUnit } from '../lib/portfolio'
+
+const krwFormat = new Intl.NumberFormat('ko-KR', { maximumFractionDigits: 0 })
+const percentFormat = new Intl.NumberFormat('ko-KR', {
+  style: 'percent',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+})
+
+function formatCurrency(value: number): string {
+  return `${krwFormat.format(Math.round(value))}원`
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '-' : percentFormat.format(value)
+}
+
+type ExpenseDraft = Omit<Expense, 'id' | 'amount'> & { amount: string }
+
+const EMPTY_DRAFT: ExpenseDraft = {
+  site: null,
+  category: 'maintenance',
+  label: '',
+  amount: '',
+  frequency: 'monthly',
+  date: null,
+  vacancyOnly: false,
+}
+
+type ExpensePanelProps = {
+  units: PortfolioUnit[]
+  summary: PortfolioSummary
+  operations: OperatingSummary
+  expenses: Expense[]
+  onAdd: (expense: Omit<Expense, 'id'>) => void
+  onRemove: (id: string) => void
+}
+
+export default function ExpensePanel({
+  units,
+  summary,
+  operations,
+  expenses,
+  onAdd,
+  onRemove,
+}: ExpensePanelProps) {
+  const [draft, setDraft] = useState<ExpenseDraft>(EMPTY_DRAFT)
+  const amount = Number(draft.amount.replace(/,/g, ''))
+  const canAdd =
+    Number.isFinite(amount) && amount > 0 && (draft.frequency !== 'oneOff' || Boolean(draft.date))
+  const monthlyBySource = new Map(operations.lines.map((line) => [line.id, line.monthlyAmount]))
+
+  const update = (patch: Partial<ExpenseDraft>) =>
+    setDraft((previous) => ({ ...previous, ...patch }))
+
+  function handleSubmit(event: FormEvent<HTMLFormElement>) {
+    event.preventDefault()
+    if (!canAdd) return
+    onAdd({
+      ...draft,
+      label: draft.label.trim(),
+      amount,
+      date: draft.frequency === 'oneOff' ? draft.date : null,
+      vacancyOnly: draft.site !== null && draft.vacancyOnly,
+    })
+    setDraft((previous) => ({ ...EMPTY_DRAFT, site: previous.site }))
+  }
+
+  if (units.length === 0) return null
+
+  return (
+    <section className="tableSection">
+      <div className="tableHeader">
+        <h2>운영비 · 순영업소득(NOI)</h2>
+        <p>
+          월 운영비 {formatCurrency(operations.monthlyExpenses)} · 연 NOI{' '}
+          {formatCurrency(operations.annualNetOperatingIncome)}
+        </p>
+      </div>
+
+      <div className="taxSummaryGrid">
+        {Object.entries(EXPENSE_CATEGORY_LABELS).map(([category, label]) => (
+          <p key={category}>
+            <span>{label} (월)</span>
+            <strong>{formatCurrency(operations.byCategory[category as ExpenseCategory])}</strong>
+          </p>
+        ))}
+      </div>
+
+      <div className="tableContainer">
+        <table>
+          <thead>
+            <tr>
+              <th>현장</th>
+              <th>월세</th>
+              <th>월 운영비</th>
+              <th>월 NOI</th>
+              <th>월 이자</th>
+              <th>비용 반영 월 순현금흐름</th>
+              <th>비용 반영 ROE</th>
+            </tr>
+          </thead>
+          <tbody>
+            {operations.units.map((row) => (
+              <tr key={row.unit.id}>
+                <td>{row.unit.site}</td>
+                <td>{formatCurrency(row.unit.monthlyRent ?? 0)}</td>
+                <td>{formatCurrency(row.monthlyExpenses)}</td>
+                <td className={row.monthlyNetOperatingIncome < 0 ? 'negativeCell' : ''}>
+                  {formatCurrency(row.monthlyNetOperatingIncome)}
+                </td>
+                <td>{formatCurrency(row.unit.monthlyInterest ?? 0)}</td>
+                <td className={row.monthlyNetCashflowAfterExpenses < 0 ? 'negativeCell' : ''}>
+                  {formatCurrency(row.monthlyNetCashflowAfterExpenses)}
+                </td>
+                <td>{formatPercent(row.annualReturnOnEquityAfterExpenses)}</td>
+              </tr>
+            ))}
+            {operations.sharedMonthlyExpenses > 0 ? (
+              <tr className="subtotalRow">
+                <td>공통 비용</td>
+                <td>-</td>
+                <td>{formatCurrency(operations.sharedMonthlyExpenses)}</td>
+                <td>-</td>
+                <td>-</td>
+                <td>-</td>
+                <td>-</td>
+              </tr>
+            ) : null}
+            <tr className="subtotalRow">
+              <td>합계</td>
+              <td>{formatCurrency(summary.monthlyRentIncome)}</td>
+              <td>{formatCurrency(operations.monthlyExpenses)}</td>
+              <td>{formatCurrency(operations.monthlyNetOperatingIncome)}</td>
+              <td>{formatCurrency(summary.monthlyInterestCost)}</td>
+              <td>{formatCurrency(operations.monthlyNetCashflowAfterExpenses)}</td>
+              <td>{formatPercent(operations.annualReturnOnEquityAfterExpenses)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <form className="formGrid" onSubmit={handleSubmit}>
+        <label className="formField">
+          <span>현장</span>
+          <select
+            value={draft.site ?? ''}
+            onChange={(event) => update({ site: event.target.value || null })}
+          >
+            <option value="">공통 (호실 미지정)</option>
+            {units.map((unit) => (
+              <option key={unit.id} value={unit.site}>
+                {unit.site}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="formField">
+          <span>항목</span>
+          <select
+            value={draft.category}
+            onChange={(event) => update({ category: event.target.value as ExpenseCategory })}
+          >
+            {MANUAL_EXPENSE_CATEGORIES.map((category) => (
+              <option key={category} value={category}>
+                {EXPENSE_CATEGORY_LABELS[category]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="formField">
+          <span>메모</span>
+          <input
+            value={draft.label}
+            placeholder={EXPENSE_CATEGORY_LABELS[draft.category]}
+            onChange={(event) => update({ label: event.target.value })}
+          />
+        </label>
+        <label className="formField">
+          <span>금액(원)</span>
+          <input
+            inputMode="numeric"
+            value={draft.amount}
+            onChange={(event) => update({ amount: event.target.value })}
+          />
+        </label>
+        <label className="formField">
+          <span>주기</span>
+          <select
+            value={draft.frequency}
+            onChange={(event) => update({ frequency: event.target.value as ExpenseFrequency })}
+          >
+            {Object.entries(EXPENSE_FREQUENCY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        {draft.frequency === 'oneOff' ? (
+          <label className="formField">
+            <span>지출일</span>
+            <input
+              type="date"
+              value={draft.date ?? ''}
+              onChange={(event) => update({ date: event.target.value || null })}
+            />
+          </label>
+        ) : null}
+        <label className="formField checkboxField">
+          <input
+            type="checkbox"
+            checked={draft.vacancyOnly}
+            disabled={draft.site === null}
+            onChange={(event) => update({ vacancyOnly: event.target.checked })}
+          />
+          <span>공실일 때만 부과</span>
+        </label>
+        <button className="refreshButton" type="submit" disabled={!canAdd}>
+          비용 추가
+        </button>
+      </form>
+
+      <div className="tableContainer">
+        <table>
+          <thead>
+            <tr>
+              <th>현장</th>
+              <th>항목</th>
+              <th>금액</th>
+              <th>주기</th>
+              <th>월 환산</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {operations.lines
+              .filter((line) => line.source === 'sheet')
+              .map((line) => (
+                <tr key={line.id}>
+                  <td>{line.site ?? '공통'}</td>
+                  <td>{line.label}</td>
+                  <td>{formatCurrency(line.monthlyAmount * 12)}</td>
+                  <td>{EXPENSE_FREQUENCY_LABELS.annual}</td>
+                  <td>{formatCurrency(line.monthlyAmount)}</td>
+                  <td>시트</td>
+                </tr>
+              ))}
+            {expenses.map((expense) => (
+              <tr key={expense.id}>
+                <td>
+                  {expense.site ?? '공통'}
+                  {expense.vacancyOnly ? <span className="deltaText">공실일 때만</span> : null}
+                </td>
+                <td>{expense.label || EXPENSE_CATEGORY_LABELS[expense.category]}</td>
+                <td>{formatCurrency(expense.amount)}</td>
+                <td>
+                  {EXPENSE_FREQUENCY_LABELS[expense.frequency]}
+                  {expense.date ? ` (${expense.date})` : ''}
+                </td>
+                <td>
+                  {monthlyBySource.has(expense.id)
+                    ? formatCurrency(monthlyBySource.get(expense.id) ?? 0)
+                    : '호실 없음'}
+                </td>
+                <td>
+                  <button className="linkButton" onClick={() => onRemove(expense.id)}>
+                    삭제
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {operations.lines.length === 0 && expenses.length === 0 ? (
+              <tr>
+                <td className="emptyRow" colSpan={6}>
+                  등록된 운영비가 없습니다.
+                </td>
+              </tr>
+            ) : null}
+          </tbody>
+        </table>
+      </div>
+      <p className="calendarHint">
+        시트의 재산세·교통유발부담금은 연액을 12개월로 나누어 반영하고, 일회성 비용은 지출일부터{' '}
+        {ONE_OFF_AMORTIZATION_MONTHS}개월에 나누어 반영합니다.
+      </p>
+    </section>
+  )
+}
@@ -0,0 +1,29 @@
+import { downloadTables, type ExportTable } from '../lib/exportTables'
+
+type ExportButtonsProps = {
+  baseName: string
+  tables: ExportTable[]
+}
+
+export default function ExportButtons({ baseName, tables }: ExportButtonsProps) {
+  const empty = tables.every((table) => table.rows.length === 0)
+
+  return (
+    <div className="toolbar">
+      <button
+        className="refreshButton"
+        onClick={() => downloadTables(baseName, tables, 'xlsx')}
+        disabled={empty}
+      >
+        XLSX 내보내기
+      </button>
+      <button
+        className="refreshButton"
+        onClick={() => downloadTables(baseName, tables, 'csv')}
+        disabled={empty}
+      >
+        CSV 내보내기
+      </button>
+    </div>
+  )
+}
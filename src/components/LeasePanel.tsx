@@ -0,0 +1,180 @@
+import { useState } from 'react'
+import {
+  analyzeLease,
+  LEASE_REGION_LABELS,
+  RENEWAL_RIGHT_YEARS,
+  RENT_INCREASE_CAP,
+  type Lease,
+  type LeaseRegion,
+} from '../lib/lease'
+
+const krwFormat = new Intl.NumberFormat('ko-KR', { maximumFractionDigits: 0 })
+
+function formatCurrency(value: number | null): string {
+  if (value === null) return '-'
+  return `${krwFormat.format(Math.round(value))}원`
+}
+
+function formatDate(date: Date | null): string {
+  if (!date) return '-'
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}.${month}.${day}`
+}
+
+function vatLabel(vatIncluded: boolean | null): string {
+  if (vatIncluded === null) return '부가세 미확인'
+  return vatIncluded ? '부가세 포함' : '부가세 별도'
+}
+
+type LeasePanelProps = {
+  lease: Lease
+}
+
+export default function LeasePanel({ lease }: LeasePanelProps) {
+  const [region, setRegion] = useState<LeaseRegion>('overcrowded')
+  const analysis = analyzeLease(lease, region)
+  const next = analysis.renewals[0] ?? null
+  const capPercent = `${RENT_INCREASE_CAP * 100}%`
+
+  function formatLimit(value: number | null, renewalRight: boolean | null): string {
+    if (value !== null) return formatCurrency(value)
+    return analysis.capApplies && renewalRight !== false ? '-' : '협의'
+  }
+
+  return (
+    <section className="tableSection">
+      <div className="tableHeader">
+        <h2>임대차 계약 · 갱신 시 증액 한도</h2>
+        <p>상가건물 임대차보호법 {capPercent} 상한 기준</p>
+      </div>
+
+      <div className="highlightGrid">
+        <article className="highlightCard">
+          <h2>계약 조건</h2>
+          <div className="kvList">
+            <p>
+              <span>임차인</span>
+              <strong>{lease.tenant || '-'}</strong>
+            </p>
+            <p>
+              <span>계약 기간</span>
+              <strong>
+                {formatDate(lease.start)} ~ {formatDate(lease.end)}
+              </strong>
+            </p>
+            <p>
+              <span>보증금</span>
+              <strong>{formatCurrency(lease.deposit)}</strong>
+            </p>
+            <p>
+              <span>월세 ({vatLabel(lease.vatIncluded)})</span>
+              <strong>{formatCurrency(lease.monthlyRent)}</strong>
+            </p>
+            <p>
+              <span>월세 (공급가액 / 부가세 포함)</span>
+              <strong>
+                {formatCurrency(analysis.netMonthlyRent)} /{' '}
+                {formatCurrency(analysis.grossMonthlyRent)}
+              </strong>
+            </p>
+            <p>
+              <span>갱신요구권 ({RENEWAL_RIGHT_YEARS}년)</span>
+              <strong>
+                {lease.renewalRightUntil
+                  ? `${formatDate(lease.renewalRightUntil)}까지`
+                  : '계약시작일 필요'}
+              </strong>
+            </p>
+          </div>
+        </article>
+
+        <article className="highlightCard">
+          <h2>다음 갱신</h2>
+          <div className="formGrid">
+            <label className="formField">
+              소재 지역
+              <select
+                value={region}
+                onChange={(event) => setRegion(event.target.value as LeaseRegion)}
+              >
+                {Object.entries(LEASE_REGION_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="kvList">
+            <p>
+              <span>환산보증금 / 기준</span>
+              <strong>
+                {formatCurrency(analysis.convertedDeposit)} / {formatCurrency(analysis.threshold)}
+              </strong>
+            </p>
+            <p>
+              <span>갱신일</span>
+              <strong>{next ? formatDate(next.date) : '계약갱신일 필요'}</strong>
+            </p>
+            <p>
+              <span>최대 월세 (+{capPercent})</span>
+              <strong>{next ? formatLimit(next.maxMonthlyRent, next.renewalRight) : '-'}</strong>
+            </p>
+            <p>
+              <span>최대 보증금 (+{capPercent})</span>
+              <strong>{next ? formatLimit(next.maxDeposit, next.renewalRight) : '-'}</strong>
+            </p>
+          </div>
+          {!analysis.capApplies ? (
+            <p className="calendarHint">
+              환산보증금이 지역 기준을 넘어 {capPercent} 증액 상한이 적용되지 않습니다. 갱신요구권은
+              유지됩니다.
+            </p>
+          ) : null}
+        </article>
+      </div>
+
+      {analysis.renewals.length > 0 ? (
+        <div className="tableContainer">
+          <table>
+            <thead>
+              <tr>
+                <th>갱신일</th>
+                <th>갱신요구권</th>
+                <th>최대 월세</th>
+                <th>최대 보증금</th>
+                <th>최대 연 임대수입</th>
+              </tr>
+            </thead>
+            <tbody>
+              {analysis.renewals.map((renewal) => (
+                <tr key={renewal.date.getTime()}>
+                  <td>{formatDate(renewal.date)}</td>
+                  <td className={renewal.renewalRight === false ? 'negativeCell' : ''}>
+                    {renewal.renewalRight === null
+                      ? '확인 필요'
+                      : renewal.renewalRight
+                        ? '있음'
+                        : '만료 (재계약 협의)'}
+                  </td>
+                  <td>{formatLimit(renewal.maxMonthlyRent, renewal.renewalRight)}</td>
+                  <td>{formatLimit(renewal.maxDeposit, renewal.renewalRight)}</td>
+                  <td>
+                    {renewal.maxMonthlyRent === null
+                      ? '-'
+                      : formatCurrency(renewal.maxMonthlyRent * 12)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+      <p className="calendarHint">
+        계약 기간은 시작일부터 갱신일까지(3년을 넘거나 없으면 2년)로 반복하며, 지난 갱신일은 같은
+        조건으로 갱신된 것으로 봅니다.
+      </p>
+    </section>
+  )
+}
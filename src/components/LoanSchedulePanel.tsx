@@ -0,0 +1,175 @@
+import { useMemo, useState } from 'react'
+import {
+  buildAmortizationSchedule,
+  monthsBetween,
+  outstandingBalanceAfter,
+  REPAYMENT_TYPE_LABELS,
+  type LoanTerms,
+  type RepaymentType,
+} from '../lib/loan'
+
+const krwFormat = new Intl.NumberFormat('ko-KR', { maximumFractionDigits: 0 })
+const percentFormat = new Intl.NumberFormat('ko-KR', {
+  style: 'percent',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+})
+
+function formatCurrency(value: number): string {
+  return `${krwFormat.format(Math.round(value))}원`
+}
+
+function formatMonth(date: Date | null): string {
+  if (!date) return '-'
+  return `${date.getFullYear()}.${String(date.getMonth() + 1).padStart(2, '0')}`
+}
+
+function toMonthInputValue(date: Date | null): string {
+  if (!date) return ''
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
+}
+
+function fromMonthInputValue(value: string): Date | null {
+  const match = value.match(/^(\d{4})-(\d{2})$/)
+  if (!match) return null
+  return new Date(Number(match[1]), Number(match[2]) - 1, 1)
+}
+
+type LoanSchedulePanelProps = {
+  seed: LoanTerms
+}
+
+export default function LoanSchedulePanel({ seed }: LoanSchedulePanelProps) {
+  const [overrides, setOverrides] = useState<Partial<LoanTerms>>({})
+  const terms: LoanTerms = { ...seed, ...overrides }
+  const { principal, annualRate, termMonths, repaymentType, startDate } = terms
+
+  const schedule = useMemo(
+    () =>
+      buildAmortizationSchedule({ principal, annualRate, termMonths, repaymentType, startDate }),
+    [principal, annualRate, termMonths, repaymentType, startDate],
+  )
+  const totalInterest = schedule.reduce((acc, row) => acc + row.interest, 0)
+  const elapsedMonths = startDate ? monthsBetween(startDate, new Date()) : 0
+  const currentBalance = outstandingBalanceAfter(schedule, principal, elapsedMonths)
+  const balanceInOneYear = outstandingBalanceAfter(schedule, principal, elapsedMonths + 12)
+
+  const update = (patch: Partial<LoanTerms>) =>
+    setOverrides((previous) => ({ ...previous, ...patch }))
+
+  return (
+    <section className="tableSection">
+      <div className="tableHeader">
+        <h2>대출 상환 스케줄</h2>
+        <p>
+          {REPAYMENT_TYPE_LABELS[repaymentType]} · {termMonths}개월 · 연{' '}
+          {percentFormat.format(annualRate)}
+        </p>
+      </div>
+
+      <div className="formGrid">
+        <label className="formField">
+          <span>대출금액(원)</span>
+          <input
+            type="number"
+            min={0}
+            step={1000000}
+            value={principal}
+            onChange={(event) => update({ principal: Math.max(0, Number(event.target.value)) })}
+          />
+        </label>
+        <label className="formField">
+          <span>연 이율(%)</span>
+          <input
+            type="number"
+            min={0}
+            step={0.05}
+            value={Number((annualRate * 100).toFixed(3))}
+            onChange={(event) =>
+              update({ annualRate: Math.max(0, Number(event.target.value)) / 100 })
+            }
+          />
+        </label>
+        <label className="formField">
+          <span>기간(개월)</span>
+          <input
+            type="number"
+            min={1}
+            max={600}
+            value={termMonths}
+            onChange={(event) =>
+              update({ termMonths: Math.min(600, Math.max(1, Number(event.target.value))) })
+            }
+          />
+        </label>
+        <label className="formField">
+          <span>상환방식</span>
+          <select
+            value={repaymentType}
+            onChange={(event) => update({ repaymentType: event.target.value as RepaymentType })}
+          >
+            {Object.entries(REPAYMENT_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="formField">
+          <span>대출 실행월</span>
+          <input
+            type="month"
+            value={toMonthInputValue(startDate)}
+            onChange={(event) => update({ startDate: fromMonthInputValue(event.target.value) })}
+          />
+        </label>
+      </div>
+
+      <div className="taxSummaryGrid">
+        <p>
+          <span>첫 회 납입액</span>
+          <strong>{schedule.length > 0 ? formatCurrency(schedule[0].payment) : '-'}</strong>
+        </p>
+        <p>
+          <span>총 이자</span>
+          <strong>{formatCurrency(totalInterest)}</strong>
+        </p>
+        <p>
+          <span>현재 잔액{startDate ? '' : ' (실행월 미입력)'}</span>
+          <strong>{formatCurrency(currentBalance)}</strong>
+        </p>
+        <p>
+          <span>1년 후 잔액</span>
+          <strong>{formatCurrency(balanceInOneYear)}</strong>
+        </p>
+      </div>
+
+      <div className="tableContainer scheduleContainer">
+        <table>
+          <thead>
+            <tr>
+              <th>회차</th>
+              <th>납입월</th>
+              <th>납입액</th>
+              <th>원금</th>
+              <th>이자</th>
+              <th>잔액</th>
+            </tr>
+          </thead>
+          <tbody>
+            {schedule.map((row) => (
+              <tr key={row.month} className={row.month === elapsedMonths ? 'currentRow' : ''}>
+                <td>{row.month}</td>
+                <td>{formatMonth(row.date)}</td>
+                <td>{formatCurrency(row.payment)}</td>
+                <td>{formatCurrency(row.principal)}</td>
+                <td>{formatCurrency(row.interest)}</td>
+                <td>{formatCurrency(row.balance)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,74 @@
+import { Link } from 'react-router-dom'
+import { ownerPath, type OwnerPortfolio } from '../lib/owners'
+
+const krwFormat = new Intl.NumberFormat('ko-KR', { maximumFractionDigits: 0 })
+const percentFormat = new Intl.NumberFormat('ko-KR', {
+  style: 'percent',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+})
+
+function formatCurrency(value: number): string {
+  return `${krwFormat.format(Math.round(value))}원`
+}
+
+type OwnerBreakdownTableProps = {
+  owners: OwnerPortfolio[]
+}
+
+export default function OwnerBreakdownTable({ owners }: OwnerBreakdownTableProps) {
+  if (owners.length === 0) return null
+
+  return (
+    <section className="tableSection">
+      <div className="tableHeader">
+        <h2>명의별 현황</h2>
+        <p>{owners.length}개 명의 · 명의를 누르면 상세 화면으로 이동</p>
+      </div>
+      <div className="tableContainer">
+        <table>
+          <thead>
+            <tr>
+              <th>명의</th>
+              <th>호실</th>
+              <th>공급금액</th>
+              <th>대출금</th>
+              <th>LTV</th>
+              <th>월 순현금흐름</th>
+              <th>연 ROE</th>
+              <th>연간 세금</th>
+              <th>사업자번호</th>
+            </tr>
+          </thead>
+          <tbody>
+            {owners.map(({ owner, summary, taxes, businessNumbers }) => (
+              <tr key={owner}>
+                <td>
+                  <Link className="unitLink" to={ownerPath(owner)}>
+                    {owner}
+                  </Link>
+                </td>
+                <td>{summary.totalUnits}개</td>
+                <td>{formatCurrency(summary.totalSupplyPrice)}</td>
+                <td>{formatCurrency(summary.totalLoanAmount)}</td>
+                <td>
+                  {summary.loanToValue === null ? '-' : percentFormat.format(summary.loanToValue)}
+                </td>
+                <td className={summary.monthlyNetCashflow < 0 ? 'negativeCell' : ''}>
+                  {formatCurrency(summary.monthlyNetCashflow)}
+                </td>
+                <td>
+                  {summary.annualReturnOnEquity === null
+                    ? '-'
+                    : percentFormat.format(summary.annualReturnOnEquity)}
+                </td>
+                <td>{formatCurrency(taxes.annualTaxTotal)}</td>
+                <td>{businessNumbers.length}개</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  )
+}
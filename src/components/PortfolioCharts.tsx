@@ -0,0 +1,364 @@
+import type { PortfolioSummary, PortfolioUnit } from '../lib/portfolio'
+
+const compactFormat = new Intl.NumberFormat('ko-KR', {
+  notation: 'compact',
+  maximumFractionDigits: 1,
+})
+
+const CHART_WIDTH = 640
+const LABEL_WIDTH = 170
+const ROW_HEIGHT = 26
+const PALETTE = ['#ee7c52', '#ffb18a', '#7cc4a4', '#7aa7e6', '#c99be8', '#f2d46b', '#e88a9f']
+
+function formatCompact(value: number): string {
+  return `${compactFormat.format(Math.round(value))}원`
+}
+
+function truncate(label: string, length = 14): string {
+  return label.length > length ? `${label.slice(0, length - 1)}…` : label
+}
+
+function linearScale(min: number, max: number, rangeStart: number, rangeEnd: number) {
+  const span = max - min || 1
+  return (value: number) => rangeStart + ((value - min) / span) * (rangeEnd - rangeStart)
+}
+
+function RentInterestChart({ units }: { units: PortfolioUnit[] }) {
+  const max = Math.max(
+    1,
+    ...units.flatMap((unit) => [unit.monthlyRent ?? 0, unit.monthlyInterest ?? 0]),
+  )
+  const x = linearScale(0, max, LABEL_WIDTH, CHART_WIDTH - 70)
+  const height = units.length * ROW_HEIGHT + 24
+
+  return (
+    <svg className="chart" viewBox={`0 0 ${CHART_WIDTH} ${height}`} role="img">
+      <title>호실별 월세와 대출이자</title>
+      {units.map((unit, index) => {
+        const top = index * ROW_HEIGHT
+        const rent = unit.monthlyRent ?? 0
+        const interest = unit.monthlyInterest ?? 0
+        return (
+          <g key={unit.id}>
+            <text className="chartLabel" x={LABEL_WIDTH - 8} y={top + 16} textAnchor="end">
+              {truncate(unit.site)}
+            </text>
+            <rect
+              className="chartBar rentBar"
+              x={LABEL_WIDTH}
+              y={top + 3}
+              width={x(rent) - LABEL_WIDTH}
+              height={9}
+            />
+            <rect
+              className="chartBar interestBar"
+              x={LABEL_WIDTH}
+              y={top + 13}
+              width={x(interest) - LABEL_WIDTH}
+              height={9}
+            />
+            <text className="chartValue" x={x(Math.max(rent, interest)) + 6} y={top + 16}>
+              {formatCompact(rent - interest)}
+            </text>
+          </g>
+        )
+      })}
+      <g transform={`translate(${LABEL_WIDTH}, ${height - 8})`}>
+        <rect className="chartBar rentBar" width={10} height={8} y={-7} />
+        <text className="chartLabel" x={14}>
+          월세
+        </text>
+        <rect className="chartBar interestBar" x={60} width={10} height={8} y={-7} />
+        <text className="chartLabel" x={74}>
+          대출이자
+        </text>
+        <text className="chartLabel" x={140}>
+          막대 끝 숫자 = 월 순현금흐름
+        </text>
+      </g>
+    </svg>
+  )
+}
+
+function CashflowWaterfall({
+  units,
+  summary,
+}: {
+  units: PortfolioUnit[]
+  summary: PortfolioSummary
+}) {
+  const steps = units.map((unit) => ({
+    id: unit.id,
+    label: unit.site,
+    value: (unit.monthlyRent ?? 0) - (unit.monthlyInterest ?? 0),
+  }))
+  const segments = steps.map((step, index) => {
+    const start = steps.slice(0, index).reduce((acc, previous) => acc + previous.value, 0)
+    return { ...step, start, end: start + step.value }
+  })
+  const bounds = [0, ...segments.flatMap((segment) => [segment.start, segment.end])]
+  const x = linearScale(Math.min(...bounds), Math.max(...bounds), LABEL_WIDTH, CHART_WIDTH - 70)
+  const height = (segments.length + 1) * ROW_HEIGHT + 8
+  const totalTop = segments.length * ROW_HEIGHT
+
+  return (
+    <svg className="chart" viewBox={`0 0 ${CHART_WIDTH} ${height}`} role="img">
+      <title>호실별 월 순현금흐름 누적</title>
+      <line className="chartAxis" x1={x(0)} x2={x(0)} y1={0} y2={height} />
+      {segments.map((segment, index) => {
+        const top = index * ROW_HEIGHT
+        const left = x(Math.min(segment.start, segment.end))
+        const right = x(Math.max(segment.start, segment.end))
+        return (
+          <g key={segment.id}>
+            <text className="chartLabel" x={LABEL_WIDTH - 8} y={top + 16} textAnchor="end">
+              {truncate(segment.label)}
+            </text>
+            <rect
+              className={`chartBar ${segment.value < 0 ? 'lossBar' : 'gainBar'}`}
+              x={left}
+              y={top + 5}
+              width={Math.max(1, right - left)}
+              height={16}
+            />
+            <text className="chartValue" x={right + 6} y={top + 17}>
+              {formatCompact(segment.value)}
+            </text>
+          </g>
+        )
+      })}
+      <text className="chartLabel strong" x={LABEL_WIDTH - 8} y={totalTop + 16} textAnchor="end">
+        합계
+      </text>
+      <rect
+        className={`chartBar ${summary.monthlyNetCashflow < 0 ? 'lossBar' : 'totalBar'}`}
+        x={Math.min(x(0), x(summary.monthlyNetCashflow))}
+        y={totalTop + 5}
+        width={Math.max(1, Math.abs(x(summary.monthlyNetCashflow) - x(0)))}
+        height={16}
+      />
+      <text
+        className="chartValue"
+        x={Math.max(x(0), x(summary.monthlyNetCashflow)) + 6}
+        y={totalTop + 17}
+      >
+        {formatCompact(summary.monthlyNetCashflow)}
+      </text>
+    </svg>
+  )
+}
+
+type HistogramBin = { label: string; count: number }
+
+function buildHistogram(values: number[], step: number, format: (value: number) => string) {
+  if (values.length === 0) return []
+  const first = Math.floor(Math.min(...values) / step + 1e-9)
+  const last = Math.floor(Math.max(...values) / step + 1e-9)
+  const bins: HistogramBin[] = []
+  for (let index = first; index <= last; index++) {
+    bins.push({
+      label: format(index * step),
+      count: values.filter((value) => Math.floor(value / step + 1e-9) === index).length,
+    })
+  }
+  return bins
+}
+
+function Histogram({
+  title,
+  bins,
+  average,
+}: {
+  title: string
+  bins: HistogramBin[]
+  average: string
+}) {
+  const width = 300
+  const height = 170
+  const plotTop = 24
+  const plotBottom = height - 28
+  const maxCount = Math.max(1, ...bins.map((bin) => bin.count))
+  const y = linearScale(0, maxCount, plotBottom, plotTop)
+  const slot = bins.length > 0 ? (width - 20) / bins.length : 0
+
+  return (
+    <svg className="chart" viewBox={`0 0 ${width} ${height}`} role="img">
+      <title>{title}</title>
+      <text className="chartLabel strong" x={10} y={14}>
+        {title} · 평균 {average}
+      </text>
+      <line className="chartAxis" x1={10} x2={width - 10} y1={plotBottom} y2={plotBottom} />
+      {bins.map((bin, index) => {
+        const left = 10 + index * slot
+        return (
+          <g key={bin.label}>
+            <rect
+              className="chartBar rentBar"
+              x={left + slot * 0.15}
+              y={y(bin.count)}
+              width={slot * 0.7}
+              height={plotBottom - y(bin.count)}
+            />
+            {bin.count > 0 ? (
+              <text
+                className="chartValue"
+                x={left + slot / 2}
+                y={y(bin.count) - 4}
+                textAnchor="middle"
+              >
+                {bin.count}
+              </text>
+            ) : null}
+            <text
+              className="chartLabel"
+              x={left + slot / 2}
+              y={plotBottom + 16}
+              textAnchor="middle"
+            >
+              {bin.label}
+            </text>
+          </g>
+        )
+      })}
+    </svg>
+  )
+}
+
+function DistributionCharts({
+  units,
+  summary,
+}: {
+  units: PortfolioUnit[]
+  summary: PortfolioSummary
+}) {
+  const ltvs = units
+    .filter((unit) => (unit.supplyPrice ?? 0) > 0 && unit.loanAmount !== null)
+    .map((unit) => (unit.loanAmount as number) / (unit.supplyPrice as number))
+  const rates = units
+    .map((unit) => unit.interestRate)
+    .filter((rate): rate is number => rate !== null)
+
+  return (
+    <div className="chartPair">
+      <Histogram
+        title="LTV 분포"
+        bins={buildHistogram(ltvs, 0.1, (value) => `${Math.round(value * 100)}%`)}
+        average={summary.loanToValue === null ? '-' : `${(summary.loanToValue * 100).toFixed(1)}%`}
+      />
+      <Histogram
+        title="대출이율 분포"
+        bins={buildHistogram(rates, 0.005, (value) => `${(value * 100).toFixed(1)}%`)}
+        average={
+          summary.avgInterestRate === null ? '-' : `${(summary.avgInterestRate * 100).toFixed(2)}%`
+        }
+      />
+    </div>
+  )
+}
+
+function arcPath(
+  cx: number,
+  cy: number,
+  radius: number,
+  inner: number,
+  start: number,
+  end: number,
+) {
+  const point = (r: number, angle: number) =>
+    `${cx + r * Math.sin(angle)} ${cy - r * Math.cos(angle)}`
+  const largeArc = end - start > Math.PI ? 1 : 0
+  return [
+    `M ${point(radius, start)}`,
+    `A ${radius} ${radius} 0 ${largeArc} 1 ${point(radius, end)}`,
+    `L ${point(inner, end)}`,
+    `A ${inner} ${inner} 0 ${largeArc} 0 ${point(inner, start)}`,
+    'Z',
+  ].join(' ')
+}
+
+function EquityAllocationChart({
+  units,
+  summary,
+}: {
+  units: PortfolioUnit[]
+  summary: PortfolioSummary
+}) {
+  const slices = units
+    .map((unit) => ({
+      id: unit.id,
+      label: unit.site,
+      equity: (unit.supplyPrice ?? 0) - (unit.loanAmount ?? 0),
+    }))
+    .filter((slice) => slice.equity > 0)
+    .sort((a, b) => b.equity - a.equity)
+  const total = slices.reduce((acc, slice) => acc + slice.equity, 0)
+  const height = Math.max(200, slices.length * 22 + 20)
+  const angles = slices.map(
+    (_, index) =>
+      (slices.slice(0, index).reduce((acc, slice) => acc + slice.equity, 0) / total) * Math.PI * 2,
+  )
+
+  return (
+    <svg className="chart" viewBox={`0 0 ${CHART_WIDTH} ${height}`} role="img">
+      <title>호실별 자기자본 배분</title>
+      {slices.map((slice, index) => {
+        const start = angles[index]
+        const end = Math.min(start + (slice.equity / total) * Math.PI * 2, Math.PI * 2 - 0.0001)
+        return (
+          <path
+            key={slice.id}
+            d={arcPath(100, 100, 90, 52, start, end)}
+            style={{ fill: PALETTE[index % PALETTE.length] }}
+          />
+        )
+      })}
+      <text className="chartLabel strong" x={100} y={98} textAnchor="middle">
+        자기자본
+      </text>
+      <text className="chartValue" x={100} y={116} textAnchor="middle">
+        {formatCompact(summary.totalEquity)}
+      </text>
+      {slices.map((slice, index) => (
+        <g key={slice.id} transform={`translate(230, ${20 + index * 22})`}>
+          <rect width={10} height={10} y={-9} style={{ fill: PALETTE[index % PALETTE.length] }} />
+          <text className="chartLabel" x={16}>
+            {truncate(slice.label, 22)}
+          </text>
+          <text className="chartValue" x={CHART_WIDTH - 240} textAnchor="end">
+            {formatCompact(slice.equity)} · {((slice.equity / total) * 100).toFixed(1)}%
+          </text>
+        </g>
+      ))}
+    </svg>
+  )
+}
+
+type PortfolioChartsProps = {
+  units: PortfolioUnit[]
+  summary: PortfolioSummary
+}
+
+export default function PortfolioCharts({ units, summary }: PortfolioChartsProps) {
+  if (units.length === 0) return null
+
+  return (
+    <section className="chartGrid">
+      <article className="highlightCard">
+        <h2>호실별 월세 vs 대출이자</h2>
+        <RentInterestChart units={units} />
+      </article>
+      <article className="highlightCard">
+        <h2>월 순현금흐름 워터폴</h2>
+        <CashflowWaterfall units={units} summary={summary} />
+      </article>
+      <article className="highlightCard">
+        <h2>LTV · 금리 분포</h2>
+        <DistributionCharts units={units} summary={summary} />
+      </article>
+      <article className="highlightCard">
+        <h2>자기자본 배분</h2>
+        <EquityAllocationChart units={units} summary={summary} />
+      </article>
+    </section>
+  )
+}
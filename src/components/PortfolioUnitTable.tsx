@@ -0,0 +1,278 @@
+import { useMemo } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { formatSheetDate, type SheetDate } from '../lib/dates'
+import { ownerPath, unitOwner } from '../lib/owners'
+import { unitCashflow, type PortfolioSummary, type PortfolioUnit } from '../lib/portfolio'
+import { getUnitDetailBySite, type UnitRegistry } from '../lib/unitDetailRoutes'
+import {
+  applyUnitTableQuery,
+  GROUP_LABELS,
+  parseUnitTableQuery,
+  unitFilterOptions,
+  writeUnitTableQuery,
+  type UnitGroupKey,
+  type UnitSortKey,
+  type UnitTableQuery,
+} from '../lib/unitTable'
+
+const krwFormat = new Intl.NumberFormat('ko-KR', { maximumFractionDigits: 0 })
+const percentFormat = new Intl.NumberFormat('ko-KR', {
+  style: 'percent',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+})
+
+function formatCurrency(value: number): string {
+  return `${krwFormat.format(Math.round(value))}원`
+}
+
+const COLUMN_COUNT = 14
+
+type PortfolioUnitTableProps = {
+  units: PortfolioUnit[]
+  registry: UnitRegistry
+}
+
+export default function PortfolioUnitTable({ units, registry }: PortfolioUnitTableProps) {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const query = useMemo(() => parseUnitTableQuery(searchParams), [searchParams])
+  const groups = useMemo(() => applyUnitTableQuery(units, query), [units, query])
+  const visibleCount = groups.reduce((acc, group) => acc + group.units.length, 0)
+  const missingDetailCount = useMemo(
+    () => units.filter((unit) => !getUnitDetailBySite(registry, unit.site)).length,
+    [units, registry],
+  )
+  const filterOptions = useMemo(
+    () => ({
+      ownership: unitFilterOptions(units, 'ownership'),
+      tenantStatus: unitFilterOptions(units, 'tenantStatus'),
+      complex: unitFilterOptions(units, 'complex'),
+    }),
+    [units],
+  )
+
+  function updateQuery(patch: Partial<UnitTableQuery>) {
+    setSearchParams(writeUnitTableQuery(searchParams, { ...query, ...patch }), { replace: true })
+  }
+
+  function toggleSort(key: UnitSortKey) {
+    if (query.sort !== key) {
+      updateQuery({ sort: key, direction: 'desc' })
+    } else if (query.direction === 'desc') {
+      updateQuery({ direction: 'asc' })
+    } else {
+      updateQuery({ sort: null })
+    }
+  }
+
+  function sortHeader(key: UnitSortKey, label: string) {
+    const active = query.sort === key
+    return (
+      <th aria-sort={active ? (query.direction === 'asc' ? 'ascending' : 'descending') : 'none'}>
+        <button className="sortButton" onClick={() => toggleSort(key)}>
+          {label}
+          <span>{active ? (query.direction === 'asc' ? '▲' : '▼') : '↕'}</span>
+        </button>
+      </th>
+    )
+  }
+
+  function dateCell(value: SheetDate | null, raw: string) {
+    return (
+      <td title={raw || undefined} className={value || !raw.trim() ? '' : 'negativeCell'}>
+        {value ? formatSheetDate(value) : raw || '-'}
+      </td>
+    )
+  }
+
+  function subtotalRow(key: string, label: string, subtotal: PortfolioSummary) {
+    return (
+      <tr key={`${key}-subtotal`} className="subtotalRow">
+        <td>{label}</td>
+        <td />
+        <td>{formatCurrency(subtotal.totalSupplyPrice)}</td>
+        <td>{formatCurrency(subtotal.totalLoanAmount)}</td>
+        <td>
+          {subtotal.avgInterestRate === null ? '-' : percentFormat.format(subtotal.avgInterestRate)}
+        </td>
+        <td>{formatCurrency(subtotal.monthlyRentIncome)}</td>
+        <td>{formatCurrency(subtotal.monthlyInterestCost)}</td>
+        <td className={subtotal.monthlyNetCashflow < 0 ? 'negativeCell' : ''}>
+          {formatCurrency(subtotal.monthlyNetCashflow)}
+        </td>
+        <td>
+          {subtotal.annualReturnOnEquity === null
+            ? '-'
+            : percentFormat.format(subtotal.annualReturnOnEquity)}
+        </td>
+        <td colSpan={COLUMN_COUNT - 9}>
+          LTV {subtotal.loanToValue === null ? '-' : percentFormat.format(subtotal.loanToValue)}
+        </td>
+      </tr>
+    )
+  }
+
+  const filters: Array<{ key: UnitGroupKey; value: string | null }> = [
+    { key: 'ownership', value: query.ownership },
+    { key: 'tenantStatus', value: query.tenantStatus },
+    { key: 'complex', value: query.complex },
+  ]
+  const hasQuery = filters.some((filter) => filter.value !== null) || query.sort || query.group
+
+  return (
+    <section className="tableSection">
+      <div className="tableHeader">
+        <h2>호실별 손익/레버리지</h2>
+        <p>
+          {units.length > 0 ? `${visibleCount} / ${units.length}개 호실 표시` : '데이터 없음'}
+          {missingDetailCount > 0 ? ` · 상세 탭 없음 ${missingDetailCount}개` : ''}
+        </p>
+      </div>
+
+      <div className="formGrid">
+        {filters.map((filter) => (
+          <label key={filter.key} className="formField">
+            <span>{GROUP_LABELS[filter.key]}</span>
+            <select
+              value={filter.value ?? ''}
+              onChange={(event) => updateQuery({ [filter.key]: event.target.value || null })}
+            >
+              <option value="">전체</option>
+              {filterOptions[filter.key].map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+        <label className="formField">
+          <span>그룹</span>
+          <select
+            value={query.group ?? ''}
+            onChange={(event) =>
+              updateQuery({ group: (event.target.value || null) as UnitGroupKey | null })
+            }
+          >
+            <option value="">없음</option>
+            {Object.entries(GROUP_LABELS).map(([key, label]) => (
+              <option key={key} value={key}>
+                {label}별 소계
+              </option>
+            ))}
+          </select>
+        </label>
+        {hasQuery ? (
+          <button
+            className="refreshButton resetButton"
+            onClick={() =>
+              updateQuery({
+                sort: null,
+                ownership: null,
+                tenantStatus: null,
+                complex: null,
+                group: null,
+              })
+            }
+          >
+            초기화
+          </button>
+        ) : null}
+      </div>
+
+      <div className="tableContainer">
+        <table>
+          <thead>
+            <tr>
+              <th>현장</th>
+              <th>명의</th>
+              {sortHeader('supplyPrice', '공급금액')}
+              {sortHeader('loanAmount', '대출금')}
+              {sortHeader('interestRate', '이율')}
+              {sortHeader('monthlyRent', '월세')}
+              {sortHeader('monthlyInterest', '월이자')}
+              {sortHeader('monthlyNet', '월 순현금흐름')}
+              {sortHeader('unitRoe', '연 ROE')}
+              <th>실입주</th>
+              <th>사업자번호</th>
+              {sortHeader('contractRenewal', '계약갱신')}
+              {sortHeader('loanRenewal', '대출갱신')}
+              <th>비고</th>
+            </tr>
+          </thead>
+          <tbody>
+            {groups.flatMap((group) => [
+              ...group.units.map((unit) => {
+                const detail = getUnitDetailBySite(registry, unit.site)
+                const { monthlyNet, annualReturnOnEquity: unitRoe } = unitCashflow(unit)
+
+                return (
+                  <tr key={unit.id}>
+                    <td>
+                      {detail ? (
+                        <Link className="unitLink" to={`/units/${detail.slug}`}>
+                          {unit.site}
+                        </Link>
+                      ) : (
+                        <>
+                          {unit.site}
+                          <span className="missingDetailBadge">상세 탭 없음</span>
+                        </>
+                      )}
+                    </td>
+                    <td>
+                      <Link className="unitLink" to={ownerPath(unitOwner(unit))}>
+                        {unit.ownership}
+                      </Link>
+                    </td>
+                    <td>{unit.supplyPrice === null ? '-' : formatCurrency(unit.supplyPrice)}</td>
+                    <td>{unit.loanAmount === null ? '-' : formatCurrency(unit.loanAmount)}</td>
+                    <td>
+                      {unit.interestRate === null ? '-' : percentFormat.format(unit.interestRate)}
+                    </td>
+                    <td>{unit.monthlyRent === null ? '-' : formatCurrency(unit.monthlyRent)}</td>
+                    <td>
+                      {unit.monthlyInterest === null
+                        ? '-'
+                        : formatCurrency(unit.monthlyInterest)}
+                    </td>
+                    <td className={monthlyNet < 0 ? 'negativeCell' : ''}>
+                      {formatCurrency(monthlyNet)}
+                    </td>
+                    <td>{unitRoe === null ? '-' : percentFormat.format(unitRoe)}</td>
+                    <td>{unit.tenantStatus}</td>
+                    <td>
+                      <details className="inlineDisclosure">
+                        <summary>확인</summary>
+                        <div>{unit.businessNumber || '-'}</div>
+                      </details>
+                    </td>
+                    {dateCell(unit.contractRenewal, unit.contractRenewalRaw)}
+                    {dateCell(unit.loanRenewal, unit.loanRenewalRaw)}
+                    <td>{unit.note}</td>
+                  </tr>
+                )
+              }),
+              group.units.length > 0
+                ? subtotalRow(
+                    group.key,
+                    query.group
+                      ? `소계 · ${group.label} (${group.units.length}개)`
+                      : `합계 (${group.units.length}개)`,
+                    group.subtotal,
+                  )
+                : null,
+            ])}
+            {visibleCount === 0 ? (
+              <tr>
+                <td colSpan={COLUMN_COUNT} className="emptyRow">
+                  표시할 데이터가 없습니다.
+                </td>
+              </tr>
+            ) : null}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,205 @@
+import { useMemo, useState } from 'react'
+import type { PortfolioSummary, PortfolioUnit } from '../lib/portfolio'
+import { RATE_SHOCKS, runRateStressTest } from '../lib/stressTest'
+
+const krwFormat = new Intl.NumberFormat('ko-KR', { maximumFractionDigits: 0 })
+const percentFormat = new Intl.NumberFormat('ko-KR', {
+  style: 'percent',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+})
+
+function formatCurrency(value: number): string {
+  return `${krwFormat.format(Math.round(value))}원`
+}
+
+function formatShock(shock: number): string {
+  return `${shock >= 0 ? '+' : ''}${Number((shock * 100).toFixed(2))}%p`
+}
+
+function formatMonth(date: Date): string {
+  return `${date.getFullYear()}.${String(date.getMonth() + 1).padStart(2, '0')}`
+}
+
+type RateStressPanelProps = {
+  units: PortfolioUnit[]
+  summary: PortfolioSummary
+}
+
+export default function RateStressPanel({ units, summary }: RateStressPanelProps) {
+  const [shock, setShock] = useState(RATE_SHOCKS[1])
+  const [afterRenewalOnly, setAfterRenewalOnly] = useState(true)
+  const [customRates, setCustomRates] = useState<Record<string, number>>({})
+
+  const shocks = useMemo(
+    () => (RATE_SHOCKS.includes(shock) ? RATE_SHOCKS : [...RATE_SHOCKS, shock]),
+    [shock],
+  )
+  const results = useMemo(
+    () =>
+      shocks.map((value) =>
+        runRateStressTest(units, { shock: value, customRates, afterRenewalOnly }),
+      ),
+    [units, shocks, customRates, afterRenewalOnly],
+  )
+  const selected = results.find((result) => result.shock === shock) ?? results[0]
+  const baseNegativeCount = units.filter(
+    (unit) => (unit.monthlyRent ?? 0) - (unit.monthlyInterest ?? 0) < 0,
+  ).length
+
+  function updateCustomRate(id: string, value: string) {
+    setCustomRates((previous) => {
+      const next = { ...previous }
+      if (value.trim() === '') {
+        delete next[id]
+      } else {
+        next[id] = Math.max(0, Number(value)) / 100
+      }
+      return next
+    })
+  }
+
+  return (
+    <section className="tableSection">
+      <div className="tableHeader">
+        <h2>금리 스트레스 테스트</h2>
+        <p>
+          {afterRenewalOnly ? '대출갱신일 이후부터 적용' : '즉시 적용'} · 호실별 금리 직접 지정{' '}
+          {Object.keys(customRates).length}개
+        </p>
+      </div>
+
+      <div className="formGrid">
+        <label className="formField">
+          <span>금리 충격(%p)</span>
+          <input
+            type="number"
+            step={0.25}
+            value={Number((shock * 100).toFixed(2))}
+            onChange={(event) => setShock(Number(event.target.value) / 100)}
+          />
+        </label>
+        <label className="formField checkboxField">
+          <input
+            type="checkbox"
+            checked={afterRenewalOnly}
+            onChange={(event) => setAfterRenewalOnly(event.target.checked)}
+          />
+          <span>대출갱신일 이후에만 적용</span>
+        </label>
+      </div>
+
+      <div className="tableContainer">
+        <table>
+          <thead>
+            <tr>
+              <th>시나리오</th>
+              <th>월 대출이자(적용 후)</th>
+              <th>월 순현금흐름(적용 후)</th>
+              <th>향후 12개월 순현금흐름</th>
+              <th>연 ROE</th>
+              <th>적자 호실</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr>
+              <td>현재</td>
+              <td>{formatCurrency(summary.monthlyInterestCost)}</td>
+              <td className={summary.monthlyNetCashflow < 0 ? 'negativeCell' : ''}>
+                {formatCurrency(summary.monthlyNetCashflow)}
+              </td>
+              <td>{formatCurrency(summary.annualNetCashflow)}</td>
+              <td>
+                {summary.annualReturnOnEquity === null
+                  ? '-'
+                  : percentFormat.format(summary.annualReturnOnEquity)}
+              </td>
+              <td>{baseNegativeCount}개</td>
+            </tr>
+            {results.map((result) => (
+              <tr
+                key={result.shock}
+                className={result.shock === selected.shock ? 'currentRow' : ''}
+                onClick={() => setShock(result.shock)}
+              >
+                <td>{formatShock(result.shock)}</td>
+                <td>{formatCurrency(result.monthlyInterestCost)}</td>
+                <td className={result.monthlyNetCashflow < 0 ? 'negativeCell' : ''}>
+                  {formatCurrency(result.monthlyNetCashflow)}
+                </td>
+                <td>{formatCurrency(result.annualNetCashflow)}</td>
+                <td>
+                  {result.annualReturnOnEquity === null
+                    ? '-'
+                    : percentFormat.format(result.annualReturnOnEquity)}
+                </td>
+                <td>{result.negativeUnits.length}개</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="tableContainer">
+        <table>
+          <thead>
+            <tr>
+              <th>현장</th>
+              <th>현재 이율</th>
+              <th>적용 이율</th>
+              <th>직접 지정(%)</th>
+              <th>적용 시점</th>
+              <th>월이자(적용 후)</th>
+              <th>월 순현금흐름(적용 후)</th>
+              <th>향후 12개월 ROE</th>
+            </tr>
+          </thead>
+          <tbody>
+            {selected.units.map((unit) => (
+              <tr key={unit.id}>
+                <td>{unit.site}</td>
+                <td>{unit.baseRate === null ? '-' : percentFormat.format(unit.baseRate)}</td>
+                <td>
+                  {unit.stressedRate === null ? '-' : percentFormat.format(unit.stressedRate)}
+                </td>
+                <td>
+                  <input
+                    className="inlineInput"
+                    type="number"
+                    min={0}
+                    step={0.05}
+                    placeholder="-"
+                    disabled={unit.baseRate === null}
+                    value={
+                      customRates[unit.id] === undefined
+                        ? ''
+                        : Number((customRates[unit.id] * 100).toFixed(3))
+                    }
+                    onChange={(event) => updateCustomRate(unit.id, event.target.value)}
+                  />
+                </td>
+                <td>{unit.repricingDate ? formatMonth(unit.repricingDate) : '즉시'}</td>
+                <td>{formatCurrency(unit.stressedMonthlyInterest)}</td>
+                <td className={unit.monthlyNetCashflow < 0 ? 'negativeCell' : ''}>
+                  {formatCurrency(unit.monthlyNetCashflow)}
+                </td>
+                <td>
+                  {unit.annualReturnOnEquity === null
+                    ? '-'
+                    : percentFormat.format(unit.annualReturnOnEquity)}
+                </td>
+              </tr>
+            ))}
+            {selected.units.length === 0 ? (
+              <tr>
+                <td colSpan={8} className="emptyRow">
+                  표시할 데이터가 없습니다.
+                </td>
+              </tr>
+            ) : null}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,110 @@
+import type { RentLedgerState } from '../hooks/useRentLedger'
+import { formatLedgerMonth, TERMINATION_ARREARS_PERIODS } from '../lib/rentLedger'
+import { LedgerStatusBadge } from './RentLedgerPanel'
+
+const krwFormat = new Intl.NumberFormat('ko-KR', { maximumFractionDigits: 0 })
+
+function formatCurrency(value: number | null): string {
+  if (value === null) return '-'
+  return `${krwFormat.format(Math.round(value))}원`
+}
+
+type RentHistoryPanelProps = {
+  rent: RentLedgerState
+}
+
+export default function RentHistoryPanel({ rent }: RentHistoryPanelProps) {
+  const item = rent.ledger.units[0] ?? null
+
+  return (
+    <section className="tableSection">
+      <div className="tableHeader">
+        <h2>임대료 입금 내역</h2>
+        <p>
+          {item
+            ? `${item.payments.length}건 · 미납 ${formatCurrency(item.arrears)}`
+            : '입금 내역 없음'}
+        </p>
+      </div>
+      {rent.error ? <p className="error mappingWarning">{rent.error}</p> : null}
+
+      {item ? (
+        <>
+          <div className="kvList">
+            <p>
+              <span>월 임대료 / 보증금</span>
+              <strong>
+                {formatCurrency(item.unit.monthlyRent)} / {formatCurrency(item.unit.deposit)}
+              </strong>
+            </p>
+            <p>
+              <span>입금 합계 ({formatLedgerMonth(rent.ledger.monthKeys[0])} 이후)</span>
+              <strong>{formatCurrency(item.paidTotal)}</strong>
+            </p>
+            <p>
+              <span>미납액 ({item.overdueMonths}개월)</span>
+              <strong className={item.arrears > 0 ? 'negative' : ''}>
+                {formatCurrency(item.arrears)}
+              </strong>
+            </p>
+            {item.credit > 0 ? (
+              <p>
+                <span>선납액</span>
+                <strong>{formatCurrency(item.credit)}</strong>
+              </p>
+            ) : null}
+          </div>
+          {item.terminationRisk ? (
+            <p className="error mappingWarning">
+              {TERMINATION_ARREARS_PERIODS}기 이상의 차임이 연체되어 계약 해지 사유에 해당합니다.
+            </p>
+          ) : null}
+
+          <div className="toolbar">
+            {item.months.map((month) => (
+              <span key={month.key} className="checkboxField">
+                {formatLedgerMonth(month.key)} <LedgerStatusBadge month={month} />
+              </span>
+            ))}
+          </div>
+
+          <div className="tableContainer">
+            <table>
+              <thead>
+                <tr>
+                  <th>날짜</th>
+                  <th>금액</th>
+                  <th>메모</th>
+                  <th>출처</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...item.payments].reverse().map((payment) => (
+                  <tr key={payment.key}>
+                    <td>{payment.date}</td>
+                    <td>{formatCurrency(payment.amount)}</td>
+                    <td>{payment.memo || '-'}</td>
+                    <td>{payment.source === 'sheet' ? '입금 내역 탭' : '은행 CSV'}</td>
+                  </tr>
+                ))}
+                {item.payments.length === 0 ? (
+                  <tr>
+                    <td className="emptyRow" colSpan={4}>
+                      이 호실로 확인된 입금이 없습니다.
+                    </td>
+                  </tr>
+                ) : null}
+              </tbody>
+            </table>
+          </div>
+        </>
+      ) : (
+        <p className="emptyText">
+          {rent.loading
+            ? '입금 내역을 불러오는 중입니다...'
+            : '입금 내역 탭이나 포트폴리오 화면에서 가져온 은행 거래내역이 없습니다.'}
+        </p>
+      )}
+    </section>
+  )
+}
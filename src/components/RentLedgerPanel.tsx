@@ -0,0 +1,162 @@
+import type { ChangeEvent } from 'react'
+import type { RentLedgerState } from '../hooks/useRentLedger'
+import {
+  formatLedgerMonth,
+  LEDGER_STATUS_LABELS,
+  TERMINATION_ARREARS_PERIODS,
+  type LedgerMonth,
+  type LedgerMonthStatus,
+} from '../lib/rentLedger'
+
+const krwFormat = new Intl.NumberFormat('ko-KR', { maximumFractionDigits: 0 })
+const percentFormat = new Intl.NumberFormat('ko-KR', { style: 'percent', maximumFractionDigits: 1 })
+
+function formatCurrency(value: number): string {
+  return `${krwFormat.format(Math.round(value))}원`
+}
+
+const STATUS_CLASSES: Record<LedgerMonthStatus, string> = {
+  paid: 'positive',
+  partial: 'warning',
+  overdue: 'critical',
+  due: 'info',
+}
+
+export function LedgerStatusBadge({ month }: { month: LedgerMonth }) {
+  return (
+    <span
+      className={`severityBadge ${STATUS_CLASSES[month.status]}`}
+      title={`${formatCurrency(month.allocated)} / ${formatCurrency(month.expected)}`}
+    >
+      {LEDGER_STATUS_LABELS[month.status]}
+    </span>
+  )
+}
+
+type RentLedgerPanelProps = {
+  rent: RentLedgerState
+}
+
+export default function RentLedgerPanel({ rent }: RentLedgerPanelProps) {
+  const { ledger } = rent
+
+  function handleImport(event: ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0]
+    if (file) rent.importFile(file)
+    event.target.value = ''
+  }
+
+  return (
+    <section className="tableSection">
+      <div className="tableHeader">
+        <h2>임대료 수납 현황</h2>
+        <p>
+          미납 합계 {formatCurrency(ledger.arrearsTotal)} · 미납 호실 {ledger.overdueUnits}개
+        </p>
+      </div>
+      {rent.error ? <p className="error mappingWarning">{rent.error}</p> : null}
+
+      <div className="toolbar">
+        <label className="refreshButton fileButton">
+          은행 거래내역 CSV 가져오기
+          <input type="file" accept="text/csv,.csv" onChange={handleImport} />
+        </label>
+        <button
+          className="refreshButton"
+          onClick={rent.clearImported}
+          disabled={rent.importedCount === 0}
+        >
+          가져온 내역 삭제 ({rent.importedCount}건)
+        </button>
+      </div>
+
+      {ledger.units.length === 0 ? (
+        <p className="emptyText">
+          {rent.sheetEnabled
+            ? rent.loading
+              ? '입금 내역을 불러오는 중입니다...'
+              : '입금 내역이 없습니다.'
+            : 'VITE_PAYMENTS_GID에 입금 내역 탭 gid를 지정하거나 은행 거래내역 CSV를 가져오세요.'}
+        </p>
+      ) : (
+        <div className="tableContainer">
+          <table>
+            <thead>
+              <tr>
+                <th>현장</th>
+                {ledger.monthKeys.map((key) => (
+                  <th key={key}>{formatLedgerMonth(key)}</th>
+                ))}
+                <th>입금 합계</th>
+                <th>미납액</th>
+                <th>보증금 대비</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ledger.units.map((item) => (
+                <tr key={item.unit.id}>
+                  <td>
+                    {item.unit.site}
+                    {item.terminationRisk ? (
+                      <span className="deltaText">
+                        {TERMINATION_ARREARS_PERIODS}기 이상 연체 (계약 해지 사유)
+                      </span>
+                    ) : null}
+                  </td>
+                  {item.months.map((month) => (
+                    <td key={month.key}>
+                      <LedgerStatusBadge month={month} />
+                    </td>
+                  ))}
+                  <td>{formatCurrency(item.paidTotal)}</td>
+                  <td className={item.arrears > 0 ? 'negativeCell' : ''}>
+                    {formatCurrency(item.arrears)}
+                  </td>
+                  <td>
+                    {item.arrearsToDeposit === null
+                      ? '-'
+                      : percentFormat.format(item.arrearsToDeposit)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {ledger.unmatched.length > 0 ? (
+        <details className="disclosureCard mappingDisclosure">
+          <summary>
+            <span>호실을 찾지 못한 입금 {ledger.unmatched.length}건</span>
+            <span>펼치기</span>
+          </summary>
+          <div className="tableContainer">
+            <table>
+              <thead>
+                <tr>
+                  <th>날짜</th>
+                  <th>금액</th>
+                  <th>호실</th>
+                  <th>메모</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ledger.unmatched.map((payment) => (
+                  <tr key={payment.key}>
+                    <td>{payment.date}</td>
+                    <td>{formatCurrency(payment.amount)}</td>
+                    <td>{payment.unitLabel || '-'}</td>
+                    <td>{payment.memo || '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="calendarHint">
+            은행 적요에 현장 이름이 없으면 호실 인덱스 탭의 별칭 열에 임차인 이름을 추가하세요.
+          </p>
+        </details>
+      ) : null}
+    </section>
+  )
+}
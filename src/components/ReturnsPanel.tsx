@@ -0,0 +1,223 @@
+import { useMemo, useState } from 'react'
+import {
+  analyzePortfolioReturns,
+  annualCashflows,
+  DEFAULT_RETURN_ASSUMPTIONS,
+  VAT_REFUND_MONTHS,
+  type ReturnAssumptions,
+  type ReturnInput,
+} from '../lib/returns'
+
+const krwFormat = new Intl.NumberFormat('ko-KR', { maximumFractionDigits: 0 })
+const percentFormat = new Intl.NumberFormat('ko-KR', {
+  style: 'percent',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+})
+
+function formatCurrency(value: number): string {
+  return `${krwFormat.format(Math.round(value))}원`
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '-' : percentFormat.format(value)
+}
+
+function formatPayback(months: number | null): string {
+  if (months === null) return '회수 불가'
+  const years = Math.floor(months / 12)
+  const rest = months % 12
+  if (years === 0) return `${rest}개월`
+  return rest === 0 ? `${years}년` : `${years}년 ${rest}개월`
+}
+
+function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  return `${date.getFullYear()}.${month}`
+}
+
+export type ReturnsPanelItem = {
+  id: string
+  label: string
+  input: ReturnInput
+}
+
+type ReturnsPanelProps = {
+  items: ReturnsPanelItem[]
+  note?: string
+}
+
+const PERCENT_FIELDS: { key: keyof ReturnAssumptions; label: string; step: number }[] = [
+  { key: 'discountRate', label: '할인율(연 %)', step: 0.5 },
+  { key: 'appreciationRate', label: '매각가 상승률(연 %)', step: 0.5 },
+  { key: 'saleCostRate', label: '매각 비용(%)', step: 0.1 },
+]
+
+export default function ReturnsPanel({ items, note }: ReturnsPanelProps) {
+  const [assumptions, setAssumptions] = useState<ReturnAssumptions>(DEFAULT_RETURN_ASSUMPTIONS)
+  const returns = useMemo(
+    () =>
+      analyzePortfolioReturns(
+        items.map((item) => item.input),
+        assumptions,
+      ),
+    [items, assumptions],
+  )
+  const single = items.length === 1 ? returns.units[0] : null
+  const years = useMemo(() => (single ? annualCashflows(single.cashflows) : []), [single])
+
+  const update = (patch: Partial<ReturnAssumptions>) =>
+    setAssumptions((previous) => ({ ...previous, ...patch }))
+
+  if (items.length === 0) return null
+
+  return (
+    <section className="tableSection">
+      <div className="tableHeader">
+        <h2>투자 수익 지표 (IRR · NPV)</h2>
+        <p>
+          {single
+            ? `${formatDate(single.input.acquisitionDate)} 취득 → ${formatDate(single.exitDate)} 매각 가정`
+            : `${items.length}개 호실 현금흐름 합산 · 자기자본 가중`}
+        </p>
+      </div>
+
+      <div className="formGrid">
+        <label className="formField">
+          <span>보유 기간(년)</span>
+          <input
+            type="number"
+            min={1}
+            max={40}
+            value={assumptions.holdingYears}
+            onChange={(event) =>
+              update({ holdingYears: Math.min(40, Math.max(1, Number(event.target.value))) })
+            }
+          />
+        </label>
+        {PERCENT_FIELDS.map((field) => (
+          <label key={field.key} className="formField">
+            <span>{field.label}</span>
+            <input
+              type="number"
+              step={field.step}
+              value={Number((assumptions[field.key] * 100).toFixed(2))}
+              onChange={(event) => update({ [field.key]: Number(event.target.value) / 100 })}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="taxSummaryGrid">
+        <p>
+          <span>IRR (연)</span>
+          <strong className={(returns.irr ?? 0) < 0 ? 'negative' : ''}>
+            {formatPercent(returns.irr)}
+          </strong>
+        </p>
+        <p>
+          <span>NPV (할인율 {formatPercent(assumptions.discountRate)})</span>
+          <strong className={returns.npv < 0 ? 'negative' : ''}>
+            {formatCurrency(returns.npv)}
+          </strong>
+        </p>
+        <p>
+          <span>Cash-on-cash (첫 1년)</span>
+          <strong>{formatPercent(returns.cashOnCash)}</strong>
+        </p>
+        <p>
+          <span>투자금 회수 기간</span>
+          <strong>{formatPayback(returns.paybackMonths)}</strong>
+        </p>
+        <p>
+          <span>취득 시 실투자금</span>
+          <strong>{formatCurrency(returns.initialEquity)}</strong>
+        </p>
+        <p>
+          <span>첫 1년 세전 현금흐름</span>
+          <strong>{formatCurrency(returns.firstYearCashflow)}</strong>
+        </p>
+        {single ? (
+          <>
+            <p>
+              <span>예상 매각가</span>
+              <strong>{formatCurrency(single.salePrice)}</strong>
+            </p>
+            <p>
+              <span>매각 시 대출 상환액</span>
+              <strong>{formatCurrency(single.loanPayoff)}</strong>
+            </p>
+          </>
+        ) : null}
+      </div>
+
+      {single ? (
+        <div className="tableContainer">
+          <table>
+            <thead>
+              <tr>
+                <th>연도</th>
+                <th>취득</th>
+                <th>운영 현금흐름</th>
+                <th>부가세 환급</th>
+                <th>매각</th>
+                <th>합계</th>
+              </tr>
+            </thead>
+            <tbody>
+              {years.map((row) => (
+                <tr key={row.year}>
+                  <td>{row.year}</td>
+                  <td>{row.acquisition ? formatCurrency(row.acquisition) : '-'}</td>
+                  <td className={row.operating < 0 ? 'negativeCell' : ''}>
+                    {formatCurrency(row.operating)}
+                  </td>
+                  <td>{row.vatRefund ? formatCurrency(row.vatRefund) : '-'}</td>
+                  <td>{row.exit ? formatCurrency(row.exit) : '-'}</td>
+                  <td className={row.net < 0 ? 'negativeCell' : ''}>{formatCurrency(row.net)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="tableContainer">
+          <table>
+            <thead>
+              <tr>
+                <th>현장</th>
+                <th>취득일</th>
+                <th>실투자금</th>
+                <th>IRR</th>
+                <th>NPV</th>
+                <th>Cash-on-cash</th>
+                <th>회수 기간</th>
+              </tr>
+            </thead>
+            <tbody>
+              {returns.units.map((unit, index) => (
+                <tr key={items[index].id}>
+                  <td>{items[index].label}</td>
+                  <td>{formatDate(unit.input.acquisitionDate)}</td>
+                  <td>{formatCurrency(unit.initialEquity)}</td>
+                  <td className={(unit.irr ?? 0) < 0 ? 'negativeCell' : ''}>
+                    {formatPercent(unit.irr)}
+                  </td>
+                  <td className={unit.npv < 0 ? 'negativeCell' : ''}>{formatCurrency(unit.npv)}</td>
+                  <td>{formatPercent(unit.cashOnCash)}</td>
+                  <td>{formatPayback(unit.paybackMonths)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <p className="calendarHint">
+        취득 시 분양가·부가세·취등록세(등기비용)·중개수수료를 내고 대출금과 임대보증금을 받으며,
+        매월 월세에서 대출 원리금과 재산세 등을 뺀 금액이 들어오고, 부가세는 {VAT_REFUND_MONTHS}
+        개월 뒤 환급, 보유 기간 끝에 매각가에서 매각 비용·대출 잔액·보증금을 돌려준 금액이 남는
+        것으로 계산한 세전 수치입니다.{note ? ` ${note}` : ''}
+      </p>
+    </section>
+  )
+}
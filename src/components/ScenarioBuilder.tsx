@@ -0,0 +1,180 @@
+import { useMemo, useState } from 'react'
+import {
+  buildUnitScenario,
+  parseLtvLabel,
+  scenarioMismatches,
+  type ScenarioField,
+  type ScenarioInputs,
+  type UnitScenario,
+} from '../lib/unitScenario'
+
+const krwFormat = new Intl.NumberFormat('ko-KR', { maximumFractionDigits: 0 })
+const percentFormat = new Intl.NumberFormat('ko-KR', {
+  style: 'percent',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+})
+
+function formatCurrency(value: number | null): string {
+  if (value === null) return '-'
+  return `${krwFormat.format(Math.round(value))}원`
+}
+
+function formatPercent(value: number | null): string {
+  if (value === null) return '-'
+  return percentFormat.format(value)
+}
+
+const COLUMNS: Array<{ field: ScenarioField; label: string; percent?: boolean }> = [
+  { field: 'loanAmount', label: '대출금액' },
+  { field: 'equity', label: '자기자본' },
+  { field: 'deposit', label: '보증금' },
+  { field: 'fixedCost', label: '고정비' },
+  { field: 'investedTotal', label: '총투입자본' },
+  { field: 'monthlyRent', label: '월세' },
+  { field: 'monthlyInterest', label: '월이자' },
+  { field: 'monthlyNet', label: '월순현금흐름' },
+  { field: 'monthlyRoi', label: '월수익률', percent: true },
+  { field: 'annualProfit', label: '연수익' },
+  { field: 'annualRoi', label: '연수익률', percent: true },
+]
+
+type ScenarioBuilderProps = {
+  seed: ScenarioInputs
+  seedLtv: number
+  sheetScenarios: UnitScenario[]
+}
+
+type ComparisonRow = {
+  key: string
+  source: '시트' | '계산'
+  scenario: UnitScenario
+  mismatches: ScenarioField[]
+}
+
+export default function ScenarioBuilder({ seed, seedLtv, sheetScenarios }: ScenarioBuilderProps) {
+  const [overrides, setOverrides] = useState<Partial<ScenarioInputs>>({})
+  // Follows the seed (the portfolio may load after mount) until the user moves the slider.
+  const [ltvOverride, setLtv] = useState<number | null>(null)
+  const ltv = ltvOverride ?? seedLtv
+  const inputs: ScenarioInputs = { ...seed, ...overrides }
+  const { supplyAmount, deposit, fixedCost, monthlyRent, annualRate } = inputs
+
+  const rows = useMemo(() => {
+    const current = { supplyAmount, deposit, fixedCost, monthlyRent, annualRate }
+    const result: ComparisonRow[] = []
+    const ltvs = new Set<string>()
+
+    sheetScenarios.forEach((sheet, index) => {
+      const sheetLtv = parseLtvLabel(sheet.ltv)
+      result.push({ key: `sheet-${index}`, source: '시트', scenario: sheet, mismatches: [] })
+      if (sheetLtv === null) return
+      const computed = buildUnitScenario(current, sheetLtv)
+      const mismatches = scenarioMismatches(sheet, computed)
+      result.push({ key: `computed-${index}`, source: '계산', scenario: computed, mismatches })
+      ltvs.add(computed.ltv)
+    })
+
+    const custom = buildUnitScenario(current, ltv)
+    if (!ltvs.has(custom.ltv)) {
+      result.push({ key: 'custom', source: '계산', scenario: custom, mismatches: [] })
+    }
+    return result
+  }, [sheetScenarios, supplyAmount, deposit, fixedCost, monthlyRent, annualRate, ltv])
+
+  const mismatchCount = rows.filter((row) => row.mismatches.length > 0).length
+  const update = (patch: Partial<ScenarioInputs>) =>
+    setOverrides((previous) => ({ ...previous, ...patch }))
+
+  return (
+    <section className="tableSection">
+      <div className="tableHeader">
+        <h2>대출금액별 수익률 시나리오</h2>
+        <p>
+          시트 {sheetScenarios.length}개 · 계산 결과와 다른 시나리오 {mismatchCount}개
+        </p>
+      </div>
+
+      <div className="formGrid">
+        <label className="formField">
+          <span>LTV {formatPercent(ltv)}</span>
+          <input
+            type="range"
+            min={0}
+            max={0.9}
+            step={0.01}
+            value={ltv}
+            onChange={(event) => setLtv(Number(event.target.value))}
+          />
+        </label>
+        <label className="formField">
+          <span>연 이율(%)</span>
+          <input
+            type="number"
+            min={0}
+            step={0.05}
+            value={Number((annualRate * 100).toFixed(3))}
+            onChange={(event) =>
+              update({ annualRate: Math.max(0, Number(event.target.value)) / 100 })
+            }
+          />
+        </label>
+        <label className="formField">
+          <span>월세 {formatCurrency(monthlyRent)}</span>
+          <input
+            type="range"
+            min={0}
+            max={Math.max(seed.monthlyRent * 2, 1_000_000)}
+            step={10_000}
+            value={monthlyRent}
+            onChange={(event) => update({ monthlyRent: Number(event.target.value) })}
+          />
+        </label>
+        <label className="formField">
+          <span>보증금(원)</span>
+          <input
+            type="number"
+            min={0}
+            step={1_000_000}
+            value={deposit}
+            onChange={(event) => update({ deposit: Math.max(0, Number(event.target.value)) })}
+          />
+        </label>
+      </div>
+
+      <div className="tableContainer">
+        <table>
+          <thead>
+            <tr>
+              <th>LTV</th>
+              <th>출처</th>
+              {COLUMNS.map((column) => (
+                <th key={column.field}>{column.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key} className={row.key === 'custom' ? 'currentRow' : ''}>
+                <td>{row.scenario.ltv}</td>
+                <td>{row.source}</td>
+                {COLUMNS.map((column) => {
+                  const value = row.scenario[column.field]
+                  const classes = [
+                    row.mismatches.includes(column.field) ? 'mismatchCell' : '',
+                    column.field === 'monthlyNet' && (value ?? 0) < 0 ? 'negativeCell' : '',
+                  ]
+                  return (
+                    <td key={column.field} className={classes.filter(Boolean).join(' ')}>
+                      {column.percent ? formatPercent(value) : formatCurrency(value)}
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  )
+}
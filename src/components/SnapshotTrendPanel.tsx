@@ -0,0 +1,245 @@
+import { useState, type ChangeEvent } from 'react'
+import type { PortfolioSnapshots } from '../hooks/usePortfolioSnapshots'
+import type { PortfolioSummary } from '../lib/portfolio'
+import type { UnitSnapshot } from '../lib/snapshots'
+
+const krwFormat = new Intl.NumberFormat('ko-KR', { maximumFractionDigits: 0 })
+const percentFormat = new Intl.NumberFormat('ko-KR', {
+  style: 'percent',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+})
+
+type ValueKind = 'count' | 'currency' | 'percent'
+
+function formatValue(value: number | null, kind: ValueKind): string {
+  if (value === null) return '-'
+  if (kind === 'percent') return percentFormat.format(value)
+  if (kind === 'count') return `${krwFormat.format(value)}개`
+  return `${krwFormat.format(Math.round(value))}원`
+}
+
+function formatDelta(from: number | null, to: number | null, kind: ValueKind): string {
+  if (from === null || to === null) return '-'
+  const delta = to - from
+  if (Math.abs(delta) < (kind === 'percent' ? 0.00005 : 0.5)) return '변동 없음'
+  const sign = delta > 0 ? '+' : '-'
+  if (kind === 'percent') return `${sign}${Math.abs(delta * 100).toFixed(2)}%p`
+  return `${sign}${formatValue(Math.abs(delta), kind)}`
+}
+
+const KPIS: Array<{ key: keyof PortfolioSummary; label: string; kind: ValueKind }> = [
+  { key: 'totalUnits', label: '보유 호실', kind: 'count' },
+  { key: 'totalSupplyPrice', label: '총 투자금', kind: 'currency' },
+  { key: 'totalLoanAmount', label: '총 대출금', kind: 'currency' },
+  { key: 'loanToValue', label: 'LTV', kind: 'percent' },
+  { key: 'monthlyRentIncome', label: '월 임대수입', kind: 'currency' },
+  { key: 'monthlyInterestCost', label: '월 대출이자', kind: 'currency' },
+  { key: 'monthlyNetCashflow', label: '월 순현금흐름', kind: 'currency' },
+  { key: 'annualReturnOnEquity', label: '연 ROE', kind: 'percent' },
+]
+
+const UNIT_FIELDS: Array<{ key: keyof UnitSnapshot; label: string; kind: ValueKind }> = [
+  { key: 'loanAmount', label: '대출금', kind: 'currency' },
+  { key: 'interestRate', label: '이율', kind: 'percent' },
+  { key: 'monthlyRent', label: '월세', kind: 'currency' },
+  { key: 'monthlyNetCashflow', label: '월 순현금흐름', kind: 'currency' },
+  { key: 'annualReturnOnEquity', label: '연 ROE', kind: 'percent' },
+]
+
+function summaryValue(summary: PortfolioSummary, key: keyof PortfolioSummary): number | null {
+  return summary[key]
+}
+
+function unitValue(unit: UnitSnapshot | undefined, key: keyof UnitSnapshot): number | null {
+  const value = unit?.[key]
+  return typeof value === 'number' ? value : null
+}
+
+type SnapshotTrendPanelProps = {
+  history: PortfolioSnapshots
+}
+
+export default function SnapshotTrendPanel({ history }: SnapshotTrendPanelProps) {
+  const { snapshots } = history
+  const [fromKey, setFromKey] = useState<string | null>(null)
+  const [toKey, setToKey] = useState<string | null>(null)
+
+  const from = snapshots.find((item) => item.key === fromKey) ?? snapshots[0] ?? null
+  const to = snapshots.find((item) => item.key === toKey) ?? snapshots[snapshots.length - 1] ?? null
+  const sites = Array.from(
+    new Set([...(from?.units ?? []), ...(to?.units ?? [])].map((unit) => unit.site)),
+  )
+
+  function handleImport(event: ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0]
+    if (file) history.importFile(file)
+    event.target.value = ''
+  }
+
+  return (
+    <section className="tableSection">
+      <div className="tableHeader">
+        <h2>KPI 추이</h2>
+        <p>동기화할 때마다 하루 한 개의 스냅샷을 이 브라우저에 저장 · {snapshots.length}개</p>
+      </div>
+      {history.error ? <p className="error mappingWarning">{history.error}</p> : null}
+
+      <div className="toolbar">
+        <button
+          className="refreshButton"
+          onClick={history.exportAll}
+          disabled={snapshots.length === 0}
+        >
+          스냅샷 내보내기(JSON)
+        </button>
+        <label className="refreshButton fileButton">
+          스냅샷 가져오기
+          <input type="file" accept="application/json,.json" onChange={handleImport} />
+        </label>
+      </div>
+
+      <div className="tableContainer">
+        <table>
+          <thead>
+            <tr>
+              <th>날짜</th>
+              {KPIS.map((kpi) => (
+                <th key={kpi.key}>{kpi.label}</th>
+              ))}
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {[...snapshots].reverse().map((snapshot, index, list) => {
+              const previous = list[index + 1]
+              return (
+                <tr key={snapshot.key}>
+                  <td>{snapshot.date}</td>
+                  {KPIS.map((kpi) => {
+                    const value = summaryValue(snapshot.summary, kpi.key)
+                    return (
+                      <td key={kpi.key}>
+                        {formatValue(value, kpi.kind)}
+                        {previous ? (
+                          <span className="deltaText">
+                            {formatDelta(summaryValue(previous.summary, kpi.key), value, kpi.kind)}
+                          </span>
+                        ) : null}
+                      </td>
+                    )
+                  })}
+                  <td>
+                    <button className="linkButton" onClick={() => history.remove(snapshot.key)}>
+                      삭제
+                    </button>
+                  </td>
+                </tr>
+              )
+            })}
+            {snapshots.length === 0 ? (
+              <tr>
+                <td colSpan={KPIS.length + 2} className="emptyRow">
+                  저장된 스냅샷이 없습니다.
+                </td>
+              </tr>
+            ) : null}
+          </tbody>
+        </table>
+      </div>
+
+      {from && to && snapshots.length > 1 ? (
+        <>
+          <div className="formGrid">
+            <label className="formField">
+              <span>기준일</span>
+              <select value={from.key} onChange={(event) => setFromKey(event.target.value)}>
+                {snapshots.map((snapshot) => (
+                  <option key={snapshot.key} value={snapshot.key}>
+                    {snapshot.date}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="formField">
+              <span>비교일</span>
+              <select value={to.key} onChange={(event) => setToKey(event.target.value)}>
+                {snapshots.map((snapshot) => (
+                  <option key={snapshot.key} value={snapshot.key}>
+                    {snapshot.date}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="tableContainer">
+            <table>
+              <thead>
+                <tr>
+                  <th>지표</th>
+                  <th>{from.date}</th>
+                  <th>{to.date}</th>
+                  <th>변화</th>
+                </tr>
+              </thead>
+              <tbody>
+                {KPIS.map((kpi) => {
+                  const before = summaryValue(from.summary, kpi.key)
+                  const after = summaryValue(to.summary, kpi.key)
+                  return (
+                    <tr key={kpi.key}>
+                      <td>{kpi.label}</td>
+                      <td>{formatValue(before, kpi.kind)}</td>
+                      <td>{formatValue(after, kpi.kind)}</td>
+                      <td>{formatDelta(before, after, kpi.kind)}</td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="tableContainer">
+            <table>
+              <thead>
+                <tr>
+                  <th>현장</th>
+                  {UNIT_FIELDS.map((field) => (
+                    <th key={field.key}>{field.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sites.map((site) => {
+                  const before = from.units.find((unit) => unit.site === site)
+                  const after = to.units.find((unit) => unit.site === site)
+                  return (
+                    <tr key={site}>
+                      <td>
+                        {site}
+                        {!before ? <span className="missingDetailBadge">신규</span> : null}
+                        {!after ? <span className="missingDetailBadge">제외</span> : null}
+                      </td>
+                      {UNIT_FIELDS.map((field) => {
+                        const afterValue = unitValue(after, field.key)
+                        return (
+                          <td key={field.key}>
+                            {formatValue(afterValue ?? unitValue(before, field.key), field.kind)}
+                            <span className="deltaText">
+                              {formatDelta(unitValue(before, field.key), afterValue, field.kind)}
+                            </span>
+                          </td>
+                        )
+                      })}
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      ) : null}
+    </section>
+  )
+}
@@ -0,0 +1,37 @@
+const syncTimeFormat = new Intl.DateTimeFormat('ko-KR', {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+})
+
+function formatElapsed(syncedAt: number): string {
+  const minutes = Math.floor((Date.now() - syncedAt) / 60000)
+  if (minutes < 1) return '방금 전'
+  if (minutes < 60) return `${minutes}분 전`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}시간 전`
+  return `${Math.floor(hours / 24)}일 전`
+}
+
+type SyncStatusProps = {
+  syncedAt: number | null
+  loading: boolean
+  error: string | null
+}
+
+export default function SyncStatus({ syncedAt, loading, error }: SyncStatusProps) {
+  return (
+    <>
+      <p className="syncStatus">
+        {syncedAt === null
+          ? '아직 동기화된 데이터가 없습니다.'
+          : `마지막 동기화 ${syncTimeFormat.format(syncedAt)} (${formatElapsed(syncedAt)})`}
+        {loading && syncedAt !== null ? ' · 최신 데이터 확인 중...' : ''}
+      </p>
+      {error && syncedAt !== null ? (
+        <div className="warning">
+          최신 데이터를 불러오지 못해 마지막으로 동기화된 데이터를 표시합니다. ({error})
+        </div>
+      ) : null}
+    </>
+  )
+}
@@ -0,0 +1,174 @@
+import { useMemo, useState } from 'react'
+import type { PortfolioUnit } from '../lib/portfolio'
+import {
+  DEFAULT_TAX_ESTIMATOR_OPTIONS,
+  estimateBusinessTaxes,
+  upcomingTaxFilings,
+  type TaxEstimatorOptions,
+} from '../lib/taxEstimator'
+
+const krwFormat = new Intl.NumberFormat('ko-KR', { maximumFractionDigits: 0 })
+
+function formatCurrency(value: number): string {
+  return `${krwFormat.format(Math.round(value))}원`
+}
+
+function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}.${month}.${day}`
+}
+
+function daysUntil(date: Date): number {
+  const today = new Date()
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate())
+  return Math.round((date.getTime() - start.getTime()) / (1000 * 60 * 60 * 24))
+}
+
+type TaxEstimatorPanelProps = {
+  units: PortfolioUnit[]
+}
+
+export default function TaxEstimatorPanel({ units }: TaxEstimatorPanelProps) {
+  const [options, setOptions] = useState<TaxEstimatorOptions>(DEFAULT_TAX_ESTIMATOR_OPTIONS)
+  const estimates = useMemo(() => estimateBusinessTaxes(units, options), [units, options])
+  const filings = useMemo(() => upcomingTaxFilings(estimates), [estimates])
+
+  const update = (patch: Partial<TaxEstimatorOptions>) =>
+    setOptions((previous) => ({ ...previous, ...patch }))
+
+  if (units.length === 0) return null
+
+  return (
+    <section className="tableSection">
+      <div className="tableHeader">
+        <h2>부가세 · 임대소득세 추정</h2>
+        <p>
+          사업자등록번호별 · 월세 기준 추정치이며, 개인 소득세는 명의별로 합산해 누진세율을 적용한
+          뒤 사업자번호별로 나눔 (다른 소득과 매입세액은 반영하지 않음)
+        </p>
+      </div>
+
+      <div className="formGrid">
+        <label className="formField">
+          <span>건물분 비율(%) · 감가상각 대상</span>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step={5}
+            value={Math.round(options.buildingShare * 100)}
+            onChange={(event) =>
+              update({
+                buildingShare: Math.min(100, Math.max(0, Number(event.target.value))) / 100,
+              })
+            }
+          />
+        </label>
+        <label className="formField">
+          <span>내용연수(년)</span>
+          <input
+            type="number"
+            min={0}
+            max={60}
+            value={options.usefulLifeYears}
+            onChange={(event) =>
+              update({ usefulLifeYears: Math.max(0, Number(event.target.value)) })
+            }
+          />
+        </label>
+        <label className="formField checkboxField">
+          <input
+            type="checkbox"
+            checked={options.rentIncludesVat}
+            onChange={(event) => update({ rentIncludesVat: event.target.checked })}
+          />
+          <span>부가세 열이 빈 호실의 월세를 부가세 포함 금액으로 봄</span>
+        </label>
+      </div>
+
+      <div className="tableContainer">
+        <table>
+          <thead>
+            <tr>
+              <th>사업자번호</th>
+              <th>명의</th>
+              <th>구분</th>
+              <th>호실</th>
+              <th>월 공급가액</th>
+              <th>월 부가세</th>
+              <th>연 임대수입</th>
+              <th>연 이자</th>
+              <th>재산세 등</th>
+              <th>감가상각</th>
+              <th>과세표준(추정)</th>
+              <th>소득세·법인세(추정)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {estimates.map((estimate) => (
+              <tr key={estimate.businessNumber}>
+                <td>{estimate.businessNumber}</td>
+                <td>{estimate.owners.join(', ')}</td>
+                <td>{estimate.taxpayerType === 'corporation' ? '법인' : '개인'}</td>
+                <td>{estimate.units.length}개</td>
+                <td>{formatCurrency(estimate.monthlySupplyValue)}</td>
+                <td>{formatCurrency(estimate.monthlyVat)}</td>
+                <td>{formatCurrency(estimate.annualRent)}</td>
+                <td>{formatCurrency(estimate.annualInterest)}</td>
+                <td>{formatCurrency(estimate.annualPropertyTax)}</td>
+                <td>{formatCurrency(estimate.annualDepreciation)}</td>
+                <td>{formatCurrency(estimate.taxableIncome)}</td>
+                <td>
+                  {formatCurrency(estimate.estimatedIncomeTax)}
+                  <span className="deltaText">
+                    지방소득세 {formatCurrency(estimate.estimatedLocalIncomeTax)}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="tableContainer">
+        <table>
+          <thead>
+            <tr>
+              <th>신고·납부기한</th>
+              <th>남은 기간</th>
+              <th>사업자번호</th>
+              <th>구분</th>
+              <th>과세기간</th>
+              <th>예상 납부액</th>
+            </tr>
+          </thead>
+          <tbody>
+            {filings.map((filing) => (
+              <tr key={filing.id}>
+                <td>{formatDate(filing.dueDate)}</td>
+                <td>D-{daysUntil(filing.dueDate)}</td>
+                <td>{filing.businessNumber}</td>
+                <td>{filing.kind}</td>
+                <td>
+                  {filing.periodLabel}
+                  <span className="deltaText">
+                    {formatDate(filing.periodStart)} ~ {formatDate(filing.periodEnd)}
+                  </span>
+                </td>
+                <td>{formatCurrency(filing.amount)}</td>
+              </tr>
+            ))}
+            {filings.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="emptyRow">
+                  사업자등록번호가 있는 호실이 없습니다.
+                </td>
+              </tr>
+            ) : null}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  )
+}
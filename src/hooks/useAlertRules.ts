@@ -0,0 +1,41 @@
+import { useCallback, useState } from 'react'
+import { DEFAULT_ALERT_RULES, normalizeAlertRules, type AlertRules } from '../lib/alerts'
+
+const ALERT_RULES_STORAGE_KEY = 'portfolioAlertRules'
+
+function readStoredRules(): AlertRules {
+  try {
+    const stored = window.localStorage.getItem(ALERT_RULES_STORAGE_KEY)
+    return stored ? normalizeAlertRules(JSON.parse(stored)) : DEFAULT_ALERT_RULES
+  } catch {
+    return DEFAULT_ALERT_RULES
+  }
+}
+
+function writeStoredRules(rules: AlertRules | null) {
+  try {
+    if (rules) {
+      window.localStorage.setItem(ALERT_RULES_STORAGE_KEY, JSON.stringify(rules))
+    } else {
+      window.localStorage.removeItem(ALERT_RULES_STORAGE_KEY)
+    }
+  } catch {
+    // Storage can be unavailable (private mode); the rules still apply for this session.
+  }
+}
+
+export function useAlertRules() {
+  const [rules, setRules] = useState<AlertRules>(readStoredRules)
+
+  const updateRules = useCallback((next: AlertRules) => {
+    setRules(next)
+    writeStoredRules(next)
+  }, [])
+
+  const resetRules = useCallback(() => {
+    setRules(DEFAULT_ALERT_RULES)
+    writeStoredRules(null)
+  }, [])
+
+  return { rules, updateRules, resetRules }
+}
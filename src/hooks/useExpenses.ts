@@ -0,0 +1,45 @@
+import { useCallback, useState } from 'react'
+import { normalizeExpenses, type Expense } from '../lib/expenses'
+
+const EXPENSES_STORAGE_KEY = 'portfolioExpenses'
+
+function readStoredExpenses(): Expense[] {
+  try {
+    const stored = window.localStorage.getItem(EXPENSES_STORAGE_KEY)
+    return stored ? normalizeExpenses(JSON.parse(stored)) : []
+  } catch {
+    return []
+  }
+}
+
+function writeStoredExpenses(expenses: Expense[]) {
+  try {
+    window.localStorage.setItem(EXPENSES_STORAGE_KEY, JSON.stringify(expenses))
+  } catch {
+    // Storage can be unavailable (private mode); the expenses still apply for this session.
+  }
+}
+
+export function useExpenses() {
+  const [expenses, setExpenses] = useState<Expense[]>(readStoredExpenses)
+
+  const addExpense = useCallback(
+    (expense: Omit<Expense, 'id'>) => {
+      const next = [...expenses, { ...expense, id: crypto.randomUUID() }]
+      setExpenses(next)
+      writeStoredExpenses(next)
+    },
+    [expenses],
+  )
+
+  const removeExpense = useCallback(
+    (id: string) => {
+      const next = expenses.filter((expense) => expense.id !== id)
+      setExpenses(next)
+      writeStoredExpenses(next)
+    },
+    [expenses],
+  )
+
+  return { expenses, addExpense, removeExpense }
+}
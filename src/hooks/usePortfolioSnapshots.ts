@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useState } from 'react'
+import { downloadFile } from '../lib/download'
+import type { PortfolioSummary, PortfolioUnit } from '../lib/portfolio'
+import {
+  createPortfolioSnapshot,
+  deleteSnapshot,
+  importSnapshots,
+  listSnapshots,
+  saveSnapshot,
+  serializeSnapshots,
+  type PortfolioSnapshot,
+} from '../lib/snapshots'
+
+export type PortfolioSnapshots = {
+  snapshots: PortfolioSnapshot[]
+  error: string | null
+  remove: (key: string) => void
+  importFile: (file: File) => void
+  exportAll: () => void
+}
+
+function toMessage(caughtError: unknown, fallback: string): string {
+  return caughtError instanceof Error ? caughtError.message : fallback
+}
+
+export function usePortfolioSnapshots(
+  units: PortfolioUnit[],
+  summary: PortfolioSummary,
+  syncedAt: number | null,
+): PortfolioSnapshots {
+  const [snapshots, setSnapshots] = useState<PortfolioSnapshot[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    setSnapshots(await listSnapshots())
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+
+    const run = async () => {
+      try {
+        if (syncedAt !== null && units.length > 0) {
+          await saveSnapshot(createPortfolioSnapshot(units, summary, syncedAt))
+        }
+        const entries = await listSnapshots()
+        if (!cancelled) setSnapshots(entries)
+      } catch (caughtError) {
+        if (!cancelled) setError(toMessage(caughtError, '스냅샷을 저장하지 못했습니다.'))
+      }
+    }
+
+    void run()
+    return () => {
+      cancelled = true
+    }
+  }, [units, summary, syncedAt])
+
+  const remove = useCallback(
+    (key: string) => {
+      deleteSnapshot(key)
+        .then(reload)
+        .catch((caughtError) => setError(toMessage(caughtError, '스냅샷을 삭제하지 못했습니다.')))
+    },
+    [reload],
+  )
+
+  const importFile = useCallback(
+    (file: File) => {
+      file
+        .text()
+        .then(importSnapshots)
+        .then(reload)
+        .then(() => setError(null))
+        .catch((caughtError) =>
+          setError(toMessage(caughtError, '스냅샷 파일을 가져오지 못했습니다.')),
+        )
+    },
+    [reload],
+  )
+
+  const exportAll = useCallback(() => {
+    const today = new Date().toISOString().slice(0, 10)
+    downloadFile(
+      `portfolio-snapshots-${today}.json`,
+      serializeSnapshots(snapshots),
+      'application/json',
+    )
+  }, [snapshots])
+
+  return { snapshots, error, remove, importFile, exportAll }
+}
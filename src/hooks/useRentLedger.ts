@@ -0,0 +1,114 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { fetchGoogleSheetTableByGid, tableToRows, type SheetRow } from '../lib/googleSheets'
+import type { PortfolioUnit } from '../lib/portfolio'
+import {
+  buildRentLedger,
+  clearImportedPayments,
+  importBankPayments,
+  listImportedPayments,
+  paymentsFromRows,
+  type RentLedger,
+  type RentPayment,
+} from '../lib/rentLedger'
+import type { UnitRegistry } from '../lib/unitDetailRoutes'
+import { useSyncedResource } from './useSyncedResource'
+
+export type RentLedgerState = {
+  ledger: RentLedger
+  sheetEnabled: boolean
+  syncedAt: number | null
+  loading: boolean
+  importedCount: number
+  error: string | null
+  importFile: (file: File) => void
+  clearImported: () => void
+}
+
+function toMessage(caughtError: unknown, fallback: string): string {
+  return caughtError instanceof Error ? caughtError.message : fallback
+}
+
+function paymentsGid(): string | null {
+  const gid = import.meta.env.VITE_PAYMENTS_GID
+  return gid && typeof gid === 'string' ? gid : null
+}
+
+const EMPTY_ROWS: SheetRow[] = []
+
+export function useRentLedger(
+  units: PortfolioUnit[],
+  registry: UnitRegistry | null,
+): RentLedgerState {
+  const gid = paymentsGid()
+  const sheet = useSyncedResource(
+    gid ? 'payments' : null,
+    async () => tableToRows(await fetchGoogleSheetTableByGid(gid ?? '')),
+    '입금 내역 탭을 불러오지 못했습니다.',
+  )
+  const [imported, setImported] = useState<RentPayment[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    setImported(await listImportedPayments())
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+    listImportedPayments()
+      .then((entries) => {
+        if (!cancelled) setImported(entries)
+      })
+      .catch((caughtError) => {
+        if (!cancelled) setError(toMessage(caughtError, '가져온 입금 내역을 읽지 못했습니다.'))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const sheetRows = sheet.data ?? EMPTY_ROWS
+  const parsed = useMemo(() => {
+    try {
+      return { payments: paymentsFromRows(sheetRows), error: null }
+    } catch (caughtError) {
+      return { payments: [], error: toMessage(caughtError, '입금 내역 탭을 해석하지 못했습니다.') }
+    }
+  }, [sheetRows])
+  const ledger = useMemo(
+    () => buildRentLedger(units, [...parsed.payments, ...imported], registry),
+    [units, parsed.payments, imported, registry],
+  )
+
+  const importFile = useCallback(
+    (file: File) => {
+      file
+        .arrayBuffer()
+        .then(importBankPayments)
+        .then(reload)
+        .then(() => setError(null))
+        .catch((caughtError) =>
+          setError(toMessage(caughtError, '거래내역 파일을 가져오지 못했습니다.')),
+        )
+    },
+    [reload],
+  )
+
+  const clearImported = useCallback(() => {
+    clearImportedPayments()
+      .then(reload)
+      .catch((caughtError) =>
+        setError(toMessage(caughtError, '가져온 입금 내역을 삭제하지 못했습니다.')),
+      )
+  }, [reload])
+
+  return {
+    ledger,
+    sheetEnabled: gid !== null,
+    syncedAt: sheet.syncedAt,
+    loading: sheet.loading,
+    importedCount: imported.length,
+    error: error ?? parsed.error ?? sheet.error,
+    importFile,
+    clearImported,
+  }
+}
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { readCachedValue, sheetCacheKey, writeCachedValue } from '../lib/sheetCache'
+
+export type SyncedResource<T> = {
+  data: T | null
+  syncedAt: number | null
+  loading: boolean
+  error: string | null
+  refresh: () => void
+}
+
+type ResourceState<T> = Omit<SyncedResource<T>, 'refresh'> & { name: string | null }
+
+export function useSyncedResource<T>(
+  name: string | null,
+  fetcher: () => Promise<T>,
+  fallbackErrorMessage = '데이터를 불러오는 중 오류가 발생했습니다.',
+): SyncedResource<T> {
+  const [state, setState] = useState<ResourceState<T>>({
+    name: null,
+    data: null,
+    syncedAt: null,
+    loading: true,
+    error: null,
+  })
+  const [revision, setRevision] = useState(0)
+  const fetcherRef = useRef(fetcher)
+
+  useEffect(() => {
+    fetcherRef.current = fetcher
+  })
+
+  useEffect(() => {
+    if (name === null) return
+
+    let cancelled = false
+    const key = sheetCacheKey(name)
+
+    const run = async () => {
+      const cached = await readCachedValue<T>(key)
+      if (cancelled) return
+      setState((previous) =>
+        previous.name === name
+          ? { ...previous, loading: true, error: null }
+          : {
+              name,
+              data: cached?.value ?? null,
+              syncedAt: cached?.syncedAt ?? null,
+              loading: true,
+              error: null,
+            },
+      )
+
+      try {
+        const value = await fetcherRef.current()
+        const entry = await writeCachedValue(key, value)
+        if (cancelled) return
+        setState({ name, data: value, syncedAt: entry.syncedAt, loading: false, error: null })
+      } catch (caughtError) {
+        if (cancelled) return
+        const message = caughtError instanceof Error ? caughtError.message : fallbackErrorMessage
+        setState((previous) => ({ ...previous, name, loading: false, error: message }))
+      }
+    }
+
+    void run()
+    return () => {
+      cancelled = true
+    }
+  }, [name, revision, fallbackErrorMessage])
+
+  const refresh = useCallback(() => setRevision((value) => value + 1), [])
+
+  if (name === null) {
+    return { data: null, syncedAt: null, loading: false, error: null, refresh }
+  }
+  if (state.name !== name) {
+    return { data: null, syncedAt: null, loading: true, error: null, refresh }
+  }
+  return {
+    data: state.data,
+    syncedAt: state.syncedAt,
+    loading: state.loading,
+    error: state.error,
+    refresh,
+  }
+}
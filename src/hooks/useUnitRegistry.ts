@@ -0,0 +1,17 @@
+import type { SheetRow } from '../lib/googleSheets'
+import { loadUnitRegistry, type UnitRegistry } from '../lib/unitDetailRoutes'
+import { useSyncedResource, type SyncedResource } from './useSyncedResource'
+
+// Waits for the page's portfolio rows so the registry does not fetch the portfolio sheet again.
+export function useUnitRegistry(
+  portfolio: SyncedResource<SheetRow[]> | null,
+): SyncedResource<UnitRegistry> {
+  const waiting = portfolio !== null && portfolio.data === null && portfolio.loading
+  const rows = portfolio?.data ?? null
+  const registry = useSyncedResource(
+    waiting ? null : 'registry',
+    () => loadUnitRegistry(rows),
+    '호실 목록을 불러오지 못했습니다.',
+  )
+  return waiting ? { ...registry, loading: true } : registry
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_ALERT_RULES,
+  evaluateAlerts,
+  normalizeAlertRules,
+  type AlertRules,
+} from './alerts'
+import { parseSheetDate } from './dates'
+import { makeUnit } from './testUnits'
+
+const TODAY = new Date(2026, 2, 1)
+
+function renewing(site: string, raw: string) {
+  return makeUnit({
+    site,
+    contractRenewalRaw: raw,
+    contractRenewal: parseSheetDate(raw),
+    monthlyRent: 1_000_000,
+  })
+}
+
+function withRules(patch: Partial<AlertRules>): AlertRules {
+  return { ...DEFAULT_ALERT_RULES, ...patch }
+}
+
+describe('evaluateAlerts', () => {
+  it('warns ahead of a renewal and turns critical close to it', () => {
+    const alerts = evaluateAlerts(
+      [renewing('A', '2026.05.30'), renewing('B', '2026.03.11')],
+      DEFAULT_ALERT_RULES,
+      TODAY,
+    )
+    expect(alerts.map((alert) => [alert.site, alert.severity, alert.message])).toEqual([
+      ['B', 'critical', 'D-10'],
+      ['A', 'warning', 'D-90'],
+    ])
+  })
+
+  it('stops reporting renewals overdue by more than MAX_OVERDUE_DAYS', () => {
+    const recent = renewing('recent', '2026.01.01')
+    const stale = renewing('stale', '2025.09.01')
+    const alerts = evaluateAlerts([recent, stale], DEFAULT_ALERT_RULES, TODAY)
+    expect(alerts.map((alert) => alert.site)).toEqual(['recent'])
+    expect(alerts[0].message).toBe('59일 경과')
+  })
+
+  it('skips missing-date alerts for a renewal kind that is turned off', () => {
+    const unit = renewing('A', '미정')
+    const off = withRules({
+      contractRenewal: { ...DEFAULT_ALERT_RULES.contractRenewal, enabled: false },
+    })
+    expect(evaluateAlerts([unit], off, TODAY)).toEqual([])
+
+    const [missing] = evaluateAlerts([unit], DEFAULT_ALERT_RULES, TODAY)
+    expect(missing).toMatchObject({ kind: 'missingDate', message: "계약갱신일 '미정' 해석 불가" })
+  })
+
+  it('sorts by severity, then by days left with undated alerts last', () => {
+    const alerts = evaluateAlerts(
+      [
+        renewing('later', '2026.06.01'),
+        makeUnit({ site: 'vacant', tenantStatus: '공실', monthlyInterest: 500_000 }),
+        renewing('missing', ''),
+        renewing('sooner', '2026.04.01'),
+      ],
+      DEFAULT_ALERT_RULES,
+      TODAY,
+    )
+    expect(alerts.map((alert) => `${alert.severity}:${alert.site}`)).toEqual([
+      'critical:vacant',
+      'warning:sooner',
+      'warning:later',
+      'warning:missing',
+    ])
+  })
+
+  it('flags negative cashflow and LTV above the threshold', () => {
+    const unit = makeUnit({
+      site: 'A',
+      supplyPrice: 100_000_000,
+      loanAmount: 90_000_000,
+      monthlyRent: 300_000,
+      monthlyInterest: 400_000,
+    })
+    const kinds = evaluateAlerts([unit], DEFAULT_ALERT_RULES, TODAY).map((alert) => alert.kind)
+    expect(kinds).toEqual(expect.arrayContaining(['negativeCashflow', 'highLtv']))
+  })
+})
+
+describe('normalizeAlertRules', () => {
+  it('fills in rules missing from storage', () => {
+    const rules = normalizeAlertRules({ highLtv: { threshold: 0.7 } })
+    expect(rules.highLtv).toEqual({ enabled: true, threshold: 0.7 })
+    expect(rules.vacancy).toEqual(DEFAULT_ALERT_RULES.vacancy)
+    expect(normalizeAlertRules('garbage')).toBe(DEFAULT_ALERT_RULES)
+  })
+})
@@ -0,0 +1,208 @@
+import { daysUntil, sheetDateDue, type SheetDate } from './dates'
+import { unitCashflow, type PortfolioUnit } from './portfolio'
+
+export type AlertSeverity = 'critical' | 'warning' | 'info'
+
+export type AlertKind =
+  'contractRenewal' | 'loanRenewal' | 'missingDate' | 'negativeCashflow' | 'highLtv' | 'vacancy'
+
+export type RenewalRule = {
+  enabled: boolean
+  leadDays: number
+  criticalDays: number
+}
+
+export type AlertRules = {
+  contractRenewal: RenewalRule
+  loanRenewal: RenewalRule
+  missingDate: { enabled: boolean }
+  negativeCashflow: { enabled: boolean }
+  highLtv: { enabled: boolean; threshold: number }
+  vacancy: { enabled: boolean }
+}
+
+export type PortfolioAlert = {
+  id: string
+  unitId: string
+  site: string
+  kind: AlertKind
+  severity: AlertSeverity
+  message: string
+  rawDate: string | null
+  daysLeft: number | null
+}
+
+export const ALERT_KIND_LABELS: Record<AlertKind, string> = {
+  contractRenewal: '계약갱신',
+  loanRenewal: '대출갱신',
+  missingDate: '날짜 확인',
+  negativeCashflow: '역마진',
+  highLtv: 'LTV 초과',
+  vacancy: '공실',
+}
+
+export const ALERT_SEVERITY_LABELS: Record<AlertSeverity, string> = {
+  critical: '긴급',
+  warning: '주의',
+  info: '참고',
+}
+
+export const DEFAULT_ALERT_RULES: AlertRules = {
+  contractRenewal: { enabled: true, leadDays: 120, criticalDays: 30 },
+  loanRenewal: { enabled: true, leadDays: 120, criticalDays: 45 },
+  missingDate: { enabled: true },
+  negativeCashflow: { enabled: true },
+  highLtv: { enabled: true, threshold: 0.8 },
+  vacancy: { enabled: true },
+}
+
+const SEVERITY_ORDER: Record<AlertSeverity, number> = { critical: 0, warning: 1, info: 2 }
+
+// A renewal this far past without the sheet being updated was most likely renewed as-is.
+export const MAX_OVERDUE_DAYS = 180
+
+export function isVacant(unit: PortfolioUnit): boolean {
+  return /공실|미임대|비어|vacant/i.test(unit.tenantStatus)
+}
+
+function renewalAlerts(
+  unit: PortfolioUnit,
+  kind: 'contractRenewal' | 'loanRenewal',
+  raw: string,
+  parsed: SheetDate | null,
+  rules: AlertRules,
+  today: Date,
+): PortfolioAlert[] {
+  const rule = rules[kind]
+  if (!rule.enabled) return []
+  const label = ALERT_KIND_LABELS[kind]
+  const applicable =
+    kind === 'loanRenewal'
+      ? (unit.loanAmount ?? 0) > 0
+      : !isVacant(unit) && !unit.tenantStatus.includes('실입주')
+  if (!applicable) return []
+
+  if (!parsed) {
+    if (!rules.missingDate.enabled) return []
+    const blank = raw.trim() === '' || raw.trim() === '-'
+    return [
+      {
+        id: `${unit.id}-${kind}-missing`,
+        unitId: unit.id,
+        site: unit.site,
+        kind: 'missingDate',
+        severity: 'warning',
+        message: blank ? `${label}일 없음` : `${label}일 '${raw}' 해석 불가`,
+        rawDate: blank ? null : raw,
+        daysLeft: null,
+      },
+    ]
+  }
+
+  const daysLeft = daysUntil(sheetDateDue(parsed), today)
+  if (daysLeft > rule.leadDays || daysLeft < -MAX_OVERDUE_DAYS) return []
+  const overdue = daysLeft < 0
+  const approximate = parsed.precision === 'month' ? ' (월 단위)' : ''
+  return [
+    {
+      id: `${unit.id}-${kind}`,
+      unitId: unit.id,
+      site: unit.site,
+      kind,
+      severity: overdue || daysLeft <= rule.criticalDays ? 'critical' : 'warning',
+      message: `${overdue ? `${-daysLeft}일 경과` : `D-${daysLeft}`}${approximate}`,
+      rawDate: raw,
+      daysLeft,
+    },
+  ]
+}
+
+// Alerts without a due date go last; Infinity - Infinity would be NaN.
+function compareDaysLeft(a: number | null, b: number | null): number {
+  if (a === null) return b === null ? 0 : 1
+  if (b === null) return -1
+  return a - b
+}
+
+export function evaluateAlerts(
+  units: PortfolioUnit[],
+  rules: AlertRules = DEFAULT_ALERT_RULES,
+  today = new Date(),
+): PortfolioAlert[] {
+  const alerts: PortfolioAlert[] = []
+
+  for (const unit of units) {
+    alerts.push(
+      ...renewalAlerts(
+        unit,
+        'contractRenewal',
+        unit.contractRenewalRaw,
+        unit.contractRenewal,
+        rules,
+        today,
+      ),
+      ...renewalAlerts(unit, 'loanRenewal', unit.loanRenewalRaw, unit.loanRenewal, rules, today),
+    )
+
+    const { monthlyNet } = unitCashflow(unit)
+    if (rules.negativeCashflow.enabled && unit.monthlyRent !== null && monthlyNet < 0) {
+      alerts.push({
+        id: `${unit.id}-negative`,
+        unitId: unit.id,
+        site: unit.site,
+        kind: 'negativeCashflow',
+        severity: 'warning',
+        message: `월 ${Math.round(monthlyNet).toLocaleString('ko-KR')}원`,
+        rawDate: null,
+        daysLeft: null,
+      })
+    }
+
+    const ltv =
+      (unit.supplyPrice ?? 0) > 0 ? (unit.loanAmount ?? 0) / (unit.supplyPrice as number) : null
+    if (rules.highLtv.enabled && ltv !== null && ltv > rules.highLtv.threshold) {
+      alerts.push({
+        id: `${unit.id}-ltv`,
+        unitId: unit.id,
+        site: unit.site,
+        kind: 'highLtv',
+        severity: 'warning',
+        message: `${(ltv * 100).toFixed(1)}% > ${(rules.highLtv.threshold * 100).toFixed(0)}%`,
+        rawDate: null,
+        daysLeft: null,
+      })
+    }
+
+    if (rules.vacancy.enabled && isVacant(unit)) {
+      alerts.push({
+        id: `${unit.id}-vacancy`,
+        unitId: unit.id,
+        site: unit.site,
+        kind: 'vacancy',
+        severity: (unit.monthlyInterest ?? 0) > 0 ? 'critical' : 'info',
+        message: '임대수입 없음',
+        rawDate: null,
+        daysLeft: null,
+      })
+    }
+  }
+
+  return alerts.sort(
+    (a, b) =>
+      SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] ||
+      compareDaysLeft(a.daysLeft, b.daysLeft),
+  )
+}
+
+export function normalizeAlertRules(value: unknown): AlertRules {
+  if (!value || typeof value !== 'object') return DEFAULT_ALERT_RULES
+  const stored = value as Partial<AlertRules>
+  return {
+    contractRenewal: { ...DEFAULT_ALERT_RULES.contractRenewal, ...stored.contractRenewal },
+    loanRenewal: { ...DEFAULT_ALERT_RULES.loanRenewal, ...stored.loanRenewal },
+    missingDate: { ...DEFAULT_ALERT_RULES.missingDate, ...stored.missingDate },
+    negativeCashflow: { ...DEFAULT_ALERT_RULES.negativeCashflow, ...stored.negativeCashflow },
+    highLtv: { ...DEFAULT_ALERT_RULES.highLtv, ...stored.highLtv },
+    vacancy: { ...DEFAULT_ALERT_RULES.vacancy, ...stored.vacancy },
+  }
+}
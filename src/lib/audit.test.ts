@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest'
+import { auditPortfolio, TOTALS_SITE } from './audit'
+import type { SheetTotals } from './portfolio'
+import { makeUnit } from './testUnits'
+
+// 300,000,000 × 3.6% ÷ 12 = 900,000
+const clean = makeUnit({
+  site: '문래 SKv1 712호',
+  supplyPrice: 500_000_000,
+  loanAmount: 300_000_000,
+  interestRate: 0.036,
+  monthlyInterest: 900_000,
+  monthlyRent: 1_500_000,
+})
+
+function checks(findings: ReturnType<typeof auditPortfolio>) {
+  return findings.map(({ check, severity, field }) => ({ check, severity, field }))
+}
+
+describe('auditPortfolio', () => {
+  it('finds nothing in a consistent row', () => {
+    expect(auditPortfolio([clean], null)).toEqual([])
+  })
+
+  it('flags amounts typed in 만원 with the 원 value as expected', () => {
+    const [found] = auditPortfolio([{ ...clean, monthlyRent: 150 }], null)
+    expect(found).toMatchObject({
+      check: 'manwonUnit',
+      severity: 'error',
+      field: 'monthlyRent',
+      expected: 1_500_000,
+      actual: 150,
+    })
+  })
+
+  it('flags a rate typed as a percent number', () => {
+    const [found] = auditPortfolio([{ ...clean, interestRate: 3.6 }], null)
+    expect(found).toMatchObject({ check: 'percentRate', severity: 'error', actual: 3.6 })
+    expect(found.expected).toBeCloseTo(0.036)
+  })
+
+  it('grades interest mismatches by how far off they are', () => {
+    expect(checks(auditPortfolio([{ ...clean, monthlyInterest: 905_000 }], null))).toEqual([
+      { check: 'interestMismatch', severity: 'warning', field: 'monthlyInterest' },
+    ])
+    expect(checks(auditPortfolio([{ ...clean, monthlyInterest: 1_200_000 }], null))).toEqual([
+      { check: 'interestMismatch', severity: 'error', field: 'monthlyInterest' },
+    ])
+    expect(auditPortfolio([{ ...clean, monthlyInterest: 900_800 }], null)).toEqual([])
+  })
+
+  it('warns about loans above the supply price', () => {
+    const unit = { ...clean, supplyPrice: 200_000_000 }
+    expect(checks(auditPortfolio([unit], null))).toContainEqual({
+      check: 'loanExceedsPrice',
+      severity: 'warning',
+      field: 'loanAmount',
+    })
+  })
+
+  it('checks rent against the tenant status', () => {
+    const vacantWithRent = makeUnit({ ...clean, site: 'A', tenantStatus: '공실' })
+    const leasedWithoutRent = makeUnit({ ...clean, site: 'B', monthlyRent: null })
+    expect(
+      auditPortfolio([vacantWithRent, leasedWithoutRent], null).map((item) => item.message),
+    ).toEqual(["'공실' 호실에 월세가 있습니다", "'임대중' 호실의 월세가 비어 있습니다"])
+  })
+
+  it('asks for rate and interest only when there is a loan', () => {
+    const noLoan = makeUnit({ site: 'A', supplyPrice: null, tenantStatus: '공실' })
+    const loan = makeUnit({ site: 'B', supplyPrice: 1e8, loanAmount: 5e7, tenantStatus: '공실' })
+    expect(checks(auditPortfolio([noLoan, loan], null))).toEqual([
+      { check: 'missingValue', severity: 'info', field: 'supplyPrice' },
+      { check: 'missingValue', severity: 'info', field: 'interestRate' },
+      { check: 'missingValue', severity: 'info', field: 'monthlyInterest' },
+    ])
+  })
+
+  it('marks every row of a duplicated site ignoring spaces', () => {
+    const findings = auditPortfolio(
+      [clean, { ...clean, id: 'copy', site: '문래 SKv1  712호' }],
+      null,
+    )
+    expect(findings.map((item) => [item.check, item.site])).toEqual([
+      ['duplicateSite', '문래 SKv1 712호'],
+      ['duplicateSite', '문래 SKv1  712호'],
+    ])
+  })
+
+  it('compares the totals row with the unit sums, allowing rounding per row', () => {
+    const totals: SheetTotals = {
+      supplyPrice: 500_000_000,
+      loanAmount: 300_000_001,
+      monthlyInterest: 800_000,
+      monthlyRent: null,
+      buildingTax: null,
+      landTax: null,
+      trafficInducementCharge: null,
+    }
+    const findings = auditPortfolio([clean], totals)
+    expect(findings).toEqual([
+      expect.objectContaining({
+        check: 'totalMismatch',
+        site: TOTALS_SITE,
+        field: 'monthlyInterest',
+        expected: 900_000,
+        actual: 800_000,
+        message: '합계 행과 호실 합이 -100,000원 다릅니다',
+      }),
+    ])
+  })
+
+  it('sorts errors before warnings and info', () => {
+    const findings = auditPortfolio(
+      [
+        makeUnit({ site: 'A', supplyPrice: null, tenantStatus: '공실' }),
+        { ...clean, id: 'B', site: 'B', supplyPrice: 200_000_000 },
+        { ...clean, id: 'C', site: 'C', interestRate: 3.6 },
+      ],
+      null,
+    )
+    expect(findings.map((item) => item.severity)).toEqual(['error', 'warning', 'info'])
+  })
+})
@@ -0,0 +1,266 @@
+import { isVacant } from './alerts'
+import {
+  SHEET_TOTAL_FIELDS,
+  type PortfolioUnit,
+  type SheetTotalField,
+  type SheetTotals,
+} from './portfolio'
+import { PORTFOLIO_COLUMN_SCHEMA, type PortfolioField } from './portfolioColumns'
+
+export type AuditSeverity = 'error' | 'warning' | 'info'
+
+export type AuditCheck =
+  | 'interestMismatch'
+  | 'manwonUnit'
+  | 'percentRate'
+  | 'loanExceedsPrice'
+  | 'rentStatusMismatch'
+  | 'missingValue'
+  | 'duplicateSite'
+  | 'totalMismatch'
+
+export type AuditFinding = {
+  id: string
+  check: AuditCheck
+  severity: AuditSeverity
+  site: string
+  field: PortfolioField
+  expected: number | null
+  actual: number | null
+  message: string
+}
+
+export const AUDIT_CHECK_LABELS: Record<AuditCheck, string> = {
+  interestMismatch: '이자 불일치',
+  manwonUnit: '만원 단위 의심',
+  percentRate: '이율 단위',
+  loanExceedsPrice: '대출 > 공급금액',
+  rentStatusMismatch: '월세·입주 상태',
+  missingValue: '값 누락',
+  duplicateSite: '현장 중복',
+  totalMismatch: '합계 불일치',
+}
+
+export const AUDIT_SEVERITY_LABELS: Record<AuditSeverity, string> = {
+  error: '오류',
+  warning: '확인',
+  info: '참고',
+}
+
+export const TOTALS_SITE = '합계'
+
+const SEVERITY_ORDER: Record<AuditSeverity, number> = { error: 0, warning: 1, info: 2 }
+
+// Differences below this are rounding noise from hand-typed 원 amounts.
+const INTEREST_TOLERANCE = 1_000
+const INTEREST_ERROR_RATIO = 0.1
+
+// Thresholds below which a 원 amount is far more likely to have been typed in 만원.
+const MANWON_THRESHOLDS: Array<[SheetTotalField, number]> = [
+  ['supplyPrice', 1_000_000],
+  ['loanAmount', 1_000_000],
+  ['monthlyRent', 10_000],
+  ['monthlyInterest', 10_000],
+]
+
+const FIELD_LABELS = Object.fromEntries(
+  PORTFOLIO_COLUMN_SCHEMA.map((rule) => [rule.field, rule.label]),
+) as Record<PortfolioField, string>
+
+export function auditFieldLabel(field: PortfolioField): string {
+  return FIELD_LABELS[field] ?? field
+}
+
+function finding(
+  unit: Pick<PortfolioUnit, 'id' | 'site'>,
+  check: AuditCheck,
+  severity: AuditSeverity,
+  field: PortfolioField,
+  expected: number | null,
+  actual: number | null,
+  message: string,
+): AuditFinding {
+  return {
+    id: `${unit.id}-${check}-${field}`,
+    check,
+    severity,
+    site: unit.site,
+    field,
+    expected,
+    actual,
+    message,
+  }
+}
+
+function auditUnit(unit: PortfolioUnit): AuditFinding[] {
+  const findings: AuditFinding[] = []
+
+  for (const [field, threshold] of MANWON_THRESHOLDS) {
+    const value = unit[field]
+    if (value !== null && value > 0 && value < threshold) {
+      findings.push(
+        finding(
+          unit,
+          'manwonUnit',
+          'error',
+          field,
+          value * 10_000,
+          value,
+          `${auditFieldLabel(field)} 값이 만원 단위로 입력된 것으로 보입니다`,
+        ),
+      )
+    }
+  }
+
+  if (unit.interestRate !== null && unit.interestRate >= 1) {
+    findings.push(
+      finding(
+        unit,
+        'percentRate',
+        'error',
+        'interestRate',
+        unit.interestRate / 100,
+        unit.interestRate,
+        '이율이 % 숫자로 입력되어 100배 큰 값으로 계산됩니다',
+      ),
+    )
+  }
+
+  const { loanAmount, interestRate, monthlyInterest } = unit
+  if (
+    loanAmount !== null &&
+    loanAmount > 0 &&
+    interestRate !== null &&
+    interestRate < 1 &&
+    monthlyInterest !== null
+  ) {
+    const expected = (loanAmount * interestRate) / 12
+    const difference = Math.abs(monthlyInterest - expected)
+    if (difference > INTEREST_TOLERANCE) {
+      findings.push(
+        finding(
+          unit,
+          'interestMismatch',
+          difference > expected * INTEREST_ERROR_RATIO ? 'error' : 'warning',
+          'monthlyInterest',
+          Math.round(expected),
+          monthlyInterest,
+          '대출금 × 이율 ÷ 12와 월 이자가 다릅니다',
+        ),
+      )
+    }
+  }
+
+  if (loanAmount !== null && unit.supplyPrice !== null && loanAmount > unit.supplyPrice) {
+    findings.push(
+      finding(
+        unit,
+        'loanExceedsPrice',
+        'warning',
+        'loanAmount',
+        unit.supplyPrice,
+        loanAmount,
+        '대출금이 공급금액보다 큽니다',
+      ),
+    )
+  }
+
+  const rent = unit.monthlyRent ?? 0
+  if (isVacant(unit) && rent > 0) {
+    findings.push(
+      finding(
+        unit,
+        'rentStatusMismatch',
+        'warning',
+        'monthlyRent',
+        0,
+        rent,
+        `'${unit.tenantStatus}' 호실에 월세가 있습니다`,
+      ),
+    )
+  } else if (unit.tenantStatus.includes('임대') && !isVacant(unit) && rent === 0) {
+    findings.push(
+      finding(
+        unit,
+        'rentStatusMismatch',
+        'warning',
+        'monthlyRent',
+        null,
+        unit.monthlyRent,
+        `'${unit.tenantStatus}' 호실의 월세가 비어 있습니다`,
+      ),
+    )
+  }
+
+  const requiredValues: Array<'supplyPrice' | 'interestRate' | 'monthlyInterest'> = ['supplyPrice']
+  if ((loanAmount ?? 0) > 0) requiredValues.push('interestRate', 'monthlyInterest')
+  for (const field of requiredValues) {
+    if (unit[field] === null) {
+      findings.push(
+        finding(
+          unit,
+          'missingValue',
+          'info',
+          field,
+          null,
+          null,
+          `${auditFieldLabel(field)} 값이 없거나 숫자가 아닙니다`,
+        ),
+      )
+    }
+  }
+
+  return findings
+}
+
+function auditDuplicates(units: PortfolioUnit[]): AuditFinding[] {
+  const seen = new Map<string, number>()
+  for (const unit of units) {
+    const key = unit.site.replace(/\s+/g, '')
+    seen.set(key, (seen.get(key) ?? 0) + 1)
+  }
+
+  return units
+    .filter((unit) => (seen.get(unit.site.replace(/\s+/g, '')) ?? 0) > 1)
+    .map((unit) =>
+      finding(
+        unit,
+        'duplicateSite',
+        'warning',
+        'site',
+        null,
+        null,
+        '같은 현장명이 여러 행에 있습니다',
+      ),
+    )
+}
+
+function auditTotals(units: PortfolioUnit[], totals: SheetTotals): AuditFinding[] {
+  const row = { id: 'totals', site: TOTALS_SITE }
+  return SHEET_TOTAL_FIELDS.flatMap((field) => {
+    const actual = totals[field]
+    if (actual === null) return []
+    const expected = units.reduce((acc, unit) => acc + (unit[field] ?? 0), 0)
+    if (Math.abs(actual - expected) <= units.length) return []
+    return [
+      finding(
+        row,
+        'totalMismatch',
+        'error',
+        field,
+        expected,
+        actual,
+        `합계 행과 호실 합이 ${Math.round(actual - expected).toLocaleString('ko-KR')}원 다릅니다`,
+      ),
+    ]
+  })
+}
+
+export function auditPortfolio(units: PortfolioUnit[], totals: SheetTotals | null): AuditFinding[] {
+  const findings = [
+    ...units.flatMap(auditUnit),
+    ...auditDuplicates(units),
+    ...(totals ? auditTotals(units, totals) : []),
+  ]
+  return findings.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity])
+}
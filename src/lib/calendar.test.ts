@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  buildCalendarEvents,
+  DEFAULT_CALENDAR_REMINDERS,
+  parseReminderDays,
+  toICalendar,
+} from './calendar'
+import { parseSheetDate } from './dates'
+import { makeUnit } from './testUnits'
+import type { UnitRegistry } from './unitDetailRoutes'
+
+const registry: UnitRegistry = {
+  source: 'index',
+  routes: [
+    { slug: 'munrae-712', gid: '1', title: '문래 SKv1 712호', aliases: ['문래 SKv1 712호'] },
+  ],
+}
+
+const unit = makeUnit({
+  site: '문래 SKv1 712호',
+  contractRenewalRaw: '26.3월',
+  contractRenewal: parseSheetDate('26.3월'),
+  loanRenewalRaw: '2026.09.15',
+  loanRenewal: parseSheetDate('2026.09.15'),
+  buildingTax: 400_000,
+})
+
+describe('buildCalendarEvents', () => {
+  beforeEach(() => vi.stubEnv('BASE_URL', '/RealestateDashBoard/'))
+  afterEach(() => vi.unstubAllEnvs())
+
+  const build = () =>
+    buildCalendarEvents([unit], registry, [], 'https://example.github.io', new Date(2026, 0, 10))
+
+  it('links renewals to the unit page under the app base path', () => {
+    const contract = build().find((event) => event.kind === 'contract')
+    expect(contract?.url).toBe('https://example.github.io/RealestateDashBoard/units/munrae-712')
+  })
+
+  it('marks month-only renewals in the description', () => {
+    const contract = build().find((event) => event.kind === 'contract')
+    expect(contract?.date).toEqual(new Date(2026, 2, 1))
+    expect(contract?.description).toContain('(월 단위)')
+  })
+
+  it('adds a yearly property tax event for taxed units only', () => {
+    const propertyTax = build().filter((event) => event.kind === 'propertyTax')
+    expect(propertyTax).toHaveLength(1)
+    expect(propertyTax[0]).toMatchObject({ date: new Date(2026, 6, 31), yearly: true })
+  })
+})
+
+describe('toICalendar', () => {
+  it('escapes text, folds long lines and adds reminders', () => {
+    const ics = toICalendar(
+      [
+        {
+          uid: 'contract-문래',
+          kind: 'contract',
+          title: '[계약갱신] 문래, 712호; B동',
+          description: '가'.repeat(40),
+          date: new Date(2026, 2, 31),
+          url: null,
+          yearly: true,
+        },
+      ],
+      DEFAULT_CALENDAR_REMINDERS,
+    )
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+    expect(ics).toContain('SUMMARY:[계약갱신] 문래\\, 712호\\; B동')
+    expect(ics).toContain('DTSTART;VALUE=DATE:20260331\r\nDTEND;VALUE=DATE:20260401')
+    expect(ics).toContain('RRULE:FREQ=YEARLY')
+    expect(ics).toContain('TRIGGER:-P90D')
+    expect(ics).toContain('TRIGGER:-P30D')
+    for (const line of ics.split('\r\n')) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75)
+    }
+  })
+})
+
+describe('parseReminderDays', () => {
+  it('keeps unique whole days within a year, latest first', () => {
+    expect(parseReminderDays('7, 30 30 400 -1 abc 0')).toEqual([30, 7, 0])
+  })
+})
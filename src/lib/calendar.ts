@@ -0,0 +1,220 @@
+import { formatSheetDate, sheetDateDue } from './dates'
+import type { PortfolioUnit } from './portfolio'
+import type { TaxFiling } from './taxEstimator'
+import { getUnitDetailBySite, type UnitRegistry } from './unitDetailRoutes'
+
+export type CalendarEventKind = 'contract' | 'loan' | 'propertyTax' | 'tax'
+
+export type CalendarEvent = {
+  uid: string
+  kind: CalendarEventKind
+  title: string
+  description: string
+  date: Date
+  url: string | null
+  yearly: boolean
+}
+
+export type CalendarReminders = Record<CalendarEventKind, number[]>
+
+export const CALENDAR_EVENT_LABELS: Record<CalendarEventKind, string> = {
+  contract: '계약갱신',
+  loan: '대출갱신',
+  propertyTax: '재산세',
+  tax: '부가세·소득세',
+}
+
+export const DEFAULT_CALENDAR_REMINDERS: CalendarReminders = {
+  contract: [90, 30],
+  loan: [60, 14],
+  propertyTax: [14],
+  tax: [14, 3],
+}
+
+export const PROPERTY_TAX_DUE_DATES = [
+  { month: 6, day: 31, label: '재산세(건물분) 납부 마감', field: 'buildingTax' },
+  { month: 8, day: 30, label: '재산세(토지분) 납부 마감', field: 'landTax' },
+] as const
+
+export function parseReminderDays(value: string): number[] {
+  return Array.from(
+    new Set(
+      value
+        .split(/[,\s]+/)
+        .map((item) => Number(item))
+        .filter((item) => Number.isInteger(item) && item >= 0 && item <= 365),
+    ),
+  ).sort((a, b) => b - a)
+}
+
+function unitUrl(registry: UnitRegistry, site: string, origin: string): string | null {
+  const route = getUnitDetailBySite(registry, site)
+  // BASE_URL keeps the GitHub Pages subpath, e.g. /RealestateDashBoard/units/<slug>.
+  return route ? new URL(`${import.meta.env.BASE_URL}units/${route.slug}`, origin).href : null
+}
+
+export function buildCalendarEvents(
+  units: PortfolioUnit[],
+  registry: UnitRegistry,
+  filings: TaxFiling[],
+  origin: string,
+  today = new Date(),
+): CalendarEvent[] {
+  const events: CalendarEvent[] = []
+
+  for (const unit of units) {
+    const url = unitUrl(registry, unit.site, origin)
+    const renewals = [
+      { kind: 'contract' as const, raw: unit.contractRenewalRaw, parsed: unit.contractRenewal },
+      { kind: 'loan' as const, raw: unit.loanRenewalRaw, parsed: unit.loanRenewal },
+    ]
+    for (const { kind, raw, parsed } of renewals) {
+      if (!parsed) continue
+      events.push({
+        uid: `${kind}-${unit.site}`,
+        kind,
+        title: `[${CALENDAR_EVENT_LABELS[kind]}] ${unit.site}`,
+        description: [
+          `명의: ${unit.ownership}`,
+          `갱신일: ${formatSheetDate(parsed)}${parsed.precision === 'month' ? ' (월 단위)' : ''}`,
+          `시트 표기: ${raw}`,
+          unit.note,
+        ]
+          .filter((line) => line && line !== '-')
+          .join('\n'),
+        date: sheetDateDue(parsed),
+        url,
+        yearly: false,
+      })
+    }
+  }
+
+  for (const due of PROPERTY_TAX_DUE_DATES) {
+    const taxedUnits = units.filter((unit) => (unit[due.field] ?? 0) > 0)
+    if (taxedUnits.length === 0) continue
+    const total = taxedUnits.reduce((acc, unit) => acc + (unit[due.field] ?? 0), 0)
+    const year = today.getMonth() > due.month ? today.getFullYear() + 1 : today.getFullYear()
+    events.push({
+      uid: `property-tax-${due.field}`,
+      kind: 'propertyTax',
+      title: `[재산세] ${due.label}`,
+      description: [
+        `합계 ${Math.round(total).toLocaleString('ko-KR')}원`,
+        ...taxedUnits.map(
+          (unit) => `${unit.site}: ${Math.round(unit[due.field] ?? 0).toLocaleString('ko-KR')}원`,
+        ),
+      ].join('\n'),
+      date: new Date(year, due.month, due.day),
+      url: null,
+      yearly: true,
+    })
+  }
+
+  for (const filing of filings) {
+    events.push({
+      uid: `tax-${filing.id}`,
+      kind: 'tax',
+      title: `[${filing.kind}] ${filing.businessNumber}`,
+      description: [
+        filing.periodLabel,
+        `예상 납부액 ${Math.round(filing.amount).toLocaleString('ko-KR')}원`,
+      ].join('\n'),
+      date: filing.dueDate,
+      url: null,
+      yearly: false,
+    })
+  }
+
+  return events.sort((a, b) => a.date.getTime() - b.date.getTime())
+}
+
+function formatDateValue(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}${month}${day}`
+}
+
+function formatTimestamp(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '')
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// RFC 5545 limits content lines to 75 octets; continuation lines start with a space.
+function foldLine(line: string): string {
+  const encoder = new TextEncoder()
+  const parts: string[] = []
+  let current = ''
+  let size = 0
+  for (const char of line) {
+    const charSize = encoder.encode(char).length
+    if (size + charSize > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current)
+      current = ''
+      size = 0
+    }
+    current += char
+    size += charSize
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
+
+function toUid(value: string): string {
+  return `${encodeURIComponent(value).replace(/%/g, '')}@realestate-dashboard`
+}
+
+export function toICalendar(
+  events: CalendarEvent[],
+  reminders: CalendarReminders,
+  calendarName = '부동산 포트폴리오 일정',
+): string {
+  const stamp = formatTimestamp(new Date())
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//RealestateDashBoard//KO',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    'X-WR-TIMEZONE:Asia/Seoul',
+  ]
+
+  for (const event of events) {
+    const end = new Date(event.date.getFullYear(), event.date.getMonth(), event.date.getDate() + 1)
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${toUid(event.uid)}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatDateValue(event.date)}`,
+      `DTEND;VALUE=DATE:${formatDateValue(end)}`,
+      `SUMMARY:${escapeText(event.title)}`,
+    )
+    const description = event.url ? `${event.description}\n${event.url}` : event.description
+    if (description) lines.push(`DESCRIPTION:${escapeText(description)}`)
+    if (event.url) lines.push(`URL:${event.url}`)
+    if (event.yearly) lines.push('RRULE:FREQ=YEARLY')
+    for (const days of reminders[event.kind]) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(event.title)}`,
+        `TRIGGER:-P${days}D`,
+        'END:VALARM',
+      )
+    }
+    lines.push('END:VEVENT')
+  }
+
+  lines.push('END:VCALENDAR')
+  return `${lines.map(foldLine).join('\r\n')}\r\n`
+}
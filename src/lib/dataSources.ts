@@ -0,0 +1,314 @@
+import { parseCsv } from './csv'
+import type { GvizCell, GvizTable } from './googleSheets'
+import { readXlsxWorkbook, type XlsxCellValue, type XlsxSheet } from './xlsx'
+
+export type DataSourceKind = 'gviz' | 'proxy' | 'file' | 'fixture'
+
+export type SheetTab = {
+  gid: string
+  title: string
+}
+
+export type DataSource = {
+  kind: DataSourceKind
+  fetchPortfolioTable: () => Promise<GvizTable>
+  fetchTableByGid: (gid: string) => Promise<GvizTable>
+  listTabs?: () => Promise<SheetTab[]>
+}
+
+export type DataFixture = {
+  portfolio: GvizTable
+  tabs: Record<string, GvizTable>
+  tabTitles?: Record<string, string>
+}
+
+type GvizResponse = {
+  table: GvizTable
+}
+
+const PROXY_ACCESS_KEY_STORAGE_KEY = 'sheetsProxyAccessKey'
+
+function getRequiredEnv(name: string): string {
+  const value = import.meta.env[name]
+  if (!value || typeof value !== 'string') {
+    throw new Error(`${name} 환경 변수가 필요합니다.`)
+  }
+  return value
+}
+
+function resolveAssetUrl(path: string): string {
+  if (/^[a-z]+:/i.test(path) || path.startsWith('/')) return path
+  return `${import.meta.env.BASE_URL}${path}`
+}
+
+function parseGoogleVisualizationResponse(rawText: string): GvizResponse {
+  const match = rawText.match(/setResponse\((.*)\);?$/s)
+  if (!match || !match[1]) {
+    throw new Error('Google Sheets 응답을 파싱할 수 없습니다.')
+  }
+
+  return JSON.parse(match[1]) as GvizResponse
+}
+
+async function fetchGvizTable(sheetParam: string): Promise<GvizTable> {
+  const sheetId = getRequiredEnv('VITE_GOOGLE_SHEET_ID')
+  const query = import.meta.env.VITE_GOOGLE_SHEET_QUERY || 'select *'
+
+  const url =
+    `https://docs.google.com/spreadsheets/d/${sheetId}/gviz/tq` +
+    `?${sheetParam}` +
+    `&tq=${encodeURIComponent(query)}` +
+    '&tqx=out:json'
+
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Google Sheets 요청 실패: ${response.status}`)
+  }
+
+  const text = await response.text()
+  return parseGoogleVisualizationResponse(text).table
+}
+
+function createGvizSource(): DataSource {
+  return {
+    kind: 'gviz',
+    fetchPortfolioTable: () => {
+      const gid = import.meta.env.VITE_GOOGLE_SHEET_GID
+      const sheetName = import.meta.env.VITE_GOOGLE_SHEET_NAME || 'Sheet1'
+      return fetchGvizTable(
+        gid && typeof gid === 'string'
+          ? `gid=${encodeURIComponent(gid)}`
+          : `sheet=${encodeURIComponent(sheetName)}`,
+      )
+    },
+    fetchTableByGid: (gid) => fetchGvizTable(`gid=${encodeURIComponent(gid)}`),
+  }
+}
+
+function createProxySource(): DataSource {
+  const proxyUrl = resolveAssetUrl(getRequiredEnv('VITE_SHEETS_PROXY_URL').replace(/\/$/, ''))
+
+  const fetchProxyJson = async <T>(
+    path: string,
+    params: URLSearchParams,
+    allowPrompt = true,
+  ): Promise<T> => {
+    const accessKey = window.localStorage.getItem(PROXY_ACCESS_KEY_STORAGE_KEY)
+    const response = await fetch(`${proxyUrl}${path}?${params.toString()}`, {
+      headers: accessKey ? { Authorization: `Bearer ${accessKey}` } : undefined,
+    })
+
+    if (response.status === 401 && allowPrompt) {
+      const entered = window.prompt('시트 프록시 접근 키를 입력하세요.')
+      if (entered && entered.trim()) {
+        window.localStorage.setItem(PROXY_ACCESS_KEY_STORAGE_KEY, entered.trim())
+        return fetchProxyJson<T>(path, params, false)
+      }
+    }
+    if (response.status === 401) {
+      window.localStorage.removeItem(PROXY_ACCESS_KEY_STORAGE_KEY)
+      throw new Error('시트 프록시 접근 키가 올바르지 않습니다.')
+    }
+    if (!response.ok) {
+      throw new Error(`시트 프록시 요청 실패: ${response.status}`)
+    }
+
+    return (await response.json()) as T
+  }
+
+  const fetchProxyTable = async (params: URLSearchParams) =>
+    (await fetchProxyJson<GvizResponse>('/table', params)).table
+
+  return {
+    kind: 'proxy',
+    fetchPortfolioTable: () => {
+      const gid = import.meta.env.VITE_GOOGLE_SHEET_GID
+      const sheetName = import.meta.env.VITE_GOOGLE_SHEET_NAME || 'Sheet1'
+      return fetchProxyTable(
+        new URLSearchParams(gid && typeof gid === 'string' ? { gid } : { sheet: sheetName }),
+      )
+    },
+    fetchTableByGid: (gid) => fetchProxyTable(new URLSearchParams({ gid })),
+    listTabs: async () => {
+      const body = await fetchProxyJson<{ sheets: Array<{ sheetId: number; title: string }> }>(
+        '/sheets',
+        new URLSearchParams(),
+      )
+      return body.sheets.map((sheet) => ({ gid: String(sheet.sheetId), title: sheet.title }))
+    },
+  }
+}
+
+function toGvizCell(value: XlsxCellValue): GvizCell | null {
+  if (value === null) return null
+  if (typeof value !== 'string') return { v: value }
+
+  const trimmed = value.trim()
+  if (!trimmed) return null
+
+  const percent = trimmed.match(/^(-?[\d,]*\.?\d+)\s*%$/)
+  if (percent) {
+    return { v: Number(percent[1].replace(/,/g, '')) / 100, f: trimmed }
+  }
+  if (/^-?[\d,]*\.?\d+$/.test(trimmed)) {
+    const numeric = Number(trimmed.replace(/,/g, ''))
+    if (Number.isFinite(numeric)) return { v: numeric, f: trimmed }
+  }
+  return { v: trimmed }
+}
+
+export function matrixToGvizTable(matrix: XlsxCellValue[][]): GvizTable {
+  const [headerRow = [], ...bodyRows] = matrix
+  const width = Math.max(headerRow.length, ...bodyRows.map((row) => row.length))
+
+  return {
+    cols: Array.from({ length: width }, (_, index) => {
+      const label = headerRow[index]
+      return { label: label === null || label === undefined ? '' : String(label).trim() }
+    }),
+    rows: bodyRows.map((row) => ({
+      c: Array.from({ length: width }, (_, index) => toGvizCell(row[index] ?? null)),
+    })),
+  }
+}
+
+function parseTabMap(raw: unknown): Map<string, string> {
+  const map = new Map<string, string>()
+  if (!raw || typeof raw !== 'string') return map
+
+  for (const pair of raw.split(',')) {
+    const [gid, ...name] = pair.split('=')
+    if (gid && gid.trim() && name.length > 0) {
+      map.set(gid.trim(), name.join('=').trim())
+    }
+  }
+  return map
+}
+
+function createFileSource(): DataSource {
+  const fileUrl = getRequiredEnv('VITE_DATA_FILE_URL')
+  const isWorkbook = /\.xlsx(\?|#|$)/i.test(fileUrl)
+  const tabNames = parseTabMap(import.meta.env.VITE_DATA_FILE_TABS)
+  let workbookPromise: Promise<XlsxSheet[]> | null = null
+
+  const loadWorkbook = () => {
+    if (!workbookPromise) {
+      workbookPromise = (async () => {
+        const response = await fetch(resolveAssetUrl(fileUrl))
+        if (!response.ok) {
+          throw new Error(`데이터 파일 요청 실패: ${response.status}`)
+        }
+        return readXlsxWorkbook(await response.arrayBuffer())
+      })()
+      workbookPromise.catch(() => {
+        workbookPromise = null
+      })
+    }
+    return workbookPromise
+  }
+
+  const readWorkbookSheet = async (sheetName: string, fallbackToFirst: boolean) => {
+    const sheets = await loadWorkbook()
+    const sheet =
+      sheets.find((item) => item.name === sheetName) ?? (fallbackToFirst ? sheets[0] : undefined)
+    if (!sheet) {
+      throw new Error(`데이터 파일에서 '${sheetName}' 탭을 찾을 수 없습니다.`)
+    }
+    return matrixToGvizTable(sheet.rows)
+  }
+
+  const readCsv = async (tab: string) => {
+    const response = await fetch(resolveAssetUrl(fileUrl.replace('{tab}', encodeURIComponent(tab))))
+    if (!response.ok) {
+      throw new Error(`데이터 파일 요청 실패: ${response.status}`)
+    }
+    return matrixToGvizTable(parseCsv(await response.text()))
+  }
+
+  return {
+    kind: 'file',
+    fetchPortfolioTable: () =>
+      isWorkbook
+        ? readWorkbookSheet(import.meta.env.VITE_GOOGLE_SHEET_NAME || 'Sheet1', true)
+        : readCsv('portfolio'),
+    fetchTableByGid: (gid) =>
+      isWorkbook
+        ? readWorkbookSheet(tabNames.get(gid) ?? gid, false)
+        : readCsv(tabNames.get(gid) ?? gid),
+    listTabs: isWorkbook
+      ? async () => {
+          const gidsByName = new Map(Array.from(tabNames, ([gid, name]) => [name, gid]))
+          return (await loadWorkbook()).map((sheet) => ({
+            gid: gidsByName.get(sheet.name) ?? sheet.name,
+            title: sheet.name,
+          }))
+        }
+      : undefined,
+  }
+}
+
+function createFixtureSource(): DataSource {
+  const fixtureUrl = import.meta.env.VITE_DATA_FIXTURE_URL || 'fixtures/portfolio.json'
+  let fixturePromise: Promise<DataFixture> | null = null
+
+  const loadFixture = () => {
+    if (!fixturePromise) {
+      fixturePromise = (async () => {
+        const response = await fetch(resolveAssetUrl(fixtureUrl))
+        if (!response.ok) {
+          throw new Error(`픽스처 요청 실패: ${response.status}`)
+        }
+        return (await response.json()) as DataFixture
+      })()
+      fixturePromise.catch(() => {
+        fixturePromise = null
+      })
+    }
+    return fixturePromise
+  }
+
+  return {
+    kind: 'fixture',
+    fetchPortfolioTable: async () => (await loadFixture()).portfolio,
+    fetchTableByGid: async (gid) => {
+      const table = (await loadFixture()).tabs[gid]
+      if (!table) {
+        throw new Error(`픽스처에 gid ${gid} 탭이 없습니다.`)
+      }
+      return table
+    },
+    listTabs: async () => {
+      const fixture = await loadFixture()
+      return Object.keys(fixture.tabs).map((gid) => ({
+        gid,
+        title: fixture.tabTitles?.[gid] ?? gid,
+      }))
+    },
+  }
+}
+
+let activeSource: DataSource | null = null
+
+export function getDataSource(): DataSource {
+  if (activeSource) return activeSource
+
+  const kind =
+    import.meta.env.VITE_DATA_SOURCE || (import.meta.env.VITE_SHEETS_PROXY_URL ? 'proxy' : 'gviz')
+  switch (kind) {
+    case 'gviz':
+      activeSource = createGvizSource()
+      break
+    case 'proxy':
+      activeSource = createProxySource()
+      break
+    case 'file':
+      activeSource = createFileSource()
+      break
+    case 'fixture':
+      activeSource = createFixtureSource()
+      break
+    default:
+      throw new Error(`알 수 없는 데이터 소스입니다: ${kind}`)
+  }
+  return activeSource
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { addMonths, daysUntil, formatSheetDate, parseSheetDate, sheetDateDue } from './dates'
+
+describe('parseSheetDate', () => {
+  it('reads full dates in the separators the sheet uses', () => {
+    for (const text of ['2026.03.05', '2026-03-05', '2026/3/5', '2026년 3월 5일', '26.03.05']) {
+      expect(parseSheetDate(text)).toEqual({
+        date: new Date(2026, 2, 5),
+        precision: 'day',
+        end: null,
+      })
+    }
+  })
+
+  it('reads month-only cells such as 26.3월 and yy.mm', () => {
+    for (const text of ['26.3월', '26.03', '2026.03', '2026년 3월']) {
+      expect(parseSheetDate(text)).toEqual({
+        date: new Date(2026, 2, 1),
+        precision: 'month',
+        end: null,
+      })
+    }
+  })
+
+  it('reads gviz date cells with a zero-based month', () => {
+    expect(parseSheetDate('Date(2025,2,1)')?.date).toEqual(new Date(2025, 2, 1))
+    expect(parseSheetDate('Date(2025,11)')).toEqual({
+      date: new Date(2025, 11, 1),
+      precision: 'day',
+      end: null,
+    })
+  })
+
+  it('rejects empty cells and impossible dates', () => {
+    expect(parseSheetDate('')).toBeNull()
+    expect(parseSheetDate(null)).toBeNull()
+    expect(parseSheetDate('미정')).toBeNull()
+    expect(parseSheetDate('2026.02.30')).toBeNull()
+    expect(parseSheetDate('26.13')).toBeNull()
+  })
+
+  it('keeps the end of a range, through the last day of a month-only end', () => {
+    const range = parseSheetDate('24.03 ~ 26.02')
+    expect(range?.date).toEqual(new Date(2024, 2, 1))
+    expect(range?.end).toEqual(new Date(2026, 1, 28))
+    expect(range && sheetDateDue(range)).toEqual(new Date(2026, 1, 28))
+    expect(range && formatSheetDate(range)).toBe('2024.03 ~ 2026.02')
+  })
+
+  it('ignores a range end before its start', () => {
+    expect(parseSheetDate('2026.03.01 - 2025.03.01')?.end).toBeNull()
+  })
+})
+
+describe('addMonths', () => {
+  it('keeps month-end dates inside shorter months', () => {
+    const start = new Date(2025, 0, 31)
+    expect(addMonths(start, 1)).toEqual(new Date(2025, 1, 28))
+    expect(addMonths(start, 3)).toEqual(new Date(2025, 3, 30))
+    expect(addMonths(new Date(2024, 0, 31), 1)).toEqual(new Date(2024, 1, 29))
+  })
+
+  it('moves across year boundaries', () => {
+    expect(addMonths(new Date(2025, 10, 15), 3)).toEqual(new Date(2026, 1, 15))
+    expect(addMonths(new Date(2026, 1, 15), -2)).toEqual(new Date(2025, 11, 15))
+  })
+})
+
+describe('daysUntil', () => {
+  it('counts calendar days regardless of the time of day', () => {
+    const today = new Date(2026, 2, 5, 23, 59)
+    expect(daysUntil(new Date(2026, 2, 6, 0, 1), today)).toBe(1)
+    expect(daysUntil(new Date(2026, 2, 5), today)).toBe(0)
+    expect(daysUntil(new Date(2026, 1, 26), today)).toBe(-7)
+  })
+})
@@ -0,0 +1,95 @@
+export type DatePrecision = 'day' | 'month'
+
+export type SheetDate = {
+  date: Date
+  precision: DatePrecision
+  end: Date | null
+}
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24
+
+// gviz serializes date cells as `Date(2025,2,1)` with a zero-based month.
+const GVIZ_DATE_PATTERN = /Date\((\d{4}),\s*(\d{1,2})(?:,\s*(\d{1,2}))?/
+const DAY_PATTERN = /(?<!\d)(\d{4}|\d{2})\s*[.\-/년]\s*(\d{1,2})\s*[.\-/월]\s*(\d{1,2})(?!\d)/
+const MONTH_PATTERN = /(?<!\d)(\d{4}|\d{2})\s*[.\-/년]\s*(\d{1,2})(?!\d)/
+const RANGE_SEPARATOR = /\s*[~∼〜–—]\s*|\s+-\s+/
+
+function toDate(year: number, month: number, day: number): Date | null {
+  const fullYear = year < 100 ? year + 2000 : year
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null
+  const date = new Date(fullYear, month - 1, day)
+  return date.getMonth() === month - 1 ? date : null
+}
+
+function parseDatePart(text: string): SheetDate | null {
+  const gviz = text.match(GVIZ_DATE_PATTERN)
+  if (gviz) {
+    const date = toDate(Number(gviz[1]), Number(gviz[2]) + 1, Number(gviz[3] ?? 1))
+    return date ? { date, precision: 'day', end: null } : null
+  }
+
+  const day = text.match(DAY_PATTERN)
+  if (day) {
+    const date = toDate(Number(day[1]), Number(day[2]), Number(day[3]))
+    return date ? { date, precision: 'day', end: null } : null
+  }
+
+  const month = text.match(MONTH_PATTERN)
+  if (month) {
+    const date = toDate(Number(month[1]), Number(month[2]), 1)
+    return date ? { date, precision: 'month', end: null } : null
+  }
+
+  return null
+}
+
+function lastDayOf(value: SheetDate): Date {
+  const { date, precision } = value
+  return precision === 'month' ? new Date(date.getFullYear(), date.getMonth() + 1, 0) : date
+}
+
+export function parseSheetDate(raw: string | null | undefined): SheetDate | null {
+  const text = (raw ?? '').trim()
+  if (!text) return null
+
+  const [first, second] = text.split(RANGE_SEPARATOR)
+  const start = parseDatePart(first)
+  if (!start) return null
+
+  const rangeEnd = second ? parseDatePart(second) : null
+  if (!rangeEnd || rangeEnd.date < start.date) return start
+  return { ...start, end: lastDayOf(rangeEnd) }
+}
+
+export function sheetDateDue(value: SheetDate): Date {
+  return value.end ?? value.date
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate()
+}
+
+// Month-end dates stay on the last day of shorter months instead of rolling into the next one.
+export function addMonths(date: Date, months: number): Date {
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1)
+  const year = target.getFullYear()
+  const month = target.getMonth()
+  return new Date(year, month, Math.min(date.getDate(), daysInMonth(year, month)))
+}
+
+export function daysUntil(date: Date, today = new Date()): number {
+  const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate())
+  const target = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  return Math.round((target.getTime() - startOfToday.getTime()) / MS_PER_DAY)
+}
+
+function formatDatePart(date: Date, precision: DatePrecision): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  if (precision === 'month') return `${date.getFullYear()}.${month}`
+  return `${date.getFullYear()}.${month}.${String(date.getDate()).padStart(2, '0')}`
+}
+
+export function formatSheetDate(value: SheetDate): string {
+  const start = formatDatePart(value.date, value.precision)
+  return value.end ? `${start} ~ ${formatDatePart(value.end, value.precision)}` : start
+}
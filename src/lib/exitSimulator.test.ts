@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest'
+import { addMonths } from './dates'
+import {
+  CAPITAL_GAINS_BASIC_DEDUCTION,
+  capitalGainsTax,
+  longTermDeductionRate,
+  salePriceOf,
+  simulateExit,
+  type ExitInputs,
+  type ExitProperty,
+} from './exitSimulator'
+import type { ReturnInput } from './returns'
+
+describe('longTermDeductionRate', () => {
+  it('starts at 6% after three full years and grows 2%p a year', () => {
+    expect(longTermDeductionRate(35)).toBe(0)
+    expect(longTermDeductionRate(36)).toBeCloseTo(0.06)
+    expect(longTermDeductionRate(47)).toBeCloseTo(0.06)
+    expect(longTermDeductionRate(48)).toBeCloseTo(0.08)
+    expect(longTermDeductionRate(10 * 12)).toBeCloseTo(0.2)
+  })
+
+  it('caps at 30% from fifteen years', () => {
+    expect(longTermDeductionRate(14 * 12 + 11)).toBeCloseTo(0.28)
+    expect(longTermDeductionRate(15 * 12)).toBeCloseTo(0.3)
+    expect(longTermDeductionRate(30 * 12)).toBeCloseTo(0.3)
+  })
+})
+
+describe('capitalGainsTax', () => {
+  it('applies the short-term rates under two years', () => {
+    const underOneYear = capitalGainsTax(100_000_000, 11, 'individual')
+    expect(underOneYear.rateLabel).toBe('단기 50%')
+    expect(underOneYear.taxableGain).toBe(100_000_000 - CAPITAL_GAINS_BASIC_DEDUCTION)
+    expect(underOneYear.nationalTax).toBeCloseTo(48_750_000)
+
+    expect(capitalGainsTax(100_000_000, 12, 'individual').rateLabel).toBe('단기 40%')
+    expect(capitalGainsTax(100_000_000, 23, 'individual').nationalTax).toBeCloseTo(39_000_000)
+    expect(capitalGainsTax(100_000_000, 24, 'individual').rateLabel).toBe('기본세율(6~45%)')
+  })
+
+  it('deducts the long-term rate and basic deduction before the progressive rates', () => {
+    const tax = capitalGainsTax(100_000_000, 15 * 12, 'individual')
+    expect(tax.longTermDeduction).toBeCloseTo(30_000_000)
+    expect(tax.basicDeduction).toBe(CAPITAL_GAINS_BASIC_DEDUCTION)
+    expect(tax.taxableGain).toBeCloseTo(67_500_000)
+    expect(tax.nationalTax).toBeCloseTo(10_440_000)
+    expect(tax.localTax).toBeCloseTo(1_044_000)
+    expect(tax.total).toBeCloseTo(11_484_000)
+  })
+
+  it('never deducts more than the gain', () => {
+    const tax = capitalGainsTax(1_000_000, 60, 'individual')
+    expect(tax.basicDeduction).toBeCloseTo(900_000)
+    expect(tax.taxableGain).toBeCloseTo(0)
+    expect(tax.total).toBeCloseTo(0)
+  })
+
+  it('charges nothing on a loss', () => {
+    expect(capitalGainsTax(-50_000_000, 60, 'individual').total).toBe(0)
+    expect(capitalGainsTax(-50_000_000, 60, 'corporation').total).toBe(0)
+  })
+
+  it('taxes corporations on the whole gain without deductions', () => {
+    const tax = capitalGainsTax(300_000_000, 6, 'corporation')
+    expect(tax.longTermDeduction).toBe(0)
+    expect(tax.basicDeduction).toBe(0)
+    expect(tax.nationalTax).toBeCloseTo(37_000_000)
+    expect(tax.total).toBeCloseTo(40_700_000)
+  })
+})
+
+describe('simulateExit', () => {
+  const start = new Date(2020, 0, 1)
+  const input: ReturnInput = {
+    acquisitionDate: start,
+    price: 300_000_000,
+    vat: 20_000_000,
+    registration: 14_000_000,
+    brokerage: 1_000_000,
+    deposit: 10_000_000,
+    monthlyRent: 1_200_000,
+    annualTaxes: 0,
+    loan: null,
+    monthlyInterest: null,
+  }
+  const property: ExitProperty = {
+    areaPyeong: 20,
+    landPrice: 60_000_000,
+    buildingPrice: 240_000_000,
+  }
+  const inputs: ExitInputs = {
+    priceMode: 'total',
+    salePrice: 400_000_000,
+    pricePerPyeong: 0,
+    saleDate: addMonths(start, 60),
+    saleCostRate: 0.01,
+    taxpayerType: 'individual',
+    comprehensiveTransfer: false,
+  }
+
+  it('prices a sale by area when asked', () => {
+    expect(
+      salePriceOf({ ...inputs, priceMode: 'perPyeong', pricePerPyeong: 25_000_000 }, property),
+    ).toBe(500_000_000)
+    expect(
+      salePriceOf({ ...inputs, priceMode: 'perPyeong' }, { ...property, areaPyeong: null }),
+    ).toBe(0)
+  })
+
+  it('splits VAT on the building share and drops it for a going-concern transfer', () => {
+    const result = simulateExit(input, property, inputs, 0.05)
+    expect(result.buildingShare).toBeCloseTo(0.8)
+    expect(result.vat).toBeCloseTo(32_000_000)
+    expect(
+      simulateExit(input, property, { ...inputs, comprehensiveTransfer: true }, 0.05).vat,
+    ).toBe(0)
+  })
+
+  it('nets sale costs, tax and the deposit out of the proceeds', () => {
+    const result = simulateExit(input, property, inputs, 0.05)
+    expect(result.holdingMonths).toBe(60)
+    expect(result.capitalGain).toBe(400_000_000 - 4_000_000 - 315_000_000)
+    expect(result.tax.longTermDeductionRate).toBeCloseTo(0.1)
+    expect(result.netProceeds).toBeCloseTo(400_000_000 - 4_000_000 - result.tax.total - 10_000_000)
+    expect(result.realized.irr).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,171 @@
+import { monthsBetween } from './loan'
+import { holdingCashflows, returnMetrics, type ReturnInput, type ReturnMetrics } from './returns'
+import {
+  CORPORATE_TAX_BRACKETS,
+  DEFAULT_TAX_ESTIMATOR_OPTIONS,
+  INCOME_TAX_BRACKETS,
+  progressiveTax,
+  VAT_RATE,
+  type TaxpayerType,
+} from './taxEstimator'
+
+export type SalePriceMode = 'total' | 'perPyeong'
+
+export type ExitInputs = {
+  priceMode: SalePriceMode
+  salePrice: number
+  pricePerPyeong: number
+  saleDate: Date
+  saleCostRate: number
+  taxpayerType: TaxpayerType
+  comprehensiveTransfer: boolean
+}
+
+export type ExitProperty = {
+  areaPyeong: number | null
+  landPrice: number | null
+  buildingPrice: number | null
+}
+
+export type CapitalGainsTax = {
+  rateLabel: string
+  longTermDeductionRate: number
+  longTermDeduction: number
+  basicDeduction: number
+  taxableGain: number
+  nationalTax: number
+  localTax: number
+  total: number
+}
+
+export type ExitResult = {
+  salePrice: number
+  buildingShare: number
+  buildingValue: number
+  landValue: number
+  vat: number
+  holdingMonths: number
+  acquisitionBasis: number
+  saleCosts: number
+  capitalGain: number
+  tax: CapitalGainsTax
+  loanPayoff: number
+  depositReturned: number
+  netProceeds: number
+  realized: ReturnMetrics
+}
+
+// 소득세법 제95조 표2(비주택): 3년 이상 보유 시 6%, 1년마다 2%p씩 늘어 15년 이상 30%.
+const LONG_TERM_DEDUCTION_MIN_YEARS = 3
+const LONG_TERM_DEDUCTION_BASE = 0.06
+const LONG_TERM_DEDUCTION_STEP = 0.02
+const LONG_TERM_DEDUCTION_MAX = 0.3
+export const CAPITAL_GAINS_BASIC_DEDUCTION = 2_500_000
+// 소득세법 제104조: 비주택 1년 미만 50%, 2년 미만 40%, 이후 기본세율.
+const SHORT_TERM_RATES: Array<[number, number]> = [
+  [12, 0.5],
+  [24, 0.4],
+]
+const LOCAL_TAX_RATE = 0.1
+
+export function salePriceOf(inputs: ExitInputs, property: ExitProperty): number {
+  if (inputs.priceMode === 'total') return inputs.salePrice
+  return inputs.pricePerPyeong * (property.areaPyeong ?? 0)
+}
+
+export function longTermDeductionRate(holdingMonths: number): number {
+  const years = Math.floor(holdingMonths / 12)
+  if (years < LONG_TERM_DEDUCTION_MIN_YEARS) return 0
+  return Math.min(
+    LONG_TERM_DEDUCTION_MAX,
+    LONG_TERM_DEDUCTION_BASE + (years - LONG_TERM_DEDUCTION_MIN_YEARS) * LONG_TERM_DEDUCTION_STEP,
+  )
+}
+
+export function capitalGainsTax(
+  capitalGain: number,
+  holdingMonths: number,
+  taxpayerType: TaxpayerType,
+): CapitalGainsTax {
+  const gain = Math.max(0, capitalGain)
+
+  // 법인은 양도차익이 각 사업연도 소득에 합산되어 법인세로 과세된다(다른 소득은 없다고 가정).
+  if (taxpayerType === 'corporation') {
+    const nationalTax = progressiveTax(gain, CORPORATE_TAX_BRACKETS)
+    return {
+      rateLabel: '법인세 누진세율',
+      longTermDeductionRate: 0,
+      longTermDeduction: 0,
+      basicDeduction: 0,
+      taxableGain: gain,
+      nationalTax,
+      localTax: nationalTax * LOCAL_TAX_RATE,
+      total: nationalTax * (1 + LOCAL_TAX_RATE),
+    }
+  }
+
+  const deductionRate = longTermDeductionRate(holdingMonths)
+  const longTermDeduction = gain * deductionRate
+  const basicDeduction = Math.min(CAPITAL_GAINS_BASIC_DEDUCTION, gain - longTermDeduction)
+  const taxableGain = gain - longTermDeduction - basicDeduction
+  const shortTerm = SHORT_TERM_RATES.find(([months]) => holdingMonths < months)
+  const nationalTax = shortTerm
+    ? taxableGain * shortTerm[1]
+    : progressiveTax(taxableGain, INCOME_TAX_BRACKETS)
+
+  return {
+    rateLabel: shortTerm ? `단기 ${shortTerm[1] * 100}%` : '기본세율(6~45%)',
+    longTermDeductionRate: deductionRate,
+    longTermDeduction,
+    basicDeduction,
+    taxableGain,
+    nationalTax,
+    localTax: nationalTax * LOCAL_TAX_RATE,
+    total: nationalTax * (1 + LOCAL_TAX_RATE),
+  }
+}
+
+export function simulateExit(
+  input: ReturnInput,
+  property: ExitProperty,
+  inputs: ExitInputs,
+  discountRate: number,
+): ExitResult {
+  const salePrice = salePriceOf(inputs, property)
+  const landAndBuilding = (property.landPrice ?? 0) + (property.buildingPrice ?? 0)
+  const buildingShare =
+    landAndBuilding > 0 && property.buildingPrice !== null
+      ? property.buildingPrice / landAndBuilding
+      : DEFAULT_TAX_ESTIMATOR_OPTIONS.buildingShare
+  const buildingValue = salePrice * buildingShare
+  // 포괄양수도는 재화의 공급으로 보지 않아 부가세를 거래징수하지 않는다.
+  const vat = inputs.comprehensiveTransfer ? 0 : buildingValue * VAT_RATE
+
+  const holdingMonths = Math.max(1, monthsBetween(input.acquisitionDate, inputs.saleDate))
+  const saleCosts = salePrice * inputs.saleCostRate
+  const acquisitionBasis = input.price + input.registration + input.brokerage
+  const capitalGain = salePrice - saleCosts - acquisitionBasis
+  const tax = capitalGainsTax(capitalGain, holdingMonths, inputs.taxpayerType)
+
+  const { cashflows, loanBalance } = holdingCashflows(input, holdingMonths)
+  const netProceeds = salePrice - saleCosts - tax.total - loanBalance - input.deposit
+  // 매수인에게 받은 부가세는 그대로 세무서에 납부하므로 현금흐름에서 상쇄된다.
+  cashflows.push({ date: inputs.saleDate, kind: 'exit', amount: netProceeds })
+
+  return {
+    salePrice,
+    buildingShare,
+    buildingValue,
+    landValue: salePrice - buildingValue,
+    vat,
+    holdingMonths,
+    acquisitionBasis,
+    saleCosts,
+    capitalGain,
+    tax,
+    loanPayoff: loanBalance,
+    depositReturned: input.deposit,
+    netProceeds,
+    realized: returnMetrics(cashflows, discountRate),
+  }
+}
@@ -0,0 +1,229 @@
+import { isVacant } from './alerts'
+import { parseSheetDate } from './dates'
+import { unitCashflow, type PortfolioSummary, type PortfolioUnit } from './portfolio'
+
+export type ExpenseCategory =
+  'propertyTax' | 'trafficCharge' | 'maintenance' | 'insurance' | 'repair' | 'accounting' | 'other'
+
+export type ExpenseFrequency = 'monthly' | 'annual' | 'oneOff'
+
+export type Expense = {
+  id: string
+  site: string | null
+  category: ExpenseCategory
+  label: string
+  amount: number
+  frequency: ExpenseFrequency
+  date: string | null
+  vacancyOnly: boolean
+}
+
+export type ExpenseLine = {
+  id: string
+  site: string | null
+  category: ExpenseCategory
+  label: string
+  monthlyAmount: number
+  source: 'sheet' | 'manual'
+}
+
+export type UnitOperatingRow = {
+  unit: PortfolioUnit
+  monthlyExpenses: number
+  monthlyNetOperatingIncome: number
+  monthlyNetCashflowAfterExpenses: number
+  annualReturnOnEquityAfterExpenses: number | null
+}
+
+export type OperatingSummary = {
+  lines: ExpenseLine[]
+  units: UnitOperatingRow[]
+  byCategory: Record<ExpenseCategory, number>
+  sharedMonthlyExpenses: number
+  monthlyExpenses: number
+  monthlyNetOperatingIncome: number
+  annualNetOperatingIncome: number
+  monthlyNetCashflowAfterExpenses: number
+  annualNetCashflowAfterExpenses: number
+  annualReturnOnEquityAfterExpenses: number | null
+}
+
+export const EXPENSE_CATEGORY_LABELS: Record<ExpenseCategory, string> = {
+  propertyTax: '재산세',
+  trafficCharge: '교통유발부담금',
+  maintenance: '관리비',
+  insurance: '보험료',
+  repair: '수선비',
+  accounting: '세무 기장료',
+  other: '기타',
+}
+
+export const EXPENSE_FREQUENCY_LABELS: Record<ExpenseFrequency, string> = {
+  monthly: '매월',
+  annual: '매년',
+  oneOff: '일회성',
+}
+
+// One-off costs count against the twelve months after they are paid.
+export const ONE_OFF_AMORTIZATION_MONTHS = 12
+
+export const MANUAL_EXPENSE_CATEGORIES: ExpenseCategory[] = [
+  'maintenance',
+  'insurance',
+  'repair',
+  'accounting',
+  'other',
+]
+
+function normalizeSite(value: string): string {
+  return value.replace(/\s+/g, '').toLowerCase()
+}
+
+function sheetExpenseLines(unit: PortfolioUnit): ExpenseLine[] {
+  const propertyTax = (unit.buildingTax ?? 0) + (unit.landTax ?? 0)
+  const trafficCharge = unit.trafficInducementCharge ?? 0
+  const lines: ExpenseLine[] = []
+  if (propertyTax > 0) {
+    lines.push({
+      id: `${unit.id}-propertyTax`,
+      site: unit.site,
+      category: 'propertyTax',
+      label: '재산세(건물분+토지분)',
+      monthlyAmount: propertyTax / 12,
+      source: 'sheet',
+    })
+  }
+  if (trafficCharge > 0) {
+    lines.push({
+      id: `${unit.id}-trafficCharge`,
+      site: unit.site,
+      category: 'trafficCharge',
+      label: '교통유발부담금',
+      monthlyAmount: trafficCharge / 12,
+      source: 'sheet',
+    })
+  }
+  return lines
+}
+
+function monthlyExpenseAmount(expense: Expense, unit: PortfolioUnit | null, today: Date): number {
+  if (expense.vacancyOnly && (!unit || !isVacant(unit))) return 0
+  if (expense.frequency === 'monthly') return expense.amount
+  if (expense.frequency === 'annual') return expense.amount / 12
+
+  const paid = parseSheetDate(expense.date)?.date ?? null
+  if (!paid) return 0
+  const until = new Date(
+    paid.getFullYear(),
+    paid.getMonth() + ONE_OFF_AMORTIZATION_MONTHS,
+    paid.getDate(),
+  )
+  return paid <= today && today < until ? expense.amount / ONE_OFF_AMORTIZATION_MONTHS : 0
+}
+
+export function expenseLines(
+  units: PortfolioUnit[],
+  expenses: Expense[],
+  today = new Date(),
+): ExpenseLine[] {
+  const unitsBySite = new Map(units.map((unit) => [normalizeSite(unit.site), unit]))
+  const manual = expenses.flatMap((expense) => {
+    const unit = expense.site ? unitsBySite.get(normalizeSite(expense.site)) : null
+    // Expenses for a unit that is no longer in the sheet are kept but not counted.
+    if (expense.site && !unit) return []
+    return [
+      {
+        id: expense.id,
+        site: unit?.site ?? null,
+        category: expense.category,
+        label: expense.label || EXPENSE_CATEGORY_LABELS[expense.category],
+        monthlyAmount: monthlyExpenseAmount(expense, unit ?? null, today),
+        source: 'manual' as const,
+      },
+    ]
+  })
+  return [...units.flatMap(sheetExpenseLines), ...manual]
+}
+
+export function summarizeOperations(
+  units: PortfolioUnit[],
+  summary: PortfolioSummary,
+  expenses: Expense[],
+  today = new Date(),
+): OperatingSummary {
+  const lines = expenseLines(units, expenses, today)
+  const byCategory = Object.fromEntries(
+    Object.keys(EXPENSE_CATEGORY_LABELS).map((category) => [
+      category,
+      lines
+        .filter((line) => line.category === category)
+        .reduce((acc, line) => acc + line.monthlyAmount, 0),
+    ]),
+  ) as Record<ExpenseCategory, number>
+
+  const unitRows = units.map((unit) => {
+    const monthlyExpenses = lines
+      .filter((line) => line.site === unit.site)
+      .reduce((acc, line) => acc + line.monthlyAmount, 0)
+    const { equity } = unitCashflow(unit)
+    const monthlyNetOperatingIncome = (unit.monthlyRent ?? 0) - monthlyExpenses
+    const monthlyNetCashflowAfterExpenses = monthlyNetOperatingIncome - (unit.monthlyInterest ?? 0)
+    return {
+      unit,
+      monthlyExpenses,
+      monthlyNetOperatingIncome,
+      monthlyNetCashflowAfterExpenses,
+      annualReturnOnEquityAfterExpenses:
+        equity > 0 ? (monthlyNetCashflowAfterExpenses * 12) / equity : null,
+    }
+  })
+
+  const monthlyExpenses = lines.reduce((acc, line) => acc + line.monthlyAmount, 0)
+  const monthlyNetOperatingIncome = summary.monthlyRentIncome - monthlyExpenses
+  const monthlyNetCashflowAfterExpenses = monthlyNetOperatingIncome - summary.monthlyInterestCost
+
+  return {
+    lines,
+    units: unitRows,
+    byCategory,
+    sharedMonthlyExpenses: lines
+      .filter((line) => line.site === null)
+      .reduce((acc, line) => acc + line.monthlyAmount, 0),
+    monthlyExpenses,
+    monthlyNetOperatingIncome,
+    annualNetOperatingIncome: monthlyNetOperatingIncome * 12,
+    monthlyNetCashflowAfterExpenses,
+    annualNetCashflowAfterExpenses: monthlyNetCashflowAfterExpenses * 12,
+    annualReturnOnEquityAfterExpenses:
+      summary.totalEquity > 0 ? (monthlyNetCashflowAfterExpenses * 12) / summary.totalEquity : null,
+  }
+}
+
+export function normalizeExpenses(value: unknown): Expense[] {
+  if (!Array.isArray(value)) return []
+  return value.flatMap((item) => {
+    if (!item || typeof item !== 'object') return []
+    const expense = item as Partial<Expense>
+    if (
+      typeof expense.id !== 'string' ||
+      typeof expense.amount !== 'number' ||
+      !Number.isFinite(expense.amount) ||
+      !MANUAL_EXPENSE_CATEGORIES.includes(expense.category as ExpenseCategory) ||
+      !(expense.frequency && expense.frequency in EXPENSE_FREQUENCY_LABELS)
+    ) {
+      return []
+    }
+    return [
+      {
+        id: expense.id,
+        site: typeof expense.site === 'string' ? expense.site : null,
+        category: expense.category as ExpenseCategory,
+        label: typeof expense.label === 'string' ? expense.label : '',
+        amount: expense.amount,
+        frequency: expense.frequency,
+        date: typeof expense.date === 'string' ? expense.date : null,
+        vacancyOnly: expense.vacancyOnly === true,
+      },
+    ]
+  })
+}
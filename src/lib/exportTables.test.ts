@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { parseCsv } from './csv'
+import { downloadFile } from './download'
+import { downloadTables, tablesToCsv, unitExportTable, type ExportTable } from './exportTables'
+import { makeUnit } from './testUnits'
+
+vi.mock('./download', () => ({ downloadFile: vi.fn() }))
+
+const units: ExportTable = {
+  name: '호실',
+  headers: ['현장', '월세'],
+  formats: ['text', 'integer'],
+  rows: [['문래 SKv1 712호', 1_200_000]],
+}
+const scenarios: ExportTable = {
+  name: '시나리오',
+  headers: ['LTV', '월순현금흐름'],
+  formats: ['text', 'integer'],
+  rows: [['70%', -150_000]],
+}
+
+afterEach(() => {
+  vi.mocked(downloadFile).mockClear()
+})
+
+describe('tablesToCsv', () => {
+  it('writes a single table with a BOM and no title row', () => {
+    const csv = tablesToCsv([units])
+    expect(csv.startsWith('﻿')).toBe(true)
+    expect(parseCsv(csv)).toEqual([
+      ['현장', '월세'],
+      ['문래 SKv1 712호', '1200000'],
+    ])
+  })
+
+  it('bundles several tables into one file separated by name rows', () => {
+    expect(parseCsv(tablesToCsv([units, scenarios]))).toEqual([
+      ['호실'],
+      ['현장', '월세'],
+      ['문래 SKv1 712호', '1200000'],
+      [''],
+      ['시나리오'],
+      ['LTV', '월순현금흐름'],
+      ['70%', '-150000'],
+    ])
+  })
+
+  it('quotes text that a spreadsheet would run as a formula', () => {
+    const table: ExportTable = {
+      name: '호실',
+      headers: ['비고'],
+      formats: ['text'],
+      rows: [['=HYPERLINK("http://x")'], ['+1'], ['-A1'], ['@SUM(A1)'], ['월세 = 100']],
+    }
+    expect(parseCsv(tablesToCsv([table])).map(([cell]) => cell)).toEqual([
+      '비고',
+      '\'=HYPERLINK("http://x")',
+      "'+1",
+      "'-A1",
+      "'@SUM(A1)",
+      '월세 = 100',
+    ])
+  })
+
+  it('leaves negative numbers as numbers', () => {
+    const [, row] = parseCsv(tablesToCsv([scenarios]))
+    expect(row[1]).toBe('-150000')
+  })
+
+  it('escapes formulas coming from sheet text in the unit table', () => {
+    const table = unitExportTable([makeUnit({ site: '문래 SKv1 712호', note: '=1+1' })])
+    const [headers, row] = parseCsv(tablesToCsv([table]))
+    expect(row[headers.indexOf('비고')]).toBe("'=1+1")
+  })
+})
+
+describe('downloadTables', () => {
+  it('downloads several tables as one CSV file', () => {
+    downloadTables('portfolio', [units, scenarios], 'csv')
+    expect(downloadFile).toHaveBeenCalledTimes(1)
+    const [filename, content, type] = vi.mocked(downloadFile).mock.calls[0]
+    expect(filename).toMatch(/^portfolio-\d{8}\.csv$/)
+    expect(content).toBe(tablesToCsv([units, scenarios]))
+    expect(type).toBe('text/csv;charset=utf-8')
+  })
+
+  it('writes one XLSX sheet per table', () => {
+    downloadTables('portfolio', [units, scenarios], 'xlsx')
+    expect(downloadFile).toHaveBeenCalledTimes(1)
+    const [filename, content] = vi.mocked(downloadFile).mock.calls[0]
+    expect(filename).toMatch(/^portfolio-\d{8}\.xlsx$/)
+    // The archive is stored uncompressed, so the workbook XML is readable in the bytes.
+    const text = new TextDecoder().decode(content as Uint8Array<ArrayBuffer>)
+    expect(text).toContain('<sheet name="호실" sheetId="1"')
+    expect(text).toContain('<sheet name="시나리오" sheetId="2"')
+    expect(text).toContain('xl/worksheets/sheet2.xml')
+  })
+})
@@ -0,0 +1,190 @@
+import { toCsv } from './csv'
+import { formatSheetDate } from './dates'
+import { downloadFile } from './download'
+import {
+  unitCashflow,
+  type LoanSummary,
+  type PortfolioSummary,
+  type PortfolioUnit,
+  type TaxSummary,
+} from './portfolio'
+import type { UnitScenario } from './unitScenario'
+import {
+  writeXlsxWorkbook,
+  type XlsxCellValue,
+  type XlsxColumnFormat,
+  type XlsxOutputSheet,
+} from './xlsx'
+
+export type ExportTable = {
+  name: string
+  headers: string[]
+  formats: XlsxColumnFormat[]
+  rows: XlsxCellValue[][]
+}
+
+export type ExportFormat = 'csv' | 'xlsx'
+
+type ExportColumn<T> = {
+  header: string
+  format: XlsxColumnFormat
+  value: (item: T) => XlsxCellValue
+}
+
+function buildTable<T>(name: string, columns: ExportColumn<T>[], items: T[]): ExportTable {
+  return {
+    name,
+    headers: columns.map((column) => column.header),
+    formats: columns.map((column) => column.format),
+    rows: items.map((item) => columns.map((column) => column.value(item))),
+  }
+}
+
+function ratio(numerator: number | null, denominator: number | null): number | null {
+  return numerator !== null && denominator ? numerator / denominator : null
+}
+
+const UNIT_COLUMNS: ExportColumn<PortfolioUnit>[] = [
+  { header: '현장', format: 'text', value: (unit) => unit.site },
+  { header: '명의', format: 'text', value: (unit) => unit.ownership },
+  { header: '실입주', format: 'text', value: (unit) => unit.tenantStatus },
+  { header: '사업자등록번호', format: 'text', value: (unit) => unit.businessNumber },
+  { header: '공급금액', format: 'integer', value: (unit) => unit.supplyPrice },
+  { header: '대출금', format: 'integer', value: (unit) => unit.loanAmount },
+  { header: 'LTV', format: 'percent', value: (unit) => ratio(unit.loanAmount, unit.supplyPrice) },
+  { header: '이율', format: 'percent', value: (unit) => unit.interestRate },
+  { header: '월 이자', format: 'integer', value: (unit) => unit.monthlyInterest },
+  { header: '월세', format: 'integer', value: (unit) => unit.monthlyRent },
+  { header: '보증금', format: 'integer', value: (unit) => unit.deposit },
+  { header: '월 순현금흐름', format: 'integer', value: (unit) => unitCashflow(unit).monthlyNet },
+  { header: '자기자본', format: 'integer', value: (unit) => unitCashflow(unit).equity },
+  {
+    header: '연 ROE',
+    format: 'percent',
+    value: (unit) => unitCashflow(unit).annualReturnOnEquity,
+  },
+  { header: '재산세(건물분)', format: 'integer', value: (unit) => unit.buildingTax },
+  { header: '재산세(토지분)', format: 'integer', value: (unit) => unit.landTax },
+  { header: '교통유발부담금', format: 'integer', value: (unit) => unit.trafficInducementCharge },
+  {
+    header: '연 세금 합계',
+    format: 'integer',
+    value: (unit) =>
+      (unit.buildingTax ?? 0) + (unit.landTax ?? 0) + (unit.trafficInducementCharge ?? 0),
+  },
+  {
+    header: '계약갱신',
+    format: 'text',
+    value: (unit) =>
+      unit.contractRenewal ? formatSheetDate(unit.contractRenewal) : unit.contractRenewalRaw,
+  },
+  {
+    header: '대출갱신',
+    format: 'text',
+    value: (unit) => (unit.loanRenewal ? formatSheetDate(unit.loanRenewal) : unit.loanRenewalRaw),
+  },
+  { header: '비고', format: 'text', value: (unit) => unit.note },
+]
+
+const SCENARIO_COLUMNS: ExportColumn<UnitScenario>[] = [
+  { header: 'LTV', format: 'text', value: (scenario) => scenario.ltv },
+  { header: '대출금액', format: 'integer', value: (scenario) => scenario.loanAmount },
+  { header: '자기자본', format: 'integer', value: (scenario) => scenario.equity },
+  { header: '보증금', format: 'integer', value: (scenario) => scenario.deposit },
+  { header: '고정비', format: 'integer', value: (scenario) => scenario.fixedCost },
+  { header: '총투입자본', format: 'integer', value: (scenario) => scenario.investedTotal },
+  { header: '월세', format: 'integer', value: (scenario) => scenario.monthlyRent },
+  { header: '월이자', format: 'integer', value: (scenario) => scenario.monthlyInterest },
+  { header: '월순현금흐름', format: 'integer', value: (scenario) => scenario.monthlyNet },
+  { header: '월수익률', format: 'percent', value: (scenario) => scenario.monthlyRoi },
+  { header: '연수익', format: 'integer', value: (scenario) => scenario.annualProfit },
+  { header: '연수익률', format: 'percent', value: (scenario) => scenario.annualRoi },
+]
+
+export function unitExportTable(units: PortfolioUnit[], name = '호실'): ExportTable {
+  return buildTable(name, UNIT_COLUMNS, units)
+}
+
+export function scenarioExportTable(scenarios: UnitScenario[], name = '시나리오'): ExportTable {
+  return buildTable(name, SCENARIO_COLUMNS, scenarios)
+}
+
+export function summaryExportTable(
+  summary: PortfolioSummary,
+  taxes: TaxSummary,
+  loans: LoanSummary,
+  name = '요약',
+): ExportTable {
+  const entries: Array<[string, number | null, XlsxColumnFormat]> = [
+    ['보유 호실', summary.totalUnits, 'integer'],
+    ['임대/운영 중 호실', summary.leasedUnits, 'integer'],
+    ['총 공급금액', summary.totalSupplyPrice, 'integer'],
+    ['총 대출금', summary.totalLoanAmount, 'integer'],
+    ['자기자본', summary.totalEquity, 'integer'],
+    ['LTV', summary.loanToValue, 'percent'],
+    ['평균 대출이율(가중)', summary.avgInterestRate, 'percent'],
+    ['월 임대수입', summary.monthlyRentIncome, 'integer'],
+    ['월 대출이자', summary.monthlyInterestCost, 'integer'],
+    ['월 순현금흐름', summary.monthlyNetCashflow, 'integer'],
+    ['연 순현금흐름', summary.annualNetCashflow, 'integer'],
+    ['연 자기자본수익률(ROE)', summary.annualReturnOnEquity, 'percent'],
+    ['재산세(건물분)', taxes.buildingTaxTotal, 'integer'],
+    ['재산세(토지분)', taxes.landTaxTotal, 'integer'],
+    ['교통유발부담금', taxes.trafficChargeTotal, 'integer'],
+    ['연간 세금 총합', taxes.annualTaxTotal, 'integer'],
+    ['현재 대출 잔액', loans.outstandingBalance, 'integer'],
+    ['1년 후 대출 잔액', loans.balanceInOneYear, 'integer'],
+    ['상환 원금 누계', loans.principalRepaidToDate, 'integer'],
+    ['월 원리금 납입액', loans.monthlyDebtService, 'integer'],
+  ]
+
+  return {
+    name,
+    headers: ['항목', '금액·개수', '비율'],
+    formats: ['text', 'integer', 'percent'],
+    rows: entries.map(([label, value, format]) =>
+      format === 'percent' ? [label, null, value] : [label, value, null],
+    ),
+  }
+}
+
+function toSheet(table: ExportTable): XlsxOutputSheet {
+  return { name: table.name, formats: table.formats, rows: [table.headers, ...table.rows] }
+}
+
+function exportFilename(baseName: string, extension: string, today = new Date()): string {
+  const month = String(today.getMonth() + 1).padStart(2, '0')
+  const day = String(today.getDate()).padStart(2, '0')
+  return `${baseName}-${today.getFullYear()}${month}${day}.${extension}`
+}
+
+// Spreadsheet apps run text starting with these characters as a formula, so quote it as text.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function csvCell(value: XlsxCellValue): XlsxCellValue {
+  return typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : value
+}
+
+// Several tables share one file: each starts with its name row and is separated by a blank line.
+export function tablesToCsv(tables: ExportTable[]): string {
+  const rows = tables.flatMap((table, index) => {
+    const body = [table.headers, ...table.rows].map((row) => row.map(csvCell))
+    if (tables.length === 1) return body
+    return [...(index > 0 ? [[]] : []), [csvCell(table.name)], ...body]
+  })
+  // The BOM makes Excel open the UTF-8 file with Korean text intact.
+  return `\uFEFF${toCsv(rows)}`
+}
+
+export function downloadTables(baseName: string, tables: ExportTable[], format: ExportFormat) {
+  if (format === 'xlsx') {
+    downloadFile(
+      exportFilename(baseName, 'xlsx'),
+      writeXlsxWorkbook(tables.map(toSheet)),
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    )
+    return
+  }
+
+  downloadFile(exportFilename(baseName, 'csv'), tablesToCsv(tables), 'text/csv;charset=utf-8')
+}
@@ -0,0 +1,142 @@
+import { addMonths, sheetDateDue } from './dates'
+import { monthsBetween } from './loan'
+import type { PortfolioUnit } from './portfolio'
+
+export type LeaseRegion = 'seoul' | 'overcrowded' | 'metropolitan' | 'other'
+
+export type Lease = {
+  tenant: string
+  start: Date | null
+  end: Date | null
+  deposit: number | null
+  monthlyRent: number | null
+  vatIncluded: boolean | null
+  renewalRightUntil: Date | null
+}
+
+export type LeaseRenewal = {
+  date: Date
+  renewalRight: boolean | null
+  maxMonthlyRent: number | null
+  maxDeposit: number | null
+}
+
+export type LeaseAnalysis = {
+  netMonthlyRent: number | null
+  grossMonthlyRent: number | null
+  convertedDeposit: number | null
+  threshold: number
+  capApplies: boolean
+  termMonths: number
+  renewals: LeaseRenewal[]
+}
+
+// Commercial Building Lease Protection Act: a renewal may raise rent and deposit by at most 5%,
+// and the tenant's renewal right lasts 10 years from the first contract.
+export const RENT_INCREASE_CAP = 0.05
+export const RENEWAL_RIGHT_YEARS = 10
+export const DEFAULT_LEASE_TERM_MONTHS = 24
+export const LEASE_PROJECTION_YEARS = 10
+const MAX_SINGLE_TERM_MONTHS = 36
+const VAT_RATE = 0.1
+
+export const LEASE_REGION_LABELS: Record<LeaseRegion, string> = {
+  seoul: '서울특별시',
+  overcrowded: '과밀억제권역·부산',
+  metropolitan: '광역시·세종·경기 일부',
+  other: '그 밖의 지역',
+}
+
+// Converted-deposit thresholds from Article 2 of the Enforcement Decree; leases above them
+// are not bound by the 5% cap.
+export const PROTECTED_DEPOSIT_THRESHOLDS: Record<LeaseRegion, number> = {
+  seoul: 900_000_000,
+  overcrowded: 690_000_000,
+  metropolitan: 540_000_000,
+  other: 370_000_000,
+}
+
+export function parseVatIncluded(raw: string): boolean | null {
+  const value = raw.replace(/\s+/g, '').toLowerCase()
+  if (!value) return null
+  if (/별도|미포함|제외|excl|^n$|^x$/.test(value)) return false
+  if (/포함|incl|^y$|^o$/.test(value)) return true
+  return null
+}
+
+export function buildLease(
+  unit: PortfolioUnit | null,
+  fallback: { deposit: number | null; monthlyRent: number | null } | null,
+): Lease {
+  const start = unit?.leaseStart?.date ?? null
+  return {
+    tenant: unit?.tenantName ?? '',
+    start,
+    end: unit?.contractRenewal ? sheetDateDue(unit.contractRenewal) : null,
+    deposit: unit?.deposit ?? fallback?.deposit ?? null,
+    monthlyRent: unit?.monthlyRent || fallback?.monthlyRent || null,
+    vatIncluded: unit?.vatIncluded ?? null,
+    renewalRightUntil: start ? addMonths(start, RENEWAL_RIGHT_YEARS * 12) : null,
+  }
+}
+
+function projectRenewals(
+  lease: Lease,
+  capApplies: boolean,
+  termMonths: number,
+  today: Date,
+): LeaseRenewal[] {
+  if (!lease.end) return []
+
+  const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate())
+  const horizon = addMonths(startOfToday, LEASE_PROJECTION_YEARS * 12)
+  // A renewal date already behind us is treated as renewed on the same terms.
+  let date = lease.end
+  while (date < startOfToday) date = addMonths(date, termMonths)
+
+  const renewals: LeaseRenewal[] = []
+  let rent = lease.monthlyRent
+  let deposit = lease.deposit
+  while (date <= horizon) {
+    const renewalRight = lease.renewalRightUntil ? date < lease.renewalRightUntil : null
+    if (renewalRight === false) {
+      renewals.push({ date, renewalRight, maxMonthlyRent: null, maxDeposit: null })
+      break
+    }
+    rent = capApplies && rent !== null ? rent * (1 + RENT_INCREASE_CAP) : null
+    deposit = capApplies && deposit !== null ? deposit * (1 + RENT_INCREASE_CAP) : null
+    renewals.push({ date, renewalRight, maxMonthlyRent: rent, maxDeposit: deposit })
+    date = addMonths(date, termMonths)
+  }
+  return renewals
+}
+
+export function analyzeLease(lease: Lease, region: LeaseRegion, today = new Date()): LeaseAnalysis {
+  const rent = lease.monthlyRent
+  const netMonthlyRent = rent === null ? null : lease.vatIncluded ? rent / (1 + VAT_RATE) : rent
+  const convertedDeposit =
+    netMonthlyRent === null && lease.deposit === null
+      ? null
+      : (lease.deposit ?? 0) + (netMonthlyRent ?? 0) * 100
+  const threshold = PROTECTED_DEPOSIT_THRESHOLDS[region]
+  const capApplies = convertedDeposit === null || convertedDeposit <= threshold
+  // A start-to-end span longer than one term means the lease was already renewed since then.
+  const contractMonths = lease.start && lease.end ? monthsBetween(lease.start, lease.end) : 0
+  const termMonths =
+    contractMonths >= 12 && contractMonths <= MAX_SINGLE_TERM_MONTHS
+      ? contractMonths
+      : DEFAULT_LEASE_TERM_MONTHS
+
+  return {
+    netMonthlyRent,
+    grossMonthlyRent:
+      netMonthlyRent === null || lease.vatIncluded === null
+        ? null
+        : netMonthlyRent * (1 + VAT_RATE),
+    convertedDeposit,
+    threshold,
+    capApplies,
+    termMonths,
+    renewals: projectRenewals(lease, capApplies, termMonths, today),
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildAmortizationSchedule,
+  equalPaymentAmount,
+  monthsBetween,
+  parseLoanTermMonths,
+  parseRepaymentType,
+  type LoanTerms,
+} from './loan'
+
+const terms: LoanTerms = {
+  principal: 120_000_000,
+  annualRate: 0.048,
+  termMonths: 12,
+  repaymentType: 'equalPrincipal',
+  startDate: new Date(2025, 0, 31),
+}
+
+describe('buildAmortizationSchedule', () => {
+  it('falls due once a month even when the loan starts on the 31st', () => {
+    const dates = buildAmortizationSchedule(terms)
+      .slice(0, 5)
+      .map((row) => row.date)
+    expect(dates).toEqual([
+      new Date(2025, 1, 28),
+      new Date(2025, 2, 31),
+      new Date(2025, 3, 30),
+      new Date(2025, 4, 31),
+      new Date(2025, 5, 30),
+    ])
+  })
+
+  it('repays equal principal and interest on the remaining balance', () => {
+    const schedule = buildAmortizationSchedule(terms)
+    expect(schedule).toHaveLength(12)
+    expect(schedule[0].principal).toBeCloseTo(10_000_000)
+    expect(schedule[0].interest).toBeCloseTo(480_000)
+    expect(schedule[1].interest).toBeCloseTo(440_000)
+    expect(schedule.at(-1)?.balance).toBe(0)
+  })
+
+  it('keeps the payment level for equal payments', () => {
+    const schedule = buildAmortizationSchedule({ ...terms, repaymentType: 'equalPayment' })
+    const payment = equalPaymentAmount(terms.principal, terms.annualRate / 12, 12)
+    for (const row of schedule) expect(row.payment).toBeCloseTo(payment)
+    expect(schedule.at(-1)?.balance).toBeCloseTo(0)
+  })
+
+  it('repays an interest-only loan at maturity', () => {
+    const schedule = buildAmortizationSchedule({ ...terms, repaymentType: 'interestOnly' })
+    expect(schedule[0].principal).toBe(0)
+    expect(schedule[5].balance).toBe(terms.principal)
+    expect(schedule.at(-1)?.principal).toBe(terms.principal)
+  })
+})
+
+describe('monthsBetween', () => {
+  it('counts a month as passed on the clamped due date', () => {
+    expect(monthsBetween(new Date(2025, 0, 31), new Date(2025, 1, 27))).toBe(0)
+    expect(monthsBetween(new Date(2025, 0, 31), new Date(2025, 1, 28))).toBe(1)
+    expect(monthsBetween(new Date(2025, 0, 31), new Date(2025, 2, 30))).toBe(1)
+    expect(monthsBetween(new Date(2025, 0, 15), new Date(2026, 0, 15))).toBe(12)
+  })
+})
+
+describe('loan field parsing', () => {
+  it('reads repayment types and terms written in the sheet', () => {
+    expect(parseRepaymentType('원리금 균등')).toBe('equalPayment')
+    expect(parseRepaymentType('원금균등')).toBe('equalPrincipal')
+    expect(parseRepaymentType('만기일시')).toBe('interestOnly')
+    expect(parseRepaymentType('')).toBeNull()
+    expect(parseLoanTermMonths('3년')).toBe(36)
+    expect(parseLoanTermMonths('18개월')).toBe(18)
+    expect(parseLoanTermMonths('없음')).toBeNull()
+  })
+})
@@ -0,0 +1,97 @@
+import { addMonths, daysInMonth } from './dates'
+
+export type RepaymentType = 'interestOnly' | 'equalPayment' | 'equalPrincipal'
+
+export const REPAYMENT_TYPE_LABELS: Record<RepaymentType, string> = {
+  interestOnly: '만기일시(이자만)',
+  equalPayment: '원리금균등',
+  equalPrincipal: '원금균등',
+}
+
+export type LoanTerms = {
+  principal: number
+  annualRate: number
+  termMonths: number
+  repaymentType: RepaymentType
+  startDate: Date | null
+}
+
+export type AmortizationRow = {
+  month: number
+  date: Date | null
+  payment: number
+  principal: number
+  interest: number
+  balance: number
+}
+
+export const DEFAULT_LOAN_TERM_MONTHS = 36
+
+export function parseRepaymentType(raw: string): RepaymentType | null {
+  const value = raw.replace(/\s+/g, '')
+  if (!value) return null
+  if (value.includes('원리금')) return 'equalPayment'
+  if (value.includes('원금')) return 'equalPrincipal'
+  if (/만기|일시|거치|이자/.test(value)) return 'interestOnly'
+  return null
+}
+
+export function parseLoanTermMonths(raw: string): number | null {
+  const match = raw.match(/(\d+(?:\.\d+)?)\s*(년|개월|月|y|m)?/i)
+  if (!match) return null
+  const amount = Number(match[1])
+  if (!Number.isFinite(amount) || amount <= 0) return null
+  const unit = (match[2] ?? '').toLowerCase()
+  return unit === '년' || unit === 'y' ? Math.round(amount * 12) : Math.round(amount)
+}
+
+export function monthsBetween(start: Date, end: Date): number {
+  const months = (end.getFullYear() - start.getFullYear()) * 12 + end.getMonth() - start.getMonth()
+  // Matches addMonths: a start on the 31st falls due on the last day of shorter months.
+  const dueDay = Math.min(start.getDate(), daysInMonth(end.getFullYear(), end.getMonth()))
+  return end.getDate() < dueDay ? months - 1 : months
+}
+
+export function equalPaymentAmount(principal: number, monthlyRate: number, months: number): number {
+  if (months <= 0) return principal
+  if (monthlyRate === 0) return principal / months
+  return (principal * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -months))
+}
+
+export function buildAmortizationSchedule(terms: LoanTerms): AmortizationRow[] {
+  const months = Math.max(0, Math.round(terms.termMonths))
+  const monthlyRate = terms.annualRate / 12
+  const fixedPayment = equalPaymentAmount(terms.principal, monthlyRate, months)
+  const rows: AmortizationRow[] = []
+  let balance = terms.principal
+
+  for (let month = 1; month <= months; month++) {
+    const interest = balance * monthlyRate
+    let principal: number
+    if (terms.repaymentType === 'equalPayment') {
+      principal = fixedPayment - interest
+    } else if (terms.repaymentType === 'equalPrincipal') {
+      principal = terms.principal / months
+    } else {
+      principal = month === months ? balance : 0
+    }
+    if (month === months) principal = balance
+
+    balance = Math.max(0, balance - principal)
+    rows.push({
+      month,
+      date: terms.startDate ? addMonths(terms.startDate, month) : null,
+      payment: principal + interest,
+      principal,
+      interest,
+      balance,
+    })
+  }
+
+  return rows
+}
+
+export function outstandingBalanceAfter(schedule: AmortizationRow[], principal: number, months: number) {
+  if (months <= 0 || schedule.length === 0) return principal
+  return schedule[Math.min(months, schedule.length) - 1].balance
+}
@@ -0,0 +1,50 @@
+const DB_NAME = 'realestate-dashboard'
+const DB_VERSION = 3
+
+export const SHEET_CACHE_STORE = 'sheetCache'
+export const SNAPSHOT_STORE = 'snapshots'
+export const PAYMENT_STORE = 'payments'
+
+const STORE_NAMES = [SHEET_CACHE_STORE, SNAPSHOT_STORE, PAYMENT_STORE]
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB를 사용할 수 없습니다.'))
+        return
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        for (const storeName of STORE_NAMES) {
+          if (!request.result.objectStoreNames.contains(storeName)) {
+            request.result.createObjectStore(storeName, { keyPath: 'key' })
+          }
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    databasePromise.catch(() => {
+      databasePromise = null
+    })
+  }
+  return databasePromise
+}
+
+export function runStoreRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operate: (store: IDBObjectStore) => IDBRequest,
+) {
+  return openDatabase().then(
+    (database) =>
+      new Promise<T>((resolve, reject) => {
+        const request = operate(database.transaction(storeName, mode).objectStore(storeName))
+        request.onsuccess = () => resolve(request.result as T)
+        request.onerror = () => reject(request.error)
+      }),
+  )
+}
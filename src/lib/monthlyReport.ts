@@ -0,0 +1,219 @@
+import { DEFAULT_ALERT_RULES, evaluateAlerts, type PortfolioAlert } from './alerts'
+import { PROPERTY_TAX_DUE_DATES } from './calendar'
+import {
+  summarizePortfolio,
+  summarizeTaxes,
+  unitCashflow,
+  type PortfolioSummary,
+  type PortfolioUnit,
+  type TaxSummary,
+} from './portfolio'
+import type { PortfolioSnapshot, UnitSnapshot } from './snapshots'
+import { estimateBusinessTaxes, upcomingTaxFilings } from './taxEstimator'
+
+export type ReportMonth = { year: number; month: number }
+
+export type ReportValueKind = 'count' | 'currency' | 'percent'
+
+export type ReportUnitRow = {
+  unit: PortfolioUnit
+  monthlyNet: number
+  annualReturnOnEquity: number | null
+}
+
+export type ReportObligation = {
+  id: string
+  dueDate: Date
+  title: string
+  detail: string
+  amount: number
+}
+
+export type ReportChange = {
+  id: string
+  subject: string
+  label: string
+  kind: ReportValueKind
+  from: number | null
+  to: number | null
+}
+
+export type MonthlyReport = {
+  month: ReportMonth
+  periodStart: Date
+  periodEnd: Date
+  summary: PortfolioSummary
+  taxes: TaxSummary
+  units: ReportUnitRow[]
+  renewals: PortfolioAlert[]
+  obligations: ReportObligation[]
+  baseline: PortfolioSnapshot | null
+  latest: PortfolioSnapshot | null
+  changes: ReportChange[]
+  addedSites: string[]
+  removedSites: string[]
+}
+
+const RENEWAL_KINDS = new Set<PortfolioAlert['kind']>([
+  'contractRenewal',
+  'loanRenewal',
+  'missingDate',
+])
+
+const SUMMARY_CHANGES: Array<{
+  key: keyof PortfolioSummary
+  label: string
+  kind: ReportValueKind
+}> = [
+  { key: 'totalUnits', label: '보유 호실', kind: 'count' },
+  { key: 'totalLoanAmount', label: '총 대출금', kind: 'currency' },
+  { key: 'avgInterestRate', label: '평균 대출이율', kind: 'percent' },
+  { key: 'monthlyRentIncome', label: '월 임대수입', kind: 'currency' },
+  { key: 'monthlyInterestCost', label: '월 대출이자', kind: 'currency' },
+  { key: 'monthlyNetCashflow', label: '월 순현금흐름', kind: 'currency' },
+  { key: 'annualReturnOnEquity', label: '연 ROE', kind: 'percent' },
+]
+
+const UNIT_CHANGES: Array<{ key: keyof UnitSnapshot; label: string; kind: ReportValueKind }> = [
+  { key: 'monthlyRent', label: '월세', kind: 'currency' },
+  { key: 'loanAmount', label: '대출금', kind: 'currency' },
+  { key: 'interestRate', label: '이율', kind: 'percent' },
+]
+
+export function parseReportMonth(value: string): ReportMonth | null {
+  const match = value.match(/^(\d{4})-(0[1-9]|1[0-2])$/)
+  return match ? { year: Number(match[1]), month: Number(match[2]) } : null
+}
+
+export function reportMonthKey({ year, month }: ReportMonth): string {
+  return `${year}-${String(month).padStart(2, '0')}`
+}
+
+export function reportMonthOf(date: Date): ReportMonth {
+  return { year: date.getFullYear(), month: date.getMonth() + 1 }
+}
+
+export function shiftReportMonth({ year, month }: ReportMonth, offset: number): ReportMonth {
+  return reportMonthOf(new Date(year, month - 1 + offset, 1))
+}
+
+export function reportPath(month: ReportMonth): string {
+  return `/report/${reportMonthKey(month)}`
+}
+
+function isChanged(from: number | null, to: number | null, kind: ReportValueKind): boolean {
+  if (from === null || to === null) return from !== to
+  return Math.abs(to - from) >= (kind === 'percent' ? 0.00005 : 0.5)
+}
+
+function monthlyObligations(
+  units: PortfolioUnit[],
+  periodStart: Date,
+  periodEnd: Date,
+): ReportObligation[] {
+  const filings = upcomingTaxFilings(estimateBusinessTaxes(units), periodStart, 1).map(
+    (filing) => ({
+      id: filing.id,
+      dueDate: filing.dueDate,
+      title: `${filing.kind} · ${filing.businessNumber}`,
+      detail: filing.periodLabel,
+      amount: filing.amount,
+    }),
+  )
+
+  const propertyTaxes = PROPERTY_TAX_DUE_DATES.filter(
+    (due) => due.month === periodStart.getMonth(),
+  ).flatMap((due) => {
+    const amount = units.reduce((acc, unit) => acc + (unit[due.field] ?? 0), 0)
+    if (amount <= 0) return []
+    return [
+      {
+        id: `property-tax-${due.field}`,
+        dueDate: new Date(periodStart.getFullYear(), due.month, due.day),
+        title: due.label,
+        detail: `${units.filter((unit) => (unit[due.field] ?? 0) > 0).length}개 호실 합계`,
+        amount,
+      },
+    ]
+  })
+
+  return [...filings, ...propertyTaxes]
+    .filter((item) => item.dueDate >= periodStart && item.dueDate <= periodEnd)
+    .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime())
+}
+
+function snapshotChanges(
+  baseline: PortfolioSnapshot,
+  latest: PortfolioSnapshot,
+): Pick<MonthlyReport, 'changes' | 'addedSites' | 'removedSites'> {
+  const changes: ReportChange[] = SUMMARY_CHANGES.filter(({ key, kind }) =>
+    isChanged(baseline.summary[key], latest.summary[key], kind),
+  ).map(({ key, label, kind }) => ({
+    id: `summary-${key}`,
+    subject: '포트폴리오',
+    label,
+    kind,
+    from: baseline.summary[key],
+    to: latest.summary[key],
+  }))
+
+  const baselineUnits = new Map(baseline.units.map((unit) => [unit.site, unit]))
+  const latestSites = new Set(latest.units.map((unit) => unit.site))
+
+  for (const unit of latest.units) {
+    const previous = baselineUnits.get(unit.site)
+    if (!previous) continue
+    for (const { key, label, kind } of UNIT_CHANGES) {
+      const from = previous[key] as number | null
+      const to = unit[key] as number | null
+      if (isChanged(from, to, kind)) {
+        changes.push({ id: `${unit.site}-${key}`, subject: unit.site, label, kind, from, to })
+      }
+    }
+  }
+
+  return {
+    changes,
+    addedSites: latest.units
+      .filter((unit) => !baselineUnits.has(unit.site))
+      .map((unit) => unit.site),
+    removedSites: baseline.units
+      .filter((unit) => !latestSites.has(unit.site))
+      .map((unit) => unit.site),
+  }
+}
+
+export function buildMonthlyReport(
+  units: PortfolioUnit[],
+  snapshots: PortfolioSnapshot[],
+  month: ReportMonth,
+): MonthlyReport {
+  const periodStart = new Date(month.year, month.month - 1, 1)
+  const periodEnd = new Date(month.year, month.month, 0)
+  const key = reportMonthKey(month)
+
+  // Snapshots are sorted by date; compare the last one of the month with the last one before it.
+  const baseline = snapshots.filter((snapshot) => snapshot.date < `${key}-01`).at(-1) ?? null
+  const latest = snapshots.filter((snapshot) => snapshot.date.startsWith(key)).at(-1) ?? null
+
+  return {
+    month,
+    periodStart,
+    periodEnd,
+    summary: summarizePortfolio(units),
+    taxes: summarizeTaxes(units),
+    units: units.map((unit) => {
+      const { monthlyNet, annualReturnOnEquity } = unitCashflow(unit)
+      return { unit, monthlyNet, annualReturnOnEquity }
+    }),
+    renewals: evaluateAlerts(units, DEFAULT_ALERT_RULES, periodStart).filter((alert) =>
+      RENEWAL_KINDS.has(alert.kind),
+    ),
+    obligations: monthlyObligations(units, periodStart, periodEnd),
+    baseline,
+    latest,
+    ...(baseline && latest
+      ? snapshotChanges(baseline, latest)
+      : { changes: [], addedSites: [], removedSites: [] }),
+  }
+}
@@ -0,0 +1,63 @@
+import {
+  summarizeLoans,
+  summarizePortfolio,
+  summarizeTaxes,
+  type LoanSummary,
+  type PortfolioSummary,
+  type PortfolioUnit,
+  type TaxSummary,
+} from './portfolio'
+
+export type OwnerBusinessNumber = {
+  businessNumber: string
+  sites: string[]
+}
+
+export type OwnerPortfolio = {
+  owner: string
+  units: PortfolioUnit[]
+  summary: PortfolioSummary
+  taxes: TaxSummary
+  loans: LoanSummary
+  businessNumbers: OwnerBusinessNumber[]
+}
+
+export function unitOwner(unit: PortfolioUnit): string {
+  return unit.ownership.trim() || '-'
+}
+
+export function ownerPath(owner: string): string {
+  return `/owners/${encodeURIComponent(owner)}`
+}
+
+function ownerBusinessNumbers(units: PortfolioUnit[]): OwnerBusinessNumber[] {
+  const byNumber = new Map<string, string[]>()
+  for (const unit of units) {
+    const businessNumber = unit.businessNumber.trim()
+    if (!businessNumber || businessNumber === '-') continue
+    byNumber.set(businessNumber, [...(byNumber.get(businessNumber) ?? []), unit.site])
+  }
+  return Array.from(byNumber.entries()).map(([businessNumber, sites]) => ({
+    businessNumber,
+    sites,
+  }))
+}
+
+export function buildOwnerPortfolio(owner: string, units: PortfolioUnit[]): OwnerPortfolio {
+  const ownerUnits = units.filter((unit) => unitOwner(unit) === owner)
+  return {
+    owner,
+    units: ownerUnits,
+    summary: summarizePortfolio(ownerUnits),
+    taxes: summarizeTaxes(ownerUnits),
+    loans: summarizeLoans(ownerUnits),
+    businessNumbers: ownerBusinessNumbers(ownerUnits),
+  }
+}
+
+export function buildOwnerPortfolios(units: PortfolioUnit[]): OwnerPortfolio[] {
+  const owners = Array.from(new Set(units.map(unitOwner)))
+  return owners
+    .map((owner) => buildOwnerPortfolio(owner, units))
+    .sort((a, b) => b.summary.totalSupplyPrice - a.summary.totalSupplyPrice)
+}
@@ -0,0 +1,358 @@
+import { parseSheetDate, type SheetDate } from './dates'
+import type { SheetRow } from './googleSheets'
+import { parseVatIncluded } from './lease'
+import {
+  buildAmortizationSchedule,
+  DEFAULT_LOAN_TERM_MONTHS,
+  monthsBetween,
+  outstandingBalanceAfter,
+  parseLoanTermMonths,
+  parseRepaymentType,
+  type LoanTerms,
+  type RepaymentType,
+} from './loan'
+import { resolvePortfolioColumns, type PortfolioColumnMapping } from './portfolioColumns'
+
+export type PortfolioUnit = {
+  id: string
+  site: string
+  ownership: string
+  tenantStatus: string
+  completionDate: string
+  contractRenewalRaw: string
+  loanRenewalRaw: string
+  loanStartRaw: string
+  leaseStartRaw: string
+  completion: SheetDate | null
+  contractRenewal: SheetDate | null
+  loanRenewal: SheetDate | null
+  loanStart: SheetDate | null
+  leaseStart: SheetDate | null
+  loanTermMonths: number | null
+  repaymentType: RepaymentType | null
+  note: string
+  businessNumber: string
+  supplyPrice: number | null
+  loanAmount: number | null
+  interestRate: number | null
+  monthlyInterest: number | null
+  monthlyRent: number | null
+  deposit: number | null
+  tenantName: string
+  vatIncluded: boolean | null
+  buildingTax: number | null
+  landTax: number | null
+  trafficInducementCharge: number | null
+}
+
+export type PortfolioSummary = {
+  totalUnits: number
+  leasedUnits: number
+  totalSupplyPrice: number
+  totalLoanAmount: number
+  totalEquity: number
+  avgInterestRate: number | null
+  monthlyRentIncome: number
+  monthlyInterestCost: number
+  monthlyNetCashflow: number
+  annualNetCashflow: number
+  annualReturnOnEquity: number | null
+  loanToValue: number | null
+}
+
+export type LoanSummary = {
+  outstandingBalance: number
+  balanceInOneYear: number
+  principalRepaidToDate: number
+  monthlyDebtService: number
+  amortizingUnits: number
+}
+
+export type UnitCashflow = {
+  equity: number
+  monthlyNet: number
+  annualReturnOnEquity: number | null
+}
+
+export const SHEET_TOTAL_FIELDS = [
+  'supplyPrice',
+  'loanAmount',
+  'monthlyInterest',
+  'monthlyRent',
+  'buildingTax',
+  'landTax',
+  'trafficInducementCharge',
+] as const
+
+export type SheetTotalField = (typeof SHEET_TOTAL_FIELDS)[number]
+
+export type SheetTotals = Record<SheetTotalField, number | null>
+
+export type TaxSummary = {
+  buildingTaxTotal: number
+  landTaxTotal: number
+  trafficChargeTotal: number
+  annualTaxTotal: number
+}
+
+export function parseNumericValue(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value !== 'string') return null
+
+  const normalized = value.replace(/[^\d.-]/g, '')
+  if (!normalized) return null
+  const parsed = Number(normalized)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+function findTotalsRowIndex(rows: SheetRow[], siteColumn: string): number {
+  return rows.findIndex((row) =>
+    String(row[siteColumn] ?? '')
+      .replace(/\s+/g, '')
+      .includes('합계'),
+  )
+}
+
+export function toSheetTotals(
+  rows: SheetRow[],
+  mapping: PortfolioColumnMapping,
+): SheetTotals | null {
+  const index = findTotalsRowIndex(rows, mapping.columns.site)
+  if (index < 0) return null
+
+  const row = rows[index]
+  return Object.fromEntries(
+    SHEET_TOTAL_FIELDS.map((field) => [field, parseNumericValue(row[mapping.columns[field]])]),
+  ) as SheetTotals
+}
+
+export function toPortfolioUnits(
+  rows: SheetRow[],
+  mapping: PortfolioColumnMapping,
+): PortfolioUnit[] {
+  if (rows.length === 0) return []
+
+  const {
+    site: siteColumn,
+    completionDate: completionColumn,
+    supplyPrice: supplyColumn,
+    loanAmount: loanColumn,
+    interestRate: rateColumn,
+    monthlyInterest: interestColumn,
+    monthlyRent: rentColumn,
+    deposit: depositColumn,
+    tenantName: tenantNameColumn,
+    leaseStartRaw: leaseStartColumn,
+    vatIncluded: vatColumn,
+    contractRenewalRaw: contractRenewalColumn,
+    loanRenewalRaw: loanRenewalColumn,
+    loanStartRaw: loanStartColumn,
+    loanTermMonths: loanTermColumn,
+    repaymentType: repaymentTypeColumn,
+    ownership: ownershipColumn,
+    tenantStatus: tenantColumn,
+    note: noteColumn,
+    businessNumber: businessNumberColumn,
+    buildingTax: buildingTaxColumn,
+    landTax: landTaxColumn,
+    trafficInducementCharge: trafficChargeColumn,
+  } = mapping.columns
+
+  const sumRowIndex = findTotalsRowIndex(rows, siteColumn)
+
+  const sourceRows = (sumRowIndex >= 0 ? rows.slice(0, sumRowIndex) : rows).filter((row) => {
+    const site = String(row[siteColumn] ?? '').trim()
+    return site.length > 0
+  })
+
+  return sourceRows.map((row, index) => ({
+    id: `unit-${index}`,
+    site: String(row[siteColumn] ?? `호실 ${index + 1}`),
+    ownership: String(row[ownershipColumn] ?? '-'),
+    tenantStatus: String(row[tenantColumn] ?? '-'),
+    completionDate: String(row[completionColumn] ?? '-'),
+    contractRenewalRaw: String(row[contractRenewalColumn] ?? ''),
+    loanRenewalRaw: String(row[loanRenewalColumn] ?? ''),
+    loanStartRaw: String(row[loanStartColumn] ?? ''),
+    leaseStartRaw: String(row[leaseStartColumn] ?? ''),
+    completion: parseSheetDate(String(row[completionColumn] ?? '')),
+    contractRenewal: parseSheetDate(String(row[contractRenewalColumn] ?? '')),
+    loanRenewal: parseSheetDate(String(row[loanRenewalColumn] ?? '')),
+    loanStart: parseSheetDate(String(row[loanStartColumn] ?? '')),
+    leaseStart: parseSheetDate(String(row[leaseStartColumn] ?? '')),
+    loanTermMonths: parseLoanTermMonths(String(row[loanTermColumn] ?? '')),
+    repaymentType: parseRepaymentType(String(row[repaymentTypeColumn] ?? '')),
+    note: String(row[noteColumn] ?? '-'),
+    businessNumber: String(row[businessNumberColumn] ?? '-'),
+    supplyPrice: parseNumericValue(row[supplyColumn]),
+    loanAmount: parseNumericValue(row[loanColumn]),
+    interestRate: parseNumericValue(row[rateColumn]),
+    monthlyInterest: parseNumericValue(row[interestColumn]),
+    monthlyRent: parseNumericValue(row[rentColumn]),
+    deposit: parseNumericValue(row[depositColumn]),
+    tenantName: String(row[tenantNameColumn] ?? '').trim(),
+    vatIncluded: parseVatIncluded(String(row[vatColumn] ?? '')),
+    buildingTax: parseNumericValue(row[buildingTaxColumn]),
+    landTax: parseNumericValue(row[landTaxColumn]),
+    trafficInducementCharge: parseNumericValue(row[trafficChargeColumn]),
+  }))
+}
+
+export function unitCashflow(unit: PortfolioUnit): UnitCashflow {
+  const equity =
+    (unit.supplyPrice ?? 0) > 0 ? (unit.supplyPrice ?? 0) - (unit.loanAmount ?? 0) : 0
+  const monthlyNet = (unit.monthlyRent ?? 0) - (unit.monthlyInterest ?? 0)
+  return {
+    equity,
+    monthlyNet,
+    annualReturnOnEquity: equity > 0 ? (monthlyNet * 12) / equity : null,
+  }
+}
+
+export function portfolioUnitsFromRows(rows: SheetRow[]): PortfolioUnit[] {
+  return toPortfolioUnits(
+    rows,
+    resolvePortfolioColumns(rows.length > 0 ? Object.keys(rows[0]) : []),
+  )
+}
+
+export function unitLoanTerms(unit: PortfolioUnit): LoanTerms | null {
+  if (unit.loanAmount === null || unit.loanAmount <= 0) return null
+  const annualRate =
+    unit.interestRate ??
+    (unit.monthlyInterest !== null ? (unit.monthlyInterest * 12) / unit.loanAmount : 0)
+
+  return {
+    principal: unit.loanAmount,
+    annualRate,
+    termMonths: unit.loanTermMonths ?? DEFAULT_LOAN_TERM_MONTHS,
+    repaymentType: unit.repaymentType ?? 'interestOnly',
+    startDate: unit.loanStart?.date ?? null,
+  }
+}
+
+export function outstandingBalanceOn(terms: LoanTerms, date: Date): number {
+  if (terms.repaymentType === 'interestOnly' || !terms.startDate) return terms.principal
+  const schedule = buildAmortizationSchedule(terms)
+  return outstandingBalanceAfter(schedule, terms.principal, monthsBetween(terms.startDate, date))
+}
+
+export function summarizeLoans(units: PortfolioUnit[], today = new Date()): LoanSummary {
+  const oneYearLater = new Date(today.getFullYear() + 1, today.getMonth(), today.getDate())
+  let outstandingBalance = 0
+  let balanceInOneYear = 0
+  let principalRepaidToDate = 0
+  let monthlyDebtService = 0
+  let amortizingUnits = 0
+
+  for (const unit of units) {
+    const terms = unitLoanTerms(unit)
+    if (!terms) continue
+
+    const current = outstandingBalanceOn(terms, today)
+    outstandingBalance += current
+    balanceInOneYear += outstandingBalanceOn(terms, oneYearLater)
+    principalRepaidToDate += terms.principal - current
+
+    if (terms.repaymentType === 'interestOnly' || !terms.startDate) {
+      monthlyDebtService += unit.monthlyInterest ?? (terms.principal * terms.annualRate) / 12
+      continue
+    }
+
+    amortizingUnits += 1
+    const schedule = buildAmortizationSchedule(terms)
+    const elapsed = monthsBetween(terms.startDate, today)
+    const nextRow = schedule[Math.max(0, elapsed)]
+    monthlyDebtService += nextRow ? nextRow.payment : 0
+  }
+
+  return {
+    outstandingBalance,
+    balanceInOneYear,
+    principalRepaidToDate,
+    monthlyDebtService,
+    amortizingUnits,
+  }
+}
+
+export function summarizeTaxes(units: PortfolioUnit[]): TaxSummary {
+  const buildingTaxTotal = units.reduce((acc, unit) => acc + (unit.buildingTax ?? 0), 0)
+  const landTaxTotal = units.reduce((acc, unit) => acc + (unit.landTax ?? 0), 0)
+  const trafficChargeTotal = units.reduce(
+    (acc, unit) => acc + (unit.trafficInducementCharge ?? 0),
+    0,
+  )
+  return {
+    buildingTaxTotal,
+    landTaxTotal,
+    trafficChargeTotal,
+    annualTaxTotal: buildingTaxTotal + landTaxTotal + trafficChargeTotal,
+  }
+}
+
+export function summarizePortfolio(units: PortfolioUnit[]): PortfolioSummary {
+  if (units.length === 0) {
+    return {
+      totalUnits: 0,
+      leasedUnits: 0,
+      totalSupplyPrice: 0,
+      totalLoanAmount: 0,
+      totalEquity: 0,
+      avgInterestRate: null,
+      monthlyRentIncome: 0,
+      monthlyInterestCost: 0,
+      monthlyNetCashflow: 0,
+      annualNetCashflow: 0,
+      annualReturnOnEquity: null,
+      loanToValue: null,
+    }
+  }
+
+  const totalSupplyPrice = units.reduce((acc, unit) => acc + (unit.supplyPrice ?? 0), 0)
+  const totalLoanAmount = units.reduce((acc, unit) => acc + (unit.loanAmount ?? 0), 0)
+  const totalEquity = totalSupplyPrice - totalLoanAmount
+  const monthlyRentIncome = units.reduce((acc, unit) => acc + (unit.monthlyRent ?? 0), 0)
+  const monthlyInterestCost = units.reduce(
+    (acc, unit) => acc + (unit.monthlyInterest ?? 0),
+    0,
+  )
+  const monthlyNetCashflow = monthlyRentIncome - monthlyInterestCost
+  const annualNetCashflow = monthlyNetCashflow * 12
+
+  const weightedRateBase = units.filter(
+    (unit) => unit.interestRate !== null && unit.loanAmount !== null && unit.loanAmount > 0,
+  )
+  const weightedRateDenom = weightedRateBase.reduce(
+    (acc, unit) => acc + (unit.loanAmount as number),
+    0,
+  )
+  const weightedRateNumerator = weightedRateBase.reduce(
+    (acc, unit) => acc + (unit.loanAmount as number) * (unit.interestRate as number),
+    0,
+  )
+  const avgInterestRate =
+    weightedRateDenom > 0 ? weightedRateNumerator / weightedRateDenom : null
+
+  const leasedUnits = units.filter((unit) => {
+    const value = unit.tenantStatus.toLowerCase()
+    return value.includes('임대') || value.includes('입주') || value.includes('운영')
+  }).length
+
+  const annualReturnOnEquity = totalEquity > 0 ? annualNetCashflow / totalEquity : null
+  const loanToValue = totalSupplyPrice > 0 ? totalLoanAmount / totalSupplyPrice : null
+
+  return {
+    totalUnits: units.length,
+    leasedUnits,
+    totalSupplyPrice,
+    totalLoanAmount,
+    totalEquity,
+    avgInterestRate,
+    monthlyRentIncome,
+    monthlyInterestCost,
+    monthlyNetCashflow,
+    annualNetCashflow,
+    annualReturnOnEquity,
+    loanToValue,
+  }
+}
@@ -0,0 +1,141 @@
+export type PortfolioField =
+  | 'site'
+  | 'completionDate'
+  | 'supplyPrice'
+  | 'loanAmount'
+  | 'interestRate'
+  | 'monthlyInterest'
+  | 'monthlyRent'
+  | 'deposit'
+  | 'tenantName'
+  | 'leaseStartRaw'
+  | 'vatIncluded'
+  | 'contractRenewalRaw'
+  | 'loanRenewalRaw'
+  | 'loanStartRaw'
+  | 'loanTermMonths'
+  | 'repaymentType'
+  | 'ownership'
+  | 'tenantStatus'
+  | 'note'
+  | 'businessNumber'
+  | 'buildingTax'
+  | 'landTax'
+  | 'trafficInducementCharge'
+
+export type PortfolioColumnRule = {
+  field: PortfolioField
+  label: string
+  headers: string[]
+  required?: boolean
+}
+
+export type ColumnMatch = 'exact' | 'partial'
+
+export type PortfolioFieldMapping = {
+  field: PortfolioField
+  label: string
+  column: string | null
+  match: ColumnMatch | null
+  required: boolean
+}
+
+export type PortfolioColumnMapping = {
+  version: number
+  columns: Record<PortfolioField, string>
+  fields: PortfolioFieldMapping[]
+  unmappedFields: PortfolioFieldMapping[]
+  ignoredColumns: string[]
+}
+
+export const PORTFOLIO_COLUMN_SCHEMA_VERSION = 4
+
+// Rules are resolved in order and each sheet column feeds at most one field.
+export const PORTFOLIO_COLUMN_SCHEMA: PortfolioColumnRule[] = [
+  { field: 'site', label: '현장', headers: ['현장', '호실', 'site'], required: true },
+  { field: 'completionDate', label: '준공일', headers: ['준공일', 'completion'] },
+  {
+    field: 'supplyPrice',
+    label: '공급금액',
+    headers: ['공급금액', '매입', 'price'],
+    required: true,
+  },
+  { field: 'loanAmount', label: '대출금', headers: ['대출금', 'loan'], required: true },
+  { field: 'interestRate', label: '이율', headers: ['이율', '금리', 'rate'] },
+  { field: 'monthlyInterest', label: '월이자', headers: ['대출이자', 'interest'] },
+  { field: 'monthlyRent', label: '월세', headers: ['월세', '임대료', 'rent'], required: true },
+  { field: 'deposit', label: '보증금', headers: ['보증금', 'deposit'] },
+  { field: 'tenantName', label: '임차인', headers: ['임차인', 'tenant'] },
+  { field: 'leaseStartRaw', label: '계약시작일', headers: ['계약시작', '임대개시', '계약일'] },
+  { field: 'vatIncluded', label: '부가세 포함', headers: ['부가세', 'vat'] },
+  { field: 'contractRenewalRaw', label: '계약갱신', headers: ['계약갱신', '계약 갱신'] },
+  { field: 'loanRenewalRaw', label: '대출갱신', headers: ['대출갱신', '대출 갱신'] },
+  { field: 'loanStartRaw', label: '대출실행일', headers: ['대출실행', '대출일', '대출시작'] },
+  { field: 'loanTermMonths', label: '대출기간', headers: ['대출기간', '상환기간'] },
+  { field: 'repaymentType', label: '상환방식', headers: ['상환방식'] },
+  { field: 'ownership', label: '명의', headers: ['명의'] },
+  { field: 'tenantStatus', label: '실입주', headers: ['실입주 여부', '입주', '임대'] },
+  { field: 'note', label: '비고', headers: ['비고', 'note'] },
+  { field: 'businessNumber', label: '사업자번호', headers: ['사업자등록번호'] },
+  { field: 'buildingTax', label: '재산세(건물분)', headers: ['재산세', '건문불'] },
+  { field: 'landTax', label: '재산세(토지분)', headers: ['토지분'] },
+  {
+    field: 'trafficInducementCharge',
+    label: '교통유발부담금',
+    headers: ['교통유발부담금'],
+  },
+]
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, '')
+}
+
+export function resolvePortfolioColumns(
+  columns: string[],
+  schema: PortfolioColumnRule[] = PORTFOLIO_COLUMN_SCHEMA,
+): PortfolioColumnMapping {
+  const normalized = columns.map((column) => ({
+    original: column,
+    normalized: normalizeHeader(column),
+  }))
+  const claimed = new Set<string>()
+
+  const findColumn = (headers: string[]): { column: string; match: ColumnMatch } | null => {
+    const available = normalized.filter((column) => !claimed.has(column.original))
+    for (const header of headers) {
+      const target = normalizeHeader(header)
+      const found = available.find((column) => column.normalized === target)
+      if (found) return { column: found.original, match: 'exact' }
+    }
+    for (const header of headers) {
+      const target = normalizeHeader(header)
+      const found = available.find((column) => column.normalized.includes(target))
+      if (found) return { column: found.original, match: 'partial' }
+    }
+    return null
+  }
+
+  const fields = schema.map((rule) => {
+    const found = findColumn(rule.headers)
+    if (found) claimed.add(found.column)
+    return {
+      field: rule.field,
+      label: rule.label,
+      column: found?.column ?? null,
+      match: found?.match ?? null,
+      required: rule.required ?? false,
+    }
+  })
+
+  const resolved = Object.fromEntries(
+    fields.map((mapping) => [mapping.field, mapping.column ?? '']),
+  ) as Record<PortfolioField, string>
+
+  return {
+    version: PORTFOLIO_COLUMN_SCHEMA_VERSION,
+    columns: resolved,
+    fields,
+    unmappedFields: fields.filter((mapping) => mapping.column === null),
+    ignoredColumns: columns.filter((column) => !claimed.has(column)),
+  }
+}
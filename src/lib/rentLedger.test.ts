@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildRentLedger,
+  paymentsFromBankCsv,
+  paymentsFromRows,
+  type RentPayment,
+} from './rentLedger'
+import { makeUnit } from './testUnits'
+import type { UnitRegistry } from './unitDetailRoutes'
+
+const today = new Date(2026, 2, 15)
+
+function payment(date: string, amount: number, unitLabel: string, memo = ''): RentPayment {
+  return { key: `${date}:${unitLabel}`, date, amount, unitLabel, memo, source: 'sheet' }
+}
+
+describe('paymentsFromBankCsv', () => {
+  const csv = [
+    '계좌번호,123-456-789',
+    '조회기간,2026.01.01 ~ 2026.03.31',
+    '',
+    '거래일시,적요,보낸분,출금액,입금액,거래후잔액',
+    '20260105 10:00,월세,B307호 홍길동,,"1,000,000","5,000,000"',
+    '20260106 09:00,관리비,,"200,000",,"4,800,000"',
+    '20260210 11:00,월세,B307호 홍길동,,"1,000,000","5,800,000"',
+    '20260210 11:00,월세,B307호 홍길동,,"1,000,000","5,800,000"',
+  ].join('\n')
+
+  it('finds the header below account details and keeps only deposits', () => {
+    const payments = paymentsFromBankCsv(csv)
+    expect(payments.map(({ date, amount, memo }) => ({ date, amount, memo }))).toEqual([
+      { date: '2026-01-05', amount: 1_000_000, memo: '월세 B307호 홍길동' },
+      { date: '2026-02-10', amount: 1_000_000, memo: '월세 B307호 홍길동' },
+      { date: '2026-02-10', amount: 1_000_000, memo: '월세 B307호 홍길동' },
+    ])
+    expect(payments.every((item) => item.source === 'bank')).toBe(true)
+  })
+
+  it('keeps identical rows apart but gives a re-import the same keys', () => {
+    const keys = paymentsFromBankCsv(csv).map((item) => item.key)
+    expect(new Set(keys).size).toBe(3)
+    expect(paymentsFromBankCsv(csv).map((item) => item.key)).toEqual(keys)
+  })
+
+  it('rejects files without date and deposit columns', () => {
+    expect(() => paymentsFromBankCsv('적요,출금액\n월세,1000')).toThrow('거래일자')
+  })
+})
+
+describe('paymentsFromRows', () => {
+  it('reads the payments tab with its unit column', () => {
+    const payments = paymentsFromRows([
+      { 입금일: '2026.03.05', 호실: 'B307호', 입금액: '1,000,000', 비고: '3월분' },
+      { 입금일: '2026.03', 호실: 'B308호', 입금액: '1,000,000', 비고: '' },
+    ])
+    expect(payments).toEqual([
+      {
+        key: 'sheet:0',
+        date: '2026-03-05',
+        amount: 1_000_000,
+        unitLabel: 'B307호',
+        memo: '3월분',
+        source: 'sheet',
+      },
+    ])
+  })
+
+  it('throws when the date or amount column is missing', () => {
+    expect(() => paymentsFromRows([{ 호실: 'B307호', 비고: '' }])).toThrow('열을 찾을 수 없습니다')
+  })
+})
+
+describe('buildRentLedger', () => {
+  const units = [
+    makeUnit({ site: '에이스광교타워2차 B307호', monthlyRent: 1_000_000, deposit: 10_000_000 }),
+    makeUnit({ site: '인천유원 C1119호', monthlyRent: 800_000, deposit: 5_000_000 }),
+  ]
+
+  it('settles the oldest month first and leaves the current month due', () => {
+    const ledger = buildRentLedger(
+      units.slice(0, 1),
+      [
+        payment('2026-01-05', 1_000_000, 'B307호', '월세'),
+        payment('2026-02-20', 500_000, 'B307호'),
+      ],
+      null,
+      today,
+    )
+    expect(ledger.monthKeys).toEqual(['2026-01', '2026-02', '2026-03'])
+    const [unit] = ledger.units
+    expect(unit.months.map((month) => month.status)).toEqual(['paid', 'partial', 'due'])
+    expect(unit.arrears).toBe(500_000)
+    expect(unit.overdueMonths).toBe(1)
+    expect(unit.arrearsToDeposit).toBe(0.05)
+    expect(ledger.arrearsTotal).toBe(500_000)
+    expect(ledger.overdueUnits).toBe(1)
+  })
+
+  it('lets a late lump sum clear earlier arrears', () => {
+    const ledger = buildRentLedger(
+      units.slice(0, 1),
+      [payment('2026-01-05', 1_000_000, 'B307호'), payment('2026-03-02', 2_500_000, 'B307호')],
+      null,
+      today,
+    )
+    const [unit] = ledger.units
+    expect(unit.months.map((month) => month.status)).toEqual(['paid', 'paid', 'paid'])
+    expect(unit.arrears).toBe(0)
+    expect(unit.credit).toBe(500_000)
+  })
+
+  it('flags three periods of arrears as a termination risk', () => {
+    const ledger = buildRentLedger(
+      units,
+      [
+        payment('2025-12-05', 1_000_000, 'B307호'),
+        payment('2026-01-05', 1_000_000, 'B307호'),
+        payment('2026-02-05', 1_000_000, 'B307호'),
+      ],
+      null,
+      today,
+    )
+    const unpaid = ledger.units.find((item) => item.unit.site === '인천유원 C1119호')
+    expect(unpaid?.months.map((month) => month.status)).toEqual([
+      'overdue',
+      'overdue',
+      'overdue',
+      'due',
+    ])
+    expect(unpaid?.arrears).toBe(2_400_000)
+    expect(unpaid?.terminationRisk).toBe(true)
+    expect(ledger.units[0].terminationRisk).toBe(false)
+  })
+
+  it('matches payments by registry alias and keeps unknown ones unmatched', () => {
+    const registry: UnitRegistry = {
+      source: 'index',
+      routes: [
+        {
+          slug: 'incheon-u1-c1119',
+          gid: '1',
+          title: '인천유원 C1119호',
+          aliases: ['인천유원 C1119호', '인천테크노밸리 U1센터 C동 1119호'],
+        },
+      ],
+    }
+    const ledger = buildRentLedger(
+      units,
+      [
+        payment('2026-03-05', 800_000, '', '인천테크노밸리 U1센터 C동 1119호 월세'),
+        payment('2026-03-06', 300_000, '', '관리비 환급'),
+      ],
+      registry,
+      today,
+    )
+    const matched = ledger.units.find((item) => item.unit.site === '인천유원 C1119호')
+    expect(matched?.paidTotal).toBe(800_000)
+    expect(ledger.unmatched.map((item) => item.memo)).toEqual(['관리비 환급'])
+  })
+
+  it('returns no unit ledgers before any payment is recorded', () => {
+    expect(buildRentLedger(units, [], null, today).units).toEqual([])
+  })
+})
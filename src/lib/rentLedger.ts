@@ -0,0 +1,333 @@
+import { decodeCsvBytes, parseCsv } from './csv'
+import { parseSheetDate } from './dates'
+import type { SheetRow } from './googleSheets'
+import { PAYMENT_STORE, runStoreRequest } from './localDatabase'
+import { reportMonthKey, reportMonthOf, shiftReportMonth } from './monthlyReport'
+import { parseNumericValue, type PortfolioUnit } from './portfolio'
+import { sheetCacheKey } from './sheetCache'
+import { getUnitDetailBySite, type UnitRegistry } from './unitDetailRoutes'
+
+export type RentPaymentSource = 'sheet' | 'bank'
+
+export type RentPayment = {
+  key: string
+  date: string
+  amount: number
+  unitLabel: string
+  memo: string
+  source: RentPaymentSource
+}
+
+export type LedgerMonthStatus = 'paid' | 'partial' | 'overdue' | 'due'
+
+export type LedgerMonth = {
+  key: string
+  expected: number
+  allocated: number
+  status: LedgerMonthStatus
+}
+
+export type UnitRentLedger = {
+  unit: PortfolioUnit
+  payments: RentPayment[]
+  months: LedgerMonth[]
+  expectedTotal: number
+  paidTotal: number
+  arrears: number
+  credit: number
+  overdueMonths: number
+  arrearsToDeposit: number | null
+  terminationRisk: boolean
+}
+
+export type RentLedger = {
+  monthKeys: string[]
+  units: UnitRentLedger[]
+  unmatched: RentPayment[]
+  arrearsTotal: number
+  overdueUnits: number
+}
+
+export const LEDGER_STATUS_LABELS: Record<LedgerMonthStatus, string> = {
+  paid: '완납',
+  partial: '일부',
+  overdue: '미납',
+  due: '예정',
+}
+
+export const LEDGER_MONTHS = 12
+
+// Commercial Building Lease Protection Act: arrears of three periods' rent allow termination.
+export const TERMINATION_ARREARS_PERIODS = 3
+
+const DATE_HEADERS = ['거래일시', '거래일자', '거래일', '입금일', '일자', '날짜', 'date']
+const AMOUNT_HEADERS = ['입금액', '입금금액', '맡기신금액', '입금', 'deposit', '금액', 'amount']
+const UNIT_HEADERS = ['호실', '현장', 'unit']
+const MEMO_HEADERS = [
+  '적요',
+  '내용',
+  '보낸분',
+  '입금자',
+  '의뢰인',
+  '거래처',
+  '메모',
+  '비고',
+  'memo',
+]
+const EXCLUDED_AMOUNT_HEADERS = ['출금', '잔액', '지급']
+const BALANCE_HEADERS = ['거래후잔액', '잔액', 'balance']
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, '')
+}
+
+function findColumn(columns: string[], keys: string[], excluded: string[] = []): string | null {
+  const candidates = columns.filter(
+    (column) => !excluded.some((key) => normalize(column).includes(key)),
+  )
+  for (const key of keys) {
+    const found = candidates.find((column) => normalize(column).includes(key))
+    if (found) return found
+  }
+  return null
+}
+
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+function parsePaymentDate(value: unknown): string | null {
+  const text = String(value ?? '').trim()
+  // Bank exports often write dates without separators, e.g. 20260305.
+  const compact = text.match(/^(\d{4})(\d{2})(\d{2})(?!\d)/)
+  const parsed = parseSheetDate(compact ? `${compact[1]}.${compact[2]}.${compact[3]}` : text)
+  return parsed && parsed.precision === 'day' ? toDateKey(parsed.date) : null
+}
+
+function paymentsFromRecords(rows: SheetRow[], source: RentPaymentSource): RentPayment[] {
+  if (rows.length === 0) return []
+  const columns = Object.keys(rows[0])
+  const dateColumn = findColumn(columns, DATE_HEADERS)
+  const amountColumn = findColumn(columns, AMOUNT_HEADERS, EXCLUDED_AMOUNT_HEADERS)
+  if (!dateColumn || !amountColumn) {
+    throw new Error('입금 내역에서 날짜 또는 금액 열을 찾을 수 없습니다.')
+  }
+  const unitColumn = findColumn(columns, UNIT_HEADERS)
+  const memoColumns = columns.filter(
+    (column) =>
+      column !== unitColumn && MEMO_HEADERS.some((key) => normalize(column).includes(key)),
+  )
+  const balanceColumn = source === 'bank' ? findColumn(columns, BALANCE_HEADERS) : null
+  const seen = new Map<string, number>()
+
+  return rows.flatMap((row, index) => {
+    const date = parsePaymentDate(row[dateColumn])
+    const amount = parseNumericValue(row[amountColumn])
+    if (!date || amount === null || amount <= 0) return []
+
+    const unitLabel = unitColumn ? String(row[unitColumn] ?? '').trim() : ''
+    const memo = memoColumns
+      .map((column) => String(row[column] ?? '').trim())
+      .filter(Boolean)
+      .join(' ')
+    // Time of day and running balance tell same-day transfers apart; rows that still match are
+    // numbered in file order so only a re-import of the same rows lands on the same keys.
+    const balance = balanceColumn ? String(row[balanceColumn] ?? '').trim() : ''
+    const base = `bank:${normalize(String(row[dateColumn]))}:${amount}:${balance}:${normalize(`${unitLabel}${memo}`)}`
+    const ordinal = seen.get(base) ?? 0
+    seen.set(base, ordinal + 1)
+    return [
+      {
+        key: source === 'sheet' ? `sheet:${index}` : `${base}:${ordinal}`,
+        date,
+        amount,
+        unitLabel,
+        memo,
+        source,
+      },
+    ]
+  })
+}
+
+export function paymentsFromRows(rows: SheetRow[]): RentPayment[] {
+  return paymentsFromRecords(rows, 'sheet')
+}
+
+export function paymentsFromBankCsv(text: string): RentPayment[] {
+  const matrix = parseCsv(text)
+  // Bank exports put account details above the header row, so look for it in the first rows.
+  const headerIndex = matrix
+    .slice(0, 20)
+    .findIndex(
+      (row) =>
+        findColumn(row, DATE_HEADERS) !== null &&
+        findColumn(row, AMOUNT_HEADERS, EXCLUDED_AMOUNT_HEADERS) !== null,
+    )
+  if (headerIndex < 0) {
+    throw new Error('은행 거래내역 CSV에서 거래일자와 입금액 열을 찾을 수 없습니다.')
+  }
+
+  const headers = matrix[headerIndex].map((header, index) => header.trim() || `column_${index + 1}`)
+  const rows = matrix
+    .slice(headerIndex + 1)
+    .map((cells) =>
+      Object.fromEntries(headers.map((header, index) => [header, cells[index] ?? null])),
+    )
+  return paymentsFromRecords(rows, 'bank')
+}
+
+function unitMatchKeys(unit: PortfolioUnit, registry: UnitRegistry | null): string[] {
+  const route = registry ? getUnitDetailBySite(registry, unit.site) : null
+  return Array.from(new Set([unit.site, ...(route?.aliases ?? [])].map(normalize))).filter(Boolean)
+}
+
+function matchPaymentUnit(
+  payment: RentPayment,
+  candidates: Array<{ unit: PortfolioUnit; keys: string[] }>,
+): PortfolioUnit | null {
+  const label = normalize(payment.unitLabel)
+  const text = normalize(`${payment.unitLabel} ${payment.memo}`)
+  let best: { unit: PortfolioUnit; score: number } | null = null
+
+  // Prefer the most specific match: the longest site or alias found in the text, or a short
+  // unit label such as `B307호` that is part of a site name.
+  for (const { unit, keys } of candidates) {
+    for (const key of keys) {
+      const score = text.includes(key)
+        ? key.length
+        : label.length > 0 && key.includes(label)
+          ? label.length
+          : 0
+      if (score > 0 && (!best || score > best.score)) best = { unit, score }
+    }
+  }
+  return best?.unit ?? null
+}
+
+function buildUnitLedger(
+  unit: PortfolioUnit,
+  payments: RentPayment[],
+  monthKeys: string[],
+  currentKey: string,
+): UnitRentLedger {
+  const expected = unit.monthlyRent ?? 0
+  const periodStart = `${monthKeys[0]}-01`
+  const counted = payments.filter((payment) => payment.date >= periodStart)
+  const paidTotal = counted.reduce((acc, payment) => acc + payment.amount, 0)
+
+  // Payments settle the oldest unpaid month first, so a late transfer clears earlier arrears.
+  let pool = paidTotal
+  const months = monthKeys.map((key) => {
+    const allocated = Math.min(pool, expected)
+    pool -= allocated
+    const status: LedgerMonthStatus =
+      allocated >= expected
+        ? 'paid'
+        : allocated > 0
+          ? 'partial'
+          : key === currentKey
+            ? 'due'
+            : 'overdue'
+    return { key, expected, allocated, status }
+  })
+
+  const pastMonths = months.filter((month) => month.key !== currentKey)
+  const arrears = pastMonths.reduce((acc, month) => acc + month.expected - month.allocated, 0)
+  return {
+    unit,
+    payments,
+    months,
+    expectedTotal: expected * months.length,
+    paidTotal,
+    arrears,
+    credit: pool,
+    overdueMonths: pastMonths.filter((month) => month.status !== 'paid').length,
+    arrearsToDeposit: unit.deposit ? arrears / unit.deposit : null,
+    terminationRisk: expected > 0 && arrears >= expected * TERMINATION_ARREARS_PERIODS,
+  }
+}
+
+export function buildRentLedger(
+  units: PortfolioUnit[],
+  payments: RentPayment[],
+  registry: UnitRegistry | null,
+  today = new Date(),
+): RentLedger {
+  const current = reportMonthOf(today)
+  const currentKey = reportMonthKey(current)
+  const earliest = payments.reduce<string | null>(
+    (acc, payment) => (acc === null || payment.date < acc ? payment.date : acc),
+    null,
+  )
+  const windowStart = reportMonthKey(shiftReportMonth(current, -(LEDGER_MONTHS - 1)))
+  const earliestKey = earliest ? earliest.slice(0, 7) : windowStart
+  const startKey =
+    earliestKey < windowStart ? windowStart : earliestKey > currentKey ? currentKey : earliestKey
+  const monthKeys = Array.from({ length: LEDGER_MONTHS }, (_, index) =>
+    reportMonthKey(shiftReportMonth(current, index - (LEDGER_MONTHS - 1))),
+  ).filter((key) => key >= startKey)
+
+  const candidates = units.map((unit) => ({ unit, keys: unitMatchKeys(unit, registry) }))
+  const matched = new Map<string, RentPayment[]>()
+  const unmatched: RentPayment[] = []
+  for (const payment of [...payments].sort((a, b) => a.date.localeCompare(b.date))) {
+    const unit = matchPaymentUnit(payment, candidates)
+    if (unit) {
+      matched.set(unit.id, [...(matched.get(unit.id) ?? []), payment])
+    } else {
+      unmatched.push(payment)
+    }
+  }
+
+  const ledgers =
+    payments.length === 0
+      ? []
+      : units
+          .filter((unit) => (unit.monthlyRent ?? 0) > 0 || matched.has(unit.id))
+          .map((unit) => buildUnitLedger(unit, matched.get(unit.id) ?? [], monthKeys, currentKey))
+
+  return {
+    monthKeys,
+    units: ledgers,
+    unmatched,
+    arrearsTotal: ledgers.reduce((acc, ledger) => acc + ledger.arrears, 0),
+    overdueUnits: ledgers.filter((ledger) => ledger.arrears > 0).length,
+  }
+}
+
+export function formatLedgerMonth(key: string): string {
+  return `${key.slice(2, 4)}.${key.slice(5, 7)}`
+}
+
+function paymentKeyPrefix(): string {
+  return `${sheetCacheKey('payment')}:`
+}
+
+export async function listImportedPayments(): Promise<RentPayment[]> {
+  const prefix = paymentKeyPrefix()
+  const entries = await runStoreRequest<RentPayment[]>(PAYMENT_STORE, 'readonly', (store) =>
+    store.getAll(IDBKeyRange.bound(prefix, `${prefix}\uffff`)),
+  )
+  return entries.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+export async function importBankPayments(buffer: ArrayBuffer): Promise<number> {
+  const payments = paymentsFromBankCsv(decodeCsvBytes(buffer))
+  const prefix = paymentKeyPrefix()
+  // Keys come from the transaction itself, so re-importing the same export adds nothing.
+  for (const payment of payments) {
+    await runStoreRequest(PAYMENT_STORE, 'readwrite', (store) =>
+      store.put({ ...payment, key: `${prefix}${payment.key}` }),
+    )
+  }
+  return payments.length
+}
+
+export async function clearImportedPayments(): Promise<void> {
+  const prefix = paymentKeyPrefix()
+  await runStoreRequest(PAYMENT_STORE, 'readwrite', (store) =>
+    store.delete(IDBKeyRange.bound(prefix, `${prefix}\uffff`)),
+  )
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import { addMonths } from './dates'
+import {
+  analyzeUnitReturns,
+  internalRateOfReturn,
+  returnMetrics,
+  VAT_REFUND_MONTHS,
+  type DatedCashflow,
+  type ReturnInput,
+} from './returns'
+
+const START = new Date(2025, 0, 1)
+
+function flows(acquisition: number, operating: number[], exit = 0): DatedCashflow[] {
+  return [
+    { date: START, kind: 'acquisition', amount: acquisition },
+    ...operating.map((amount, index) => ({
+      date: addMonths(START, index + 1),
+      kind: 'operating' as const,
+      amount,
+    })),
+    ...(exit
+      ? [{ date: addMonths(START, operating.length), kind: 'exit' as const, amount: exit }]
+      : []),
+  ]
+}
+
+describe('internalRateOfReturn', () => {
+  it('annualizes the monthly rate', () => {
+    expect(internalRateOfReturn([-100, 110])).toBeCloseTo(Math.pow(1.1, 12) - 1, 6)
+    expect(internalRateOfReturn([-100, 0, 0, 100])).toBeCloseTo(0, 6)
+  })
+
+  it('has no rate when the cashflows never change sign', () => {
+    expect(internalRateOfReturn([100, 50, 20])).toBeNull()
+    expect(internalRateOfReturn([-100, -50])).toBeNull()
+    expect(internalRateOfReturn([])).toBeNull()
+  })
+})
+
+describe('returnMetrics', () => {
+  it('reports equity, first-year cash and cash-on-cash', () => {
+    const metrics = returnMetrics(flows(-1_000, new Array(24).fill(50)), 0)
+    expect(metrics.initialEquity).toBe(1_000)
+    expect(metrics.firstYearCashflow).toBe(600)
+    expect(metrics.cashOnCash).toBeCloseTo(0.6)
+    expect(metrics.npv).toBeCloseTo(200)
+  })
+
+  it('finds the month the cumulative cashflow recovers', () => {
+    expect(returnMetrics(flows(-1_000, new Array(24).fill(100)), 0).paybackMonths).toBe(10)
+  })
+
+  it('extends the last operating month when the sale comes first', () => {
+    const metrics = returnMetrics(flows(-1_000, [100, 100], 900), 0)
+    expect(metrics.paybackMonths).toBe(10)
+  })
+
+  it('has no payback when operating cashflow never turns positive', () => {
+    const metrics = returnMetrics(flows(-1_000, new Array(12).fill(-10), 2_000), 0.05)
+    expect(metrics.paybackMonths).toBeNull()
+    expect(metrics.irr).not.toBeNull()
+  })
+})
+
+describe('analyzeUnitReturns', () => {
+  const input: ReturnInput = {
+    acquisitionDate: START,
+    price: 300_000_000,
+    vat: 20_000_000,
+    registration: 14_000_000,
+    brokerage: 0,
+    deposit: 10_000_000,
+    monthlyRent: 1_200_000,
+    annualTaxes: 1_200_000,
+    loan: null,
+    monthlyInterest: null,
+  }
+  const assumptions = { discountRate: 0.05, holdingYears: 2, appreciationRate: 0, saleCostRate: 0 }
+
+  it('refunds the purchase VAT after the refund delay', () => {
+    const result = analyzeUnitReturns(input, assumptions, START)
+    const refund = result.cashflows.find((flow) => flow.kind === 'vatRefund')
+    expect(refund).toEqual({
+      date: addMonths(START, VAT_REFUND_MONTHS),
+      kind: 'vatRefund',
+      amount: 20_000_000,
+    })
+    expect(result.initialEquity).toBe(324_000_000)
+  })
+
+  it('sells at the end of the holding period and returns the deposit', () => {
+    const result = analyzeUnitReturns(input, assumptions, START)
+    expect(result.exitDate).toEqual(addMonths(START, 24))
+    expect(result.cashflows.at(-1)?.amount).toBe(290_000_000)
+    expect(result.firstYearCashflow).toBeCloseTo(12 * 1_100_000)
+  })
+
+  it('moves a holding period that has already run out to next month', () => {
+    const today = addMonths(START, 36)
+    expect(analyzeUnitReturns(input, assumptions, today).exitDate).toEqual(addMonths(START, 37))
+  })
+})
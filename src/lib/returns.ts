@@ -0,0 +1,340 @@
+import { addMonths } from './dates'
+import { buildAmortizationSchedule, monthsBetween, type LoanTerms } from './loan'
+import type { PortfolioUnit } from './portfolio'
+import type { UnitDetail } from './unitDetail'
+
+export type ReturnAssumptions = {
+  discountRate: number
+  holdingYears: number
+  appreciationRate: number
+  saleCostRate: number
+}
+
+export type ReturnInput = {
+  acquisitionDate: Date
+  price: number
+  vat: number
+  registration: number
+  brokerage: number
+  deposit: number
+  monthlyRent: number
+  annualTaxes: number
+  loan: LoanTerms | null
+  monthlyInterest: number | null
+}
+
+export type CashflowKind = 'acquisition' | 'operating' | 'vatRefund' | 'exit'
+
+export type DatedCashflow = {
+  date: Date
+  kind: CashflowKind
+  amount: number
+}
+
+export type ReturnMetrics = {
+  initialEquity: number
+  firstYearCashflow: number
+  irr: number | null
+  npv: number
+  cashOnCash: number | null
+  paybackMonths: number | null
+}
+
+export type UnitReturns = ReturnMetrics & {
+  input: ReturnInput
+  exitDate: Date
+  salePrice: number
+  loanPayoff: number
+  cashflows: DatedCashflow[]
+}
+
+export type PortfolioReturns = ReturnMetrics & {
+  units: UnitReturns[]
+}
+
+export const DEFAULT_RETURN_ASSUMPTIONS: ReturnAssumptions = {
+  discountRate: 0.05,
+  holdingYears: 10,
+  appreciationRate: 0.02,
+  saleCostRate: 0.01,
+}
+
+// Claimed as an early refund, the purchase VAT returns about two months after the filing deadline.
+export const VAT_REFUND_MONTHS = 3
+
+const IRR_ITERATIONS = 200
+
+function sumOf(values: number[]): number {
+  return values.reduce((acc, value) => acc + value, 0)
+}
+
+export function returnInput(
+  unit: PortfolioUnit | null,
+  detail: UnitDetail | null,
+  loan: LoanTerms | null,
+  today = new Date(),
+): ReturnInput | null {
+  const building = detail?.building
+  const netOfVat =
+    building && building.totalAcquisition !== null && building.vat !== null
+      ? building.totalAcquisition - building.vat
+      : null
+  const price = building?.supplyAmount ?? netOfVat ?? unit?.supplyPrice ?? null
+  if (price === null || price <= 0) return null
+
+  const sheetTaxes = unit ? [unit.buildingTax, unit.landTax, unit.trafficInducementCharge] : []
+  const annualTaxes = sheetTaxes.some((value) => value !== null)
+    ? sumOf(sheetTaxes.map((value) => value ?? 0))
+    : (detail?.otherCosts.propertyBuildingTax ?? 0) + (detail?.otherCosts.propertyLandTax ?? 0)
+
+  return {
+    acquisitionDate: loan?.startDate ?? unit?.completion?.date ?? today,
+    price,
+    vat: building?.vat ?? 0,
+    registration: detail?.otherCosts.registration ?? 0,
+    brokerage: detail?.otherCosts.brokerage ?? 0,
+    deposit: unit?.deposit ?? detail?.lease.deposit ?? 0,
+    monthlyRent: unit?.monthlyRent || detail?.lease.monthlyRent || 0,
+    annualTaxes,
+    loan,
+    monthlyInterest: unit?.monthlyInterest ?? null,
+  }
+}
+
+function debtServiceByMonth(input: ReturnInput, months: number) {
+  const { loan } = input
+  const payments: number[] = []
+  const balances: number[] = []
+  if (!loan) {
+    return {
+      payments: new Array<number>(months).fill(0),
+      balances: new Array<number>(months).fill(0),
+    }
+  }
+
+  // Interest-only loans are taken to roll over on the same terms and be repaid at the sale.
+  if (loan.repaymentType === 'interestOnly') {
+    const interest = input.monthlyInterest ?? (loan.principal * loan.annualRate) / 12
+    return {
+      payments: new Array<number>(months).fill(interest),
+      balances: new Array<number>(months).fill(loan.principal),
+    }
+  }
+
+  const schedule = buildAmortizationSchedule(loan)
+  for (let month = 1; month <= months; month++) {
+    const row = schedule[month - 1]
+    payments.push(row ? row.payment : 0)
+    balances.push(row ? row.balance : 0)
+  }
+  return { payments, balances }
+}
+
+export function holdingCashflows(input: ReturnInput, months: number) {
+  const start = input.acquisitionDate
+  const { payments, balances } = debtServiceByMonth(input, months)
+
+  const cashflows: DatedCashflow[] = [
+    {
+      date: start,
+      kind: 'acquisition',
+      amount:
+        (input.loan?.principal ?? 0) +
+        input.deposit -
+        input.price -
+        input.vat -
+        input.registration -
+        input.brokerage,
+    },
+  ]
+  for (let month = 1; month <= months; month++) {
+    cashflows.push({
+      date: addMonths(start, month),
+      kind: 'operating',
+      amount: input.monthlyRent - payments[month - 1] - input.annualTaxes / 12,
+    })
+  }
+  if (input.vat > 0) {
+    cashflows.push({
+      date: addMonths(start, Math.min(VAT_REFUND_MONTHS, months)),
+      kind: 'vatRefund',
+      amount: input.vat,
+    })
+  }
+
+  return { cashflows, loanBalance: balances[months - 1] ?? 0 }
+}
+
+export function buildUnitCashflows(
+  input: ReturnInput,
+  assumptions: ReturnAssumptions,
+  today = new Date(),
+) {
+  const start = input.acquisitionDate
+  const plannedMonths = Math.max(1, Math.round(assumptions.holdingYears * 12))
+  // A holding period that has already run out is extended to sell next month.
+  const months = Math.max(plannedMonths, monthsBetween(start, today) + 1)
+  const exitDate = addMonths(start, months)
+  const { cashflows, loanBalance } = holdingCashflows(input, months)
+
+  const salePrice = input.price * Math.pow(1 + assumptions.appreciationRate, months / 12)
+  cashflows.push({
+    date: exitDate,
+    kind: 'exit',
+    amount: salePrice * (1 - assumptions.saleCostRate) - loanBalance - input.deposit,
+  })
+
+  return { cashflows, exitDate, salePrice, loanPayoff: loanBalance }
+}
+
+function monthIndex(date: Date, start: Date): number {
+  return (date.getFullYear() - start.getFullYear()) * 12 + date.getMonth() - start.getMonth()
+}
+
+function monthlySeries(cashflows: DatedCashflow[]): { start: Date; series: number[] } {
+  const start = cashflows.reduce(
+    (earliest, flow) => (flow.date < earliest ? flow.date : earliest),
+    cashflows[0]?.date ?? new Date(),
+  )
+  const series: number[] = []
+  for (const flow of cashflows) {
+    const index = monthIndex(flow.date, start)
+    while (series.length <= index) series.push(0)
+    series[index] += flow.amount
+  }
+  return { start, series }
+}
+
+function presentValue(series: number[], monthlyRate: number): number {
+  return series.reduce((acc, amount, month) => acc + amount / Math.pow(1 + monthlyRate, month), 0)
+}
+
+export function internalRateOfReturn(series: number[]): number | null {
+  if (!series.some((amount) => amount < 0) || !series.some((amount) => amount > 0)) return null
+
+  // Bisection on the monthly rate; NPV falls as the rate rises for a leveraged purchase.
+  let low = -0.5
+  let high = 1
+  let lowValue = presentValue(series, low)
+  if (lowValue * presentValue(series, high) > 0) return null
+  for (let i = 0; i < IRR_ITERATIONS; i++) {
+    const mid = (low + high) / 2
+    const midValue = presentValue(series, mid)
+    if (Math.abs(midValue) < 1e-6) return Math.pow(1 + mid, 12) - 1
+    if (lowValue * midValue < 0) {
+      high = mid
+    } else {
+      low = mid
+      lowValue = midValue
+    }
+  }
+  return Math.pow(1 + (low + high) / 2, 12) - 1
+}
+
+function paybackMonths(cashflows: DatedCashflow[]): number | null {
+  const { start, series } = monthlySeries(cashflows.filter((flow) => flow.kind !== 'exit'))
+  let cumulative = 0
+  for (let month = 0; month < series.length; month++) {
+    cumulative += series[month]
+    if (month > 0 && cumulative >= 0) return month
+  }
+
+  // Not recovered before the sale: extend the last operating month until it would be.
+  const lastOperating = [...cashflows].reverse().find((flow) => flow.kind === 'operating')
+  if (!lastOperating || lastOperating.amount <= 0) return null
+  const lastMonth = monthIndex(lastOperating.date, start)
+  return lastMonth + Math.ceil(-cumulative / lastOperating.amount)
+}
+
+export function returnMetrics(cashflows: DatedCashflow[], discountRate: number): ReturnMetrics {
+  const { start, series } = monthlySeries(cashflows)
+  const initialEquity = -sumOf(
+    cashflows.filter((flow) => flow.kind === 'acquisition').map((flow) => flow.amount),
+  )
+  const firstYearCashflow = sumOf(
+    cashflows
+      .filter((flow) => flow.kind === 'operating')
+      .filter((flow) => {
+        const month = monthIndex(flow.date, start)
+        return month >= 1 && month <= 12
+      })
+      .map((flow) => flow.amount),
+  )
+  return {
+    initialEquity,
+    firstYearCashflow,
+    irr: internalRateOfReturn(series),
+    npv: presentValue(series, Math.pow(1 + discountRate, 1 / 12) - 1),
+    cashOnCash: initialEquity > 0 ? firstYearCashflow / initialEquity : null,
+    paybackMonths: paybackMonths(cashflows),
+  }
+}
+
+export function analyzeUnitReturns(
+  input: ReturnInput,
+  assumptions: ReturnAssumptions,
+  today = new Date(),
+): UnitReturns {
+  const { cashflows, exitDate, salePrice, loanPayoff } = buildUnitCashflows(
+    input,
+    assumptions,
+    today,
+  )
+  return {
+    ...returnMetrics(cashflows, assumptions.discountRate),
+    input,
+    exitDate,
+    salePrice,
+    loanPayoff,
+    cashflows,
+  }
+}
+
+export function analyzePortfolioReturns(
+  inputs: ReturnInput[],
+  assumptions: ReturnAssumptions,
+  today = new Date(),
+): PortfolioReturns {
+  const units = inputs.map((input) => analyzeUnitReturns(input, assumptions, today))
+  const pooled = returnMetrics(
+    units.flatMap((unit) => unit.cashflows),
+    assumptions.discountRate,
+  )
+  // Each unit's first year starts at its own acquisition, so pool those rather than calendar months.
+  const initialEquity = sumOf(units.map((unit) => unit.initialEquity))
+  const firstYearCashflow = sumOf(units.map((unit) => unit.firstYearCashflow))
+  const weighted = units.filter((unit) => unit.paybackMonths !== null && unit.initialEquity > 0)
+  const weightedEquity = sumOf(weighted.map((unit) => unit.initialEquity))
+
+  return {
+    ...pooled,
+    initialEquity,
+    firstYearCashflow,
+    cashOnCash: initialEquity > 0 ? firstYearCashflow / initialEquity : null,
+    paybackMonths:
+      weightedEquity > 0
+        ? Math.round(
+            sumOf(weighted.map((unit) => (unit.paybackMonths ?? 0) * unit.initialEquity)) /
+              weightedEquity,
+          )
+        : null,
+    units,
+  }
+}
+
+export function annualCashflows(cashflows: DatedCashflow[]) {
+  const years = new Map<number, Record<CashflowKind, number>>()
+  for (const flow of cashflows) {
+    const year = flow.date.getFullYear()
+    const totals = years.get(year) ?? { acquisition: 0, operating: 0, vatRefund: 0, exit: 0 }
+    totals[flow.kind] += flow.amount
+    years.set(year, totals)
+  }
+  return [...years.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([year, totals]) => ({
+      year,
+      ...totals,
+      net: totals.acquisition + totals.operating + totals.vatRefund + totals.exit,
+    }))
+}
@@ -0,0 +1,36 @@
+import { getDataSource } from './dataSources'
+import { runStoreRequest, SHEET_CACHE_STORE } from './localDatabase'
+
+export type CachedValue<T> = {
+  key: string
+  value: T
+  syncedAt: number
+}
+
+export function sheetCacheKey(name: string): string {
+  const sheetId = import.meta.env.VITE_GOOGLE_SHEET_ID || '-'
+  return `${getDataSource().kind}:${sheetId}:${name}`
+}
+
+export async function readCachedValue<T>(key: string): Promise<CachedValue<T> | null> {
+  try {
+    const entry = await runStoreRequest<CachedValue<T> | undefined>(
+      SHEET_CACHE_STORE,
+      'readonly',
+      (store) => store.get(key),
+    )
+    return entry ?? null
+  } catch {
+    return null
+  }
+}
+
+export async function writeCachedValue<T>(key: string, value: T): Promise<CachedValue<T>> {
+  const entry: CachedValue<T> = { key, value, syncedAt: Date.now() }
+  try {
+    await runStoreRequest(SHEET_CACHE_STORE, 'readwrite', (store) => store.put(entry))
+  } catch {
+    // 캐시 저장 실패는 화면 표시를 막지 않습니다.
+  }
+  return entry
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { summarizePortfolio } from './portfolio'
+import { createPortfolioSnapshot, parseSnapshotExport, serializeSnapshots } from './snapshots'
+import { makeUnit } from './testUnits'
+
+const units = [
+  makeUnit({ site: '문래 SKv1 712호', supplyPrice: 300_000_000, monthlyRent: 1_200_000 }),
+  makeUnit({ site: '인천유원 C1119호', supplyPrice: 200_000_000, monthlyRent: null }),
+]
+const snapshot = createPortfolioSnapshot(
+  units,
+  summarizePortfolio(units),
+  new Date(2025, 2, 1).getTime(),
+)
+
+function exportWith(override: (raw: Record<string, unknown>) => void): string {
+  const raw = JSON.parse(serializeSnapshots([snapshot]))
+  override(raw.snapshots[0])
+  return JSON.stringify(raw)
+}
+
+describe('parseSnapshotExport', () => {
+  it('round-trips an exported file', () => {
+    expect(parseSnapshotExport(serializeSnapshots([snapshot]))).toEqual([snapshot])
+  })
+
+  it('rejects files that are not snapshot exports', () => {
+    expect(() => parseSnapshotExport('not json')).toThrow('JSON')
+    expect(() => parseSnapshotExport('{"format":"other","snapshots":[]}')).toThrow('형식')
+  })
+
+  it('rejects impossible or malformed dates', () => {
+    expect(() => parseSnapshotExport(exportWith((raw) => (raw.date = '2025-02-30')))).toThrow(
+      '1번째',
+    )
+    expect(() => parseSnapshotExport(exportWith((raw) => (raw.date = '2025/03/01')))).toThrow()
+  })
+
+  it('rejects non-numeric summary fields', () => {
+    const text = exportWith((raw) => {
+      ;(raw.summary as Record<string, unknown>).monthlyNetCashflow = '1,000'
+    })
+    expect(() => parseSnapshotExport(text)).toThrow()
+    const missing = exportWith((raw) => {
+      delete (raw.summary as Record<string, unknown>).totalUnits
+    })
+    expect(() => parseSnapshotExport(missing)).toThrow()
+  })
+
+  it('accepts null for optional ratios but not for totals', () => {
+    const nullRatio = exportWith((raw) => {
+      ;(raw.summary as Record<string, unknown>).loanToValue = null
+    })
+    expect(parseSnapshotExport(nullRatio)[0].summary.loanToValue).toBeNull()
+    const nullTotal = exportWith((raw) => {
+      ;(raw.summary as Record<string, unknown>).totalEquity = null
+    })
+    expect(() => parseSnapshotExport(nullTotal)).toThrow()
+  })
+
+  it('rejects malformed unit rows', () => {
+    expect(() => parseSnapshotExport(exportWith((raw) => (raw.units = {})))).toThrow()
+    const badUnit = exportWith((raw) => {
+      ;(raw.units as Array<Record<string, unknown>>)[0].monthlyRent = 'abc'
+    })
+    expect(() => parseSnapshotExport(badUnit)).toThrow()
+  })
+
+  it('rejects the whole file when any snapshot is invalid', () => {
+    const raw = JSON.parse(serializeSnapshots([snapshot, { ...snapshot, date: 'yesterday' }]))
+    expect(() => parseSnapshotExport(JSON.stringify(raw))).toThrow('2번째')
+  })
+
+  it('drops unknown fields and rebuilds the key for the current sheet', () => {
+    const text = exportWith((raw) => {
+      raw.key = 'other-sheet:2025-03-01'
+      ;(raw.summary as Record<string, unknown>).extra = 1
+    })
+    const [parsed] = parseSnapshotExport(text)
+    expect(parsed.key).toBe(snapshot.key)
+    expect(parsed.summary).not.toHaveProperty('extra')
+  })
+})
@@ -0,0 +1,207 @@
+import { runStoreRequest, SNAPSHOT_STORE } from './localDatabase'
+import { unitCashflow, type PortfolioSummary, type PortfolioUnit } from './portfolio'
+import { sheetCacheKey } from './sheetCache'
+
+export type UnitSnapshot = {
+  site: string
+  supplyPrice: number | null
+  loanAmount: number | null
+  interestRate: number | null
+  monthlyRent: number | null
+  monthlyInterest: number | null
+  monthlyNetCashflow: number
+  annualReturnOnEquity: number | null
+}
+
+export type PortfolioSnapshot = {
+  key: string
+  date: string
+  takenAt: number
+  summary: PortfolioSummary
+  units: UnitSnapshot[]
+}
+
+export type SnapshotExport = {
+  format: 'portfolio-snapshots'
+  version: 1
+  snapshots: PortfolioSnapshot[]
+}
+
+function toDateKey(timestamp: number): string {
+  const date = new Date(timestamp)
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+function snapshotKeyPrefix(): string {
+  return `${sheetCacheKey('snapshot')}:`
+}
+
+export function createPortfolioSnapshot(
+  units: PortfolioUnit[],
+  summary: PortfolioSummary,
+  takenAt: number,
+): PortfolioSnapshot {
+  const date = toDateKey(takenAt)
+  return {
+    key: `${snapshotKeyPrefix()}${date}`,
+    date,
+    takenAt,
+    summary,
+    units: units.map((unit) => {
+      const { monthlyNet, annualReturnOnEquity } = unitCashflow(unit)
+      return {
+        site: unit.site,
+        supplyPrice: unit.supplyPrice,
+        loanAmount: unit.loanAmount,
+        interestRate: unit.interestRate,
+        monthlyRent: unit.monthlyRent,
+        monthlyInterest: unit.monthlyInterest,
+        monthlyNetCashflow: monthlyNet,
+        annualReturnOnEquity,
+      }
+    }),
+  }
+}
+
+export async function saveSnapshot(snapshot: PortfolioSnapshot): Promise<void> {
+  await runStoreRequest(SNAPSHOT_STORE, 'readwrite', (store) => store.put(snapshot))
+}
+
+export async function listSnapshots(): Promise<PortfolioSnapshot[]> {
+  const prefix = snapshotKeyPrefix()
+  const entries = await runStoreRequest<PortfolioSnapshot[]>(SNAPSHOT_STORE, 'readonly', (store) =>
+    store.getAll(IDBKeyRange.bound(prefix, `${prefix}\uffff`)),
+  )
+  return entries.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+export async function deleteSnapshot(key: string): Promise<void> {
+  await runStoreRequest(SNAPSHOT_STORE, 'readwrite', (store) => store.delete(key))
+}
+
+export function serializeSnapshots(snapshots: PortfolioSnapshot[]): string {
+  const payload: SnapshotExport = { format: 'portfolio-snapshots', version: 1, snapshots }
+  return JSON.stringify(payload, null, 2)
+}
+
+const SUMMARY_FIELDS: Array<keyof PortfolioSummary> = [
+  'totalUnits',
+  'leasedUnits',
+  'totalSupplyPrice',
+  'totalLoanAmount',
+  'totalEquity',
+  'monthlyRentIncome',
+  'monthlyInterestCost',
+  'monthlyNetCashflow',
+  'annualNetCashflow',
+]
+const NULLABLE_SUMMARY_FIELDS: Array<keyof PortfolioSummary> = [
+  'avgInterestRate',
+  'annualReturnOnEquity',
+  'loanToValue',
+]
+const NULLABLE_UNIT_FIELDS: Array<keyof UnitSnapshot> = [
+  'supplyPrice',
+  'loanAmount',
+  'interestRate',
+  'monthlyRent',
+  'monthlyInterest',
+  'annualReturnOnEquity',
+]
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function isNullableNumber(value: unknown): value is number | null {
+  return value === null || isFiniteNumber(value)
+}
+
+function isDateKey(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false
+  const [year, month, day] = value.split('-').map(Number)
+  const date = new Date(year, month - 1, day)
+  return date.getMonth() === month - 1 && date.getDate() === day
+}
+
+function toUnitSnapshot(value: unknown): UnitSnapshot | null {
+  if (!isRecord(value) || typeof value.site !== 'string') return null
+  if (!isFiniteNumber(value.monthlyNetCashflow)) return null
+  if (!NULLABLE_UNIT_FIELDS.every((field) => isNullableNumber(value[field]))) return null
+  return {
+    site: value.site,
+    supplyPrice: value.supplyPrice as number | null,
+    loanAmount: value.loanAmount as number | null,
+    interestRate: value.interestRate as number | null,
+    monthlyRent: value.monthlyRent as number | null,
+    monthlyInterest: value.monthlyInterest as number | null,
+    monthlyNetCashflow: value.monthlyNetCashflow,
+    annualReturnOnEquity: value.annualReturnOnEquity as number | null,
+  }
+}
+
+function toSnapshot(value: unknown, prefix: string): PortfolioSnapshot | null {
+  if (!isRecord(value) || !isDateKey(value.date) || !isFiniteNumber(value.takenAt)) return null
+  const { summary } = value
+  if (
+    !isRecord(summary) ||
+    !SUMMARY_FIELDS.every((field) => isFiniteNumber(summary[field])) ||
+    !NULLABLE_SUMMARY_FIELDS.every((field) => isNullableNumber(summary[field]))
+  ) {
+    return null
+  }
+  if (!Array.isArray(value.units)) return null
+  const units = value.units.map(toUnitSnapshot)
+  if (units.some((unit) => unit === null)) return null
+
+  const picked = Object.fromEntries(
+    [...SUMMARY_FIELDS, ...NULLABLE_SUMMARY_FIELDS].map((field) => [field, summary[field]]),
+  )
+  return {
+    key: `${prefix}${value.date}`,
+    date: value.date,
+    takenAt: value.takenAt,
+    summary: picked as PortfolioSummary,
+    units: units as UnitSnapshot[],
+  }
+}
+
+// Rejects the whole file on the first bad snapshot so the history charts never see partial data.
+export function parseSnapshotExport(text: string): PortfolioSnapshot[] {
+  let payload: unknown
+  try {
+    payload = JSON.parse(text)
+  } catch {
+    throw new Error('스냅샷 파일이 올바른 JSON이 아닙니다.')
+  }
+  if (
+    !isRecord(payload) ||
+    payload.format !== 'portfolio-snapshots' ||
+    !Array.isArray(payload.snapshots)
+  ) {
+    throw new Error('스냅샷 파일 형식이 올바르지 않습니다.')
+  }
+
+  const prefix = snapshotKeyPrefix()
+  return payload.snapshots.map((value, index) => {
+    const snapshot = toSnapshot(value, prefix)
+    if (!snapshot) {
+      throw new Error(`스냅샷 파일의 ${index + 1}번째 항목에 잘못된 날짜나 요약 값이 있습니다.`)
+    }
+    return snapshot
+  })
+}
+
+export async function importSnapshots(text: string): Promise<number> {
+  const snapshots = parseSnapshotExport(text)
+  for (const snapshot of snapshots) {
+    await saveSnapshot(snapshot)
+  }
+  return snapshots.length
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import type { SheetDate } from './dates'
+import { runRateStressTest, type RateStressOptions } from './stressTest'
+import { makeUnit } from './testUnits'
+
+const today = new Date(2026, 2, 15)
+
+function day(year: number, month: number, date: number): SheetDate {
+  return { date: new Date(year, month - 1, date), precision: 'day', end: null }
+}
+
+// 300,000,000 at 4% is 1,000,000 a month; each +1%p adds 250,000.
+const leveraged = makeUnit({
+  site: '문래 SKv1 712호',
+  supplyPrice: 500_000_000,
+  loanAmount: 300_000_000,
+  interestRate: 0.04,
+  monthlyInterest: 1_000_000,
+  monthlyRent: 1_500_000,
+})
+const cashOnly = makeUnit({
+  site: '인천유원 C1119호',
+  supplyPrice: 200_000_000,
+  monthlyRent: 700_000,
+})
+
+function options(overrides: Partial<RateStressOptions> = {}): RateStressOptions {
+  return { shock: 0.01, customRates: {}, afterRenewalOnly: false, ...overrides }
+}
+
+describe('runRateStressTest', () => {
+  it('adds the shock to the outstanding balance immediately', () => {
+    const [unit] = runRateStressTest([leveraged], options(), today).units
+    expect(unit.stressedRate).toBeCloseTo(0.05)
+    expect(unit.stressedMonthlyInterest).toBeCloseTo(1_250_000)
+    expect(unit.nextYearInterest).toBeCloseTo(15_000_000)
+    expect(unit.annualNetCashflow).toBeCloseTo(3_000_000)
+    expect(unit.annualReturnOnEquity).toBeCloseTo(0.015)
+    expect(unit.turnsNegative).toBe(false)
+  })
+
+  it('only reports units whose cashflow drops below zero', () => {
+    expect(runRateStressTest([leveraged], options({ shock: 0.02 }), today).negativeUnits).toEqual(
+      [],
+    )
+    const result = runRateStressTest([leveraged], options({ shock: 0.03 }), today)
+    expect(result.negativeUnits.map((unit) => unit.site)).toEqual(['문래 SKv1 712호'])
+  })
+
+  it('uses a per-unit custom rate instead of the shock', () => {
+    const custom = options({ customRates: { [leveraged.id]: 0.06 } })
+    const [unit] = runRateStressTest([leveraged], custom, today).units
+    expect(unit.stressedRate).toBe(0.06)
+    expect(unit.stressedMonthlyInterest).toBeCloseTo(1_500_000)
+  })
+
+  it('keeps the current rate until the loan renewal when asked', () => {
+    const renewing = { ...leveraged, loanRenewal: day(2026, 6, 30) }
+    const [unit] = runRateStressTest([renewing], options({ afterRenewalOnly: true }), today).units
+    expect(unit.repricingDate).toEqual(new Date(2026, 5, 30))
+    expect(unit.monthsUntilRepricing).toBe(4)
+    expect(unit.nextYearInterest).toBeCloseTo(1_000_000 * 4 + 1_250_000 * 8)
+  })
+
+  it('reprices at once when the renewal date has already passed', () => {
+    const lapsed = { ...leveraged, loanRenewal: day(2026, 1, 31) }
+    const [unit] = runRateStressTest([lapsed], options({ afterRenewalOnly: true }), today).units
+    expect(unit.repricingDate).toBeNull()
+    expect(unit.monthsUntilRepricing).toBe(0)
+  })
+
+  it('ignores a stressed month that falls outside the next twelve months', () => {
+    const thin = { ...leveraged, monthlyRent: 1_100_000, loanRenewal: day(2027, 12, 31) }
+    const [unit] = runRateStressTest([thin], options({ afterRenewalOnly: true }), today).units
+    expect(unit.monthsUntilRepricing).toBe(12)
+    expect(unit.monthlyNetCashflow).toBeLessThan(0)
+    expect(unit.turnsNegative).toBe(false)
+  })
+
+  it('leaves units without a loan unchanged and totals the portfolio', () => {
+    const result = runRateStressTest([leveraged, cashOnly], options(), today)
+    expect(result.units[1]).toMatchObject({
+      baseRate: null,
+      stressedRate: null,
+      stressedMonthlyInterest: 0,
+      annualNetCashflow: 8_400_000,
+    })
+    expect(result.monthlyInterestCost).toBeCloseTo(1_250_000)
+    expect(result.monthlyNetCashflow).toBeCloseTo(950_000)
+    expect(result.annualNetCashflow).toBeCloseTo(11_400_000)
+    expect(result.annualReturnOnEquity).toBeCloseTo(11_400_000 / 400_000_000)
+  })
+})
@@ -0,0 +1,119 @@
+import { sheetDateDue } from './dates'
+import { monthsBetween } from './loan'
+import {
+  outstandingBalanceOn,
+  summarizePortfolio,
+  unitCashflow,
+  unitLoanTerms,
+  type PortfolioUnit,
+} from './portfolio'
+
+export const RATE_SHOCKS = [0.005, 0.01, 0.02]
+
+export type RateStressOptions = {
+  shock: number
+  customRates: Record<string, number>
+  afterRenewalOnly: boolean
+}
+
+export type StressedUnit = {
+  id: string
+  site: string
+  baseRate: number | null
+  stressedRate: number | null
+  repricingDate: Date | null
+  monthsUntilRepricing: number
+  baseMonthlyInterest: number
+  stressedMonthlyInterest: number
+  nextYearInterest: number
+  monthlyNetCashflow: number
+  annualNetCashflow: number
+  annualReturnOnEquity: number | null
+  turnsNegative: boolean
+}
+
+export type RateStressResult = {
+  shock: number
+  monthlyInterestCost: number
+  monthlyNetCashflow: number
+  annualNetCashflow: number
+  annualReturnOnEquity: number | null
+  negativeUnits: StressedUnit[]
+  units: StressedUnit[]
+}
+
+function stressUnit(
+  unit: PortfolioUnit,
+  options: RateStressOptions,
+  today: Date,
+): StressedUnit {
+  const terms = unitLoanTerms(unit)
+  const balance = terms ? outstandingBalanceOn(terms, today) : 0
+  const baseRate = terms ? terms.annualRate : null
+  const baseMonthlyInterest = unit.monthlyInterest ?? ((baseRate ?? 0) * balance) / 12
+
+  const customRate = options.customRates[unit.id]
+  const stressedRate =
+    baseRate === null ? null : customRate !== undefined ? customRate : baseRate + options.shock
+  const stressedMonthlyInterest =
+    stressedRate === null || baseRate === null
+      ? baseMonthlyInterest
+      : baseMonthlyInterest + ((stressedRate - baseRate) * balance) / 12
+
+  const renewalDate =
+    options.afterRenewalOnly && unit.loanRenewal ? sheetDateDue(unit.loanRenewal) : null
+  const repricingDate = renewalDate && renewalDate > today ? renewalDate : null
+  const monthsUntilRepricing = repricingDate
+    ? Math.min(12, monthsBetween(today, repricingDate) + 1)
+    : 0
+
+  const nextYearInterest =
+    baseMonthlyInterest * monthsUntilRepricing +
+    stressedMonthlyInterest * (12 - monthsUntilRepricing)
+  const rent = unit.monthlyRent ?? 0
+  const annualNetCashflow = rent * 12 - nextYearInterest
+  const { equity } = unitCashflow(unit)
+
+  return {
+    id: unit.id,
+    site: unit.site,
+    baseRate,
+    stressedRate,
+    repricingDate,
+    monthsUntilRepricing,
+    baseMonthlyInterest,
+    stressedMonthlyInterest,
+    nextYearInterest,
+    monthlyNetCashflow: rent - stressedMonthlyInterest,
+    annualNetCashflow,
+    annualReturnOnEquity: equity > 0 ? annualNetCashflow / equity : null,
+    // Judge only the months inside the window, before and after any repricing.
+    turnsNegative:
+      (monthsUntilRepricing > 0 && rent - baseMonthlyInterest < 0) ||
+      (monthsUntilRepricing < 12 && rent - stressedMonthlyInterest < 0),
+  }
+}
+
+export function runRateStressTest(
+  units: PortfolioUnit[],
+  options: RateStressOptions,
+  today = new Date(),
+): RateStressResult {
+  const stressed = units.map((unit) => stressUnit(unit, options, today))
+  const { totalEquity, monthlyRentIncome } = summarizePortfolio(units)
+  const monthlyInterestCost = stressed.reduce(
+    (acc, unit) => acc + unit.stressedMonthlyInterest,
+    0,
+  )
+  const annualNetCashflow = stressed.reduce((acc, unit) => acc + unit.annualNetCashflow, 0)
+
+  return {
+    shock: options.shock,
+    monthlyInterestCost,
+    monthlyNetCashflow: monthlyRentIncome - monthlyInterestCost,
+    annualNetCashflow,
+    annualReturnOnEquity: totalEquity > 0 ? annualNetCashflow / totalEquity : null,
+    negativeUnits: stressed.filter((unit) => unit.turnsNegative),
+    units: stressed,
+  }
+}
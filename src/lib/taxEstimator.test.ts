@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest'
+import {
+  CORPORATE_TAX_BRACKETS,
+  estimateBusinessTaxes,
+  INCOME_TAX_BRACKETS,
+  progressiveTax,
+  taxpayerTypeOf,
+} from './taxEstimator'
+import { makeUnit } from './testUnits'
+
+describe('progressiveTax', () => {
+  it('taxes each bracket at its own rate up to the boundary', () => {
+    expect(progressiveTax(0, INCOME_TAX_BRACKETS)).toBe(0)
+    expect(progressiveTax(14_000_000, INCOME_TAX_BRACKETS)).toBeCloseTo(840_000)
+    expect(progressiveTax(50_000_000, INCOME_TAX_BRACKETS)).toBeCloseTo(6_240_000)
+    expect(progressiveTax(88_000_000, INCOME_TAX_BRACKETS)).toBeCloseTo(15_360_000)
+  })
+
+  it('applies the next rate only to income above the boundary', () => {
+    expect(progressiveTax(14_000_100, INCOME_TAX_BRACKETS)).toBeCloseTo(840_015)
+    expect(progressiveTax(50_000_100, INCOME_TAX_BRACKETS)).toBeCloseTo(6_240_024)
+  })
+
+  it('keeps the top bracket open-ended', () => {
+    expect(progressiveTax(1_100_000_000, INCOME_TAX_BRACKETS)).toBeCloseTo(
+      progressiveTax(1_000_000_000, INCOME_TAX_BRACKETS) + 45_000_000,
+    )
+  })
+
+  it('uses the corporate brackets for corporations', () => {
+    expect(progressiveTax(200_000_000, CORPORATE_TAX_BRACKETS)).toBeCloseTo(18_000_000)
+    expect(progressiveTax(300_000_000, CORPORATE_TAX_BRACKETS)).toBeCloseTo(37_000_000)
+  })
+})
+
+describe('taxpayerTypeOf', () => {
+  it('treats business numbers with a corporate code as corporations', () => {
+    expect(taxpayerTypeOf('123-81-45678')).toBe('corporation')
+    expect(taxpayerTypeOf('1238845678')).toBe('corporation')
+  })
+
+  it('treats everything else as an individual', () => {
+    expect(taxpayerTypeOf('123-45-67890')).toBe('individual')
+    expect(taxpayerTypeOf('123-89-45678')).toBe('individual')
+    expect(taxpayerTypeOf('미등록')).toBe('individual')
+  })
+})
+
+describe('estimateBusinessTaxes', () => {
+  const options = { buildingShare: 0.7, usefulLifeYears: 0, rentIncludesVat: false }
+
+  it('applies the income tax brackets to each owner across business numbers', () => {
+    const units = [
+      makeUnit({
+        site: 'A',
+        ownership: '본인',
+        businessNumber: '111-11-11111',
+        monthlyRent: 4_000_000,
+      }),
+      makeUnit({
+        site: 'B',
+        ownership: '본인',
+        businessNumber: '222-22-22222',
+        monthlyRent: 2_000_000,
+      }),
+      makeUnit({
+        site: 'C',
+        ownership: '배우자',
+        businessNumber: '333-33-33333',
+        monthlyRent: 2_000_000,
+      }),
+    ]
+    const estimates = estimateBusinessTaxes(units, options)
+    const tax = (businessNumber: string) =>
+      estimates.find((estimate) => estimate.businessNumber === businessNumber)?.estimatedIncomeTax
+
+    const ownerTax = progressiveTax(72_000_000, INCOME_TAX_BRACKETS)
+    expect((tax('111-11-11111') ?? 0) + (tax('222-22-22222') ?? 0)).toBeCloseTo(ownerTax)
+    expect(tax('111-11-11111')).toBeCloseTo((ownerTax * 2) / 3)
+    expect(tax('333-33-33333')).toBeCloseTo(progressiveTax(24_000_000, INCOME_TAX_BRACKETS))
+  })
+
+  it("offsets a loss against the same owner's other business income", () => {
+    const units = [
+      makeUnit({ ownership: '본인', businessNumber: '111-11-11111', monthlyRent: 3_000_000 }),
+      makeUnit({
+        ownership: '본인',
+        businessNumber: '222-22-22222',
+        monthlyRent: 500_000,
+        monthlyInterest: 1_500_000,
+      }),
+    ]
+    const [profit, loss] = estimateBusinessTaxes(units, options)
+    expect(profit.estimatedIncomeTax).toBeCloseTo(progressiveTax(24_000_000, INCOME_TAX_BRACKETS))
+    expect(loss.estimatedIncomeTax).toBe(0)
+  })
+
+  it('keeps corporations on their own corporate brackets', () => {
+    const units = [
+      makeUnit({ ownership: '법인', businessNumber: '123-81-45678', monthlyRent: 10_000_000 }),
+    ]
+    const [estimate] = estimateBusinessTaxes(units, options)
+    expect(estimate.taxpayerType).toBe('corporation')
+    expect(estimate.estimatedIncomeTax).toBeCloseTo(
+      progressiveTax(120_000_000, CORPORATE_TAX_BRACKETS),
+    )
+  })
+
+  it('takes the VAT-inclusive flag from each unit before the global option', () => {
+    const units = [
+      makeUnit({ businessNumber: '111-11-11111', monthlyRent: 1_100_000, vatIncluded: true }),
+      makeUnit({ businessNumber: '111-11-11111', monthlyRent: 1_000_000, vatIncluded: false }),
+      makeUnit({ businessNumber: '111-11-11111', monthlyRent: 1_100_000, vatIncluded: null }),
+    ]
+    const [separate] = estimateBusinessTaxes(units, options)
+    expect(separate.monthlySupplyValue).toBeCloseTo(3_100_000)
+    const [included] = estimateBusinessTaxes(units, { ...options, rentIncludesVat: true })
+    expect(included.monthlySupplyValue).toBeCloseTo(3_000_000)
+    expect(included.monthlyVat).toBeCloseTo(300_000)
+  })
+})
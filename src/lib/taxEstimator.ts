@@ -0,0 +1,296 @@
+import { unitOwner } from './owners'
+import type { PortfolioUnit } from './portfolio'
+
+export type TaxpayerType = 'individual' | 'corporation'
+
+export type TaxFilingKind = '예정신고' | '예정고지' | '확정신고' | '종합소득세' | '법인세'
+
+export type TaxFiling = {
+  id: string
+  businessNumber: string
+  kind: TaxFilingKind
+  periodLabel: string
+  periodStart: Date
+  periodEnd: Date
+  dueDate: Date
+  amount: number
+}
+
+export type TaxEstimatorOptions = {
+  buildingShare: number
+  usefulLifeYears: number
+  rentIncludesVat: boolean
+}
+
+export type BusinessTaxEstimate = {
+  businessNumber: string
+  owners: string[]
+  taxpayerType: TaxpayerType
+  units: PortfolioUnit[]
+  monthlySupplyValue: number
+  monthlyVat: number
+  annualRent: number
+  annualInterest: number
+  annualPropertyTax: number
+  annualDepreciation: number
+  taxableIncome: number
+  estimatedIncomeTax: number
+  estimatedLocalIncomeTax: number
+}
+
+export const VAT_RATE = 0.1
+export const UNREGISTERED_BUSINESS_NUMBER = '미등록'
+
+// 예정고지 is skipped when the notice would be under this amount.
+const PREPAYMENT_NOTICE_MINIMUM = 500_000
+
+export const DEFAULT_TAX_ESTIMATOR_OPTIONS: TaxEstimatorOptions = {
+  buildingShare: 0.7,
+  usefulLifeYears: 40,
+  rentIncludesVat: false,
+}
+
+export const INCOME_TAX_BRACKETS: Array<[number, number]> = [
+  [14_000_000, 0.06],
+  [50_000_000, 0.15],
+  [88_000_000, 0.24],
+  [150_000_000, 0.35],
+  [300_000_000, 0.38],
+  [500_000_000, 0.4],
+  [1_000_000_000, 0.42],
+  [Infinity, 0.45],
+]
+
+export const CORPORATE_TAX_BRACKETS: Array<[number, number]> = [
+  [200_000_000, 0.09],
+  [20_000_000_000, 0.19],
+  [300_000_000_000, 0.21],
+  [Infinity, 0.24],
+]
+
+export function progressiveTax(income: number, brackets: Array<[number, number]>): number {
+  let tax = 0
+  let lower = 0
+  for (const [upper, rate] of brackets) {
+    if (income <= lower) break
+    tax += (Math.min(income, upper) - lower) * rate
+    lower = upper
+  }
+  return tax
+}
+
+export function taxpayerTypeOf(businessNumber: string): TaxpayerType {
+  const digits = businessNumber.replace(/\D/g, '')
+  if (digits.length !== 10) return 'individual'
+  const code = Number(digits.slice(3, 5))
+  return code >= 81 && code <= 88 ? 'corporation' : 'individual'
+}
+
+function nextBusinessDay(date: Date): Date {
+  const result = new Date(date)
+  while (result.getDay() === 0 || result.getDay() === 6) {
+    result.setDate(result.getDate() + 1)
+  }
+  return result
+}
+
+function monthRange(year: number, startMonth: number, months: number) {
+  return {
+    periodStart: new Date(year, startMonth, 1),
+    periodEnd: new Date(year, startMonth + months, 0),
+  }
+}
+
+function vatFilingsForYear(estimate: BusinessTaxEstimate, year: number): TaxFiling[] {
+  const { businessNumber, monthlyVat } = estimate
+  const filing = (
+    kind: TaxFilingKind,
+    periodLabel: string,
+    startMonth: number,
+    months: number,
+    dueMonth: number,
+    amount: number,
+  ): TaxFiling => ({
+    id: `${businessNumber}-${year}-${startMonth}-${kind}`,
+    businessNumber,
+    kind,
+    periodLabel,
+    ...monthRange(year, startMonth, months),
+    dueDate: nextBusinessDay(new Date(year, dueMonth, 25)),
+    amount,
+  })
+
+  if (estimate.taxpayerType === 'corporation') {
+    return [
+      filing('예정신고', `${year}년 1기 예정`, 0, 3, 3, monthlyVat * 3),
+      filing('확정신고', `${year}년 1기 확정`, 3, 3, 6, monthlyVat * 3),
+      filing('예정신고', `${year}년 2기 예정`, 6, 3, 9, monthlyVat * 3),
+      filing('확정신고', `${year}년 2기 확정`, 9, 3, 12, monthlyVat * 3),
+    ]
+  }
+
+  const notice = monthlyVat * 3 >= PREPAYMENT_NOTICE_MINIMUM ? monthlyVat * 3 : 0
+  const filings = [
+    filing('확정신고', `${year}년 1기 확정`, 0, 6, 6, monthlyVat * 6 - notice),
+    filing('확정신고', `${year}년 2기 확정`, 6, 6, 12, monthlyVat * 6 - notice),
+  ]
+  if (notice > 0) {
+    filings.push(
+      filing('예정고지', `${year}년 1기 예정고지`, 0, 3, 3, notice),
+      filing('예정고지', `${year}년 2기 예정고지`, 6, 3, 9, notice),
+    )
+  }
+  return filings
+}
+
+function incomeTaxFiling(estimate: BusinessTaxEstimate, year: number): TaxFiling {
+  const corporation = estimate.taxpayerType === 'corporation'
+  return {
+    id: `${estimate.businessNumber}-${year}-income`,
+    businessNumber: estimate.businessNumber,
+    kind: corporation ? '법인세' : '종합소득세',
+    periodLabel: `${year}년 귀속`,
+    periodStart: new Date(year, 0, 1),
+    periodEnd: new Date(year, 11, 31),
+    dueDate: nextBusinessDay(new Date(year + 1, corporation ? 2 : 4, 31)),
+    amount: estimate.estimatedIncomeTax + estimate.estimatedLocalIncomeTax,
+  }
+}
+
+export function upcomingTaxFilings(
+  estimates: BusinessTaxEstimate[],
+  from = new Date(),
+  months = 12,
+): TaxFiling[] {
+  const start = new Date(from.getFullYear(), from.getMonth(), from.getDate())
+  const end = new Date(start.getFullYear(), start.getMonth() + months, start.getDate())
+  const years = [start.getFullYear() - 1, start.getFullYear(), start.getFullYear() + 1]
+
+  return estimates
+    .filter((estimate) => estimate.businessNumber !== UNREGISTERED_BUSINESS_NUMBER)
+    .flatMap((estimate) =>
+      years.flatMap((year) => [
+        ...vatFilingsForYear(estimate, year),
+        incomeTaxFiling(estimate, year),
+      ]),
+    )
+    .filter((filing) => filing.dueDate >= start && filing.dueDate < end)
+    .sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime())
+}
+
+// The sheet's 부가세 column wins; the option only covers units that leave it blank.
+function monthlySupplyValueOf(unit: PortfolioUnit, options: TaxEstimatorOptions): number {
+  const rent = unit.monthlyRent ?? 0
+  return (unit.vatIncluded ?? options.rentIncludesVat) ? rent / (1 + VAT_RATE) : rent
+}
+
+function annualIncomeOf(unit: PortfolioUnit, options: TaxEstimatorOptions): number {
+  const depreciation =
+    options.usefulLifeYears > 0
+      ? (unit.supplyPrice ?? 0) * (options.buildingShare / options.usefulLifeYears)
+      : 0
+  return (
+    (monthlySupplyValueOf(unit, options) - (unit.monthlyInterest ?? 0)) * 12 -
+    (unit.buildingTax ?? 0) -
+    (unit.landTax ?? 0) -
+    (unit.trafficInducementCharge ?? 0) -
+    depreciation
+  )
+}
+
+function sumBy<T>(items: T[], value: (item: T) => number): number {
+  return items.reduce((acc, item) => acc + value(item), 0)
+}
+
+// 종합소득세 is progressive per person, so an owner's business numbers share one set of brackets.
+// Each business number then carries the owner's tax in proportion to the income it contributed.
+function individualIncomeTaxes(
+  groups: Array<[string, PortfolioUnit[]]>,
+  options: TaxEstimatorOptions,
+): Map<string, number> {
+  const incomes = new Map<string, Map<string, number>>()
+  for (const [businessNumber, groupUnits] of groups) {
+    if (taxpayerTypeOf(businessNumber) === 'corporation') continue
+    for (const unit of groupUnits) {
+      const byBusiness = incomes.get(unitOwner(unit)) ?? new Map<string, number>()
+      byBusiness.set(
+        businessNumber,
+        (byBusiness.get(businessNumber) ?? 0) + annualIncomeOf(unit, options),
+      )
+      incomes.set(unitOwner(unit), byBusiness)
+    }
+  }
+
+  const taxes = new Map<string, number>()
+  for (const byBusiness of incomes.values()) {
+    const shares = [...byBusiness.entries()].map(
+      ([businessNumber, income]) => [businessNumber, Math.max(0, income)] as const,
+    )
+    const positive = sumBy(shares, ([, income]) => income)
+    const total = Math.max(
+      0,
+      sumBy([...byBusiness.values()], (income) => income),
+    )
+    const tax = progressiveTax(total, INCOME_TAX_BRACKETS)
+    for (const [businessNumber, income] of shares) {
+      const share = positive > 0 ? (tax * income) / positive : 0
+      taxes.set(businessNumber, (taxes.get(businessNumber) ?? 0) + share)
+    }
+  }
+  return taxes
+}
+
+export function estimateBusinessTaxes(
+  units: PortfolioUnit[],
+  options: TaxEstimatorOptions = DEFAULT_TAX_ESTIMATOR_OPTIONS,
+): BusinessTaxEstimate[] {
+  const groups = new Map<string, PortfolioUnit[]>()
+  for (const unit of units) {
+    const raw = unit.businessNumber.trim()
+    const key = raw && raw !== '-' ? raw : UNREGISTERED_BUSINESS_NUMBER
+    groups.set(key, [...(groups.get(key) ?? []), unit])
+  }
+  const individualTaxes = individualIncomeTaxes([...groups.entries()], options)
+
+  return Array.from(groups.entries()).map(([businessNumber, groupUnits]) => {
+    const taxpayerType = taxpayerTypeOf(businessNumber)
+    const monthlySupplyValue = sumBy(groupUnits, (unit) => monthlySupplyValueOf(unit, options))
+    const annualRent = monthlySupplyValue * 12
+    const annualInterest =
+      groupUnits.reduce((acc, unit) => acc + (unit.monthlyInterest ?? 0), 0) * 12
+    const annualPropertyTax = groupUnits.reduce(
+      (acc, unit) =>
+        acc + (unit.buildingTax ?? 0) + (unit.landTax ?? 0) + (unit.trafficInducementCharge ?? 0),
+      0,
+    )
+    const annualDepreciation =
+      options.usefulLifeYears > 0
+        ? groupUnits.reduce((acc, unit) => acc + (unit.supplyPrice ?? 0), 0) *
+          (options.buildingShare / options.usefulLifeYears)
+        : 0
+    const taxableIncome = Math.max(
+      0,
+      annualRent - annualInterest - annualPropertyTax - annualDepreciation,
+    )
+    const estimatedIncomeTax =
+      taxpayerType === 'corporation'
+        ? progressiveTax(taxableIncome, CORPORATE_TAX_BRACKETS)
+        : (individualTaxes.get(businessNumber) ?? 0)
+
+    return {
+      businessNumber,
+      owners: Array.from(new Set(groupUnits.map(unitOwner))),
+      taxpayerType,
+      units: groupUnits,
+      monthlySupplyValue,
+      monthlyVat: monthlySupplyValue * VAT_RATE,
+      annualRent,
+      annualInterest,
+      annualPropertyTax,
+      annualDepreciation,
+      taxableIncome,
+      estimatedIncomeTax,
+      estimatedLocalIncomeTax: estimatedIncomeTax * 0.1,
+    }
+  })
+}
@@ -0,0 +1,36 @@
+import type { PortfolioUnit } from './portfolio'
+
+export function makeUnit(overrides: Partial<PortfolioUnit> = {}): PortfolioUnit {
+  return {
+    id: overrides.site ?? 'unit',
+    site: 'unit',
+    ownership: '본인',
+    tenantStatus: '임대중',
+    completionDate: '',
+    contractRenewalRaw: '',
+    loanRenewalRaw: '',
+    loanStartRaw: '',
+    leaseStartRaw: '',
+    completion: null,
+    contractRenewal: null,
+    loanRenewal: null,
+    loanStart: null,
+    leaseStart: null,
+    loanTermMonths: null,
+    repaymentType: null,
+    note: '',
+    businessNumber: '',
+    supplyPrice: null,
+    loanAmount: null,
+    interestRate: null,
+    monthlyInterest: null,
+    monthlyRent: null,
+    deposit: null,
+    tenantName: '',
+    vatIncluded: null,
+    buildingTax: null,
+    landTax: null,
+    trafficInducementCharge: null,
+    ...overrides,
+  }
+}
@@ -0,0 +1,264 @@
+import { parseRateLabel, toNumber, type UnitDetail } from './unitDetail'
+
+export type ComparisonValueKind = 'currency' | 'percent' | 'area'
+
+export type ComparisonDirection = 'higher' | 'lower'
+
+export type ComparisonMark = 'best' | 'worst' | null
+
+export type ComparisonRow = {
+  id: string
+  label: string
+  kind: ComparisonValueKind
+  values: Array<number | null>
+  marks: ComparisonMark[]
+}
+
+export type ComparisonSection = {
+  id: string
+  title: string
+  rows: ComparisonRow[]
+}
+
+type ComparisonMetric = {
+  id: string
+  label: string
+  kind: ComparisonValueKind
+  better: ComparisonDirection
+  value: (detail: UnitDetail) => number | null
+}
+
+function ratio(numerator: number | null, denominator: number | null): number | null {
+  return numerator !== null && denominator ? numerator / denominator : null
+}
+
+function supplyArea(detail: UnitDetail): number | null {
+  return toNumber(detail.building.supplyAreaPyeong)
+}
+
+function sumKnown(values: Array<number | null>): number | null {
+  const known = values.filter((value): value is number => value !== null)
+  return known.length > 0 ? known.reduce((acc, value) => acc + value, 0) : null
+}
+
+const BUILDING_METRICS: ComparisonMetric[] = [
+  { id: 'supplyArea', label: '분양면적(평)', kind: 'area', better: 'higher', value: supplyArea },
+  {
+    id: 'exclusiveArea',
+    label: '전용면적(평)',
+    kind: 'area',
+    better: 'higher',
+    value: (detail) => toNumber(detail.building.exclusiveAreaPyeong),
+  },
+  {
+    id: 'exclusiveRatio',
+    label: '전용률',
+    kind: 'percent',
+    better: 'higher',
+    value: (detail) => detail.building.exclusiveRatio,
+  },
+  {
+    id: 'supplyAmount',
+    label: '공급금액',
+    kind: 'currency',
+    better: 'lower',
+    value: (detail) => detail.building.supplyAmount,
+  },
+  {
+    id: 'totalAcquisition',
+    label: '분양금액',
+    kind: 'currency',
+    better: 'lower',
+    value: (detail) => detail.building.totalAcquisition,
+  },
+  {
+    id: 'pricePerPyeong',
+    label: '평당매매가',
+    kind: 'currency',
+    better: 'lower',
+    value: (detail) =>
+      detail.building.pricePerPyeong ?? ratio(detail.building.supplyAmount, supplyArea(detail)),
+  },
+]
+
+const LEASE_METRICS: ComparisonMetric[] = [
+  {
+    id: 'deposit',
+    label: '임대보증금',
+    kind: 'currency',
+    better: 'higher',
+    value: (detail) => detail.lease.deposit,
+  },
+  {
+    id: 'monthlyRent',
+    label: '월세',
+    kind: 'currency',
+    better: 'higher',
+    value: (detail) => detail.lease.monthlyRent,
+  },
+  {
+    id: 'rentPerPyeong',
+    label: '평당 월세',
+    kind: 'currency',
+    better: 'higher',
+    value: (detail) =>
+      detail.lease.monthlyRentPerPyeong ?? ratio(detail.lease.monthlyRent, supplyArea(detail)),
+  },
+  {
+    id: 'registration',
+    label: '등기비용',
+    kind: 'currency',
+    better: 'lower',
+    value: (detail) => detail.otherCosts.registration,
+  },
+  {
+    id: 'brokerage',
+    label: '부동산수수료',
+    kind: 'currency',
+    better: 'lower',
+    value: (detail) => detail.otherCosts.brokerage,
+  },
+  {
+    id: 'interestRate',
+    label: '대출이자율',
+    kind: 'percent',
+    better: 'lower',
+    value: (detail) => parseRateLabel(detail.loanInterestLabel),
+  },
+]
+
+const TAX_METRICS: ComparisonMetric[] = [
+  {
+    id: 'buildingTax',
+    label: '재산세(건물분)',
+    kind: 'currency',
+    better: 'lower',
+    value: (detail) => detail.otherCosts.propertyBuildingTax,
+  },
+  {
+    id: 'landTax',
+    label: '재산세(토지분)',
+    kind: 'currency',
+    better: 'lower',
+    value: (detail) => detail.otherCosts.propertyLandTax,
+  },
+  {
+    id: 'taxTotal',
+    label: '재산세 합계',
+    kind: 'currency',
+    better: 'lower',
+    value: (detail) =>
+      sumKnown([detail.otherCosts.propertyBuildingTax, detail.otherCosts.propertyLandTax]),
+  },
+]
+
+function markExtremes(values: Array<number | null>, better: ComparisonDirection): ComparisonMark[] {
+  const known = values.filter((value): value is number => value !== null)
+  const max = Math.max(...known)
+  const min = Math.min(...known)
+  // Nothing to rank when fewer than two units have a value or every value is the same.
+  if (known.length < 2 || max === min) return values.map(() => null)
+
+  const best = better === 'higher' ? max : min
+  const worst = better === 'higher' ? min : max
+  return values.map((value) => (value === best ? 'best' : value === worst ? 'worst' : null))
+}
+
+function buildRow(
+  id: string,
+  label: string,
+  kind: ComparisonValueKind,
+  better: ComparisonDirection,
+  values: Array<number | null>,
+): ComparisonRow {
+  return { id, label, kind, values, marks: markExtremes(values, better) }
+}
+
+function metricSection(
+  id: string,
+  title: string,
+  metrics: ComparisonMetric[],
+  details: UnitDetail[],
+): ComparisonSection {
+  return {
+    id,
+    title,
+    rows: metrics.map((metric) =>
+      buildRow(
+        metric.id,
+        metric.label,
+        metric.kind,
+        metric.better,
+        details.map((detail) => metric.value(detail)),
+      ),
+    ),
+  }
+}
+
+function normalizeLtv(label: string): string {
+  return label.replace(/\s+/g, '')
+}
+
+function scenarioSections(details: UnitDetail[]): ComparisonSection[] {
+  const ltvLabels: string[] = []
+  for (const detail of details) {
+    for (const scenario of detail.scenarios) {
+      const label = normalizeLtv(scenario.ltv)
+      if (!ltvLabels.includes(label)) ltvLabels.push(label)
+    }
+  }
+
+  return ltvLabels.map((ltv) => {
+    const scenarios = details.map(
+      (detail) => detail.scenarios.find((scenario) => normalizeLtv(scenario.ltv) === ltv) ?? null,
+    )
+    return {
+      id: `scenario-${ltv}`,
+      title: `시나리오 · LTV ${ltv}`,
+      rows: [
+        buildRow(
+          `${ltv}-investedTotal`,
+          '총투입자본',
+          'currency',
+          'lower',
+          scenarios.map((scenario) => scenario?.investedTotal ?? null),
+        ),
+        buildRow(
+          `${ltv}-monthlyNet`,
+          '월순현금흐름',
+          'currency',
+          'higher',
+          scenarios.map((scenario) => scenario?.monthlyNet ?? null),
+        ),
+        buildRow(
+          `${ltv}-annualRoi`,
+          '연수익률',
+          'percent',
+          'higher',
+          scenarios.map((scenario) => scenario?.annualRoi ?? null),
+        ),
+      ],
+    }
+  })
+}
+
+export function buildUnitComparison(details: UnitDetail[]): ComparisonSection[] {
+  return [
+    metricSection('building', '건물 정보', BUILDING_METRICS, details),
+    metricSection('lease', '임대/비용', LEASE_METRICS, details),
+    ...scenarioSections(details),
+    metricSection('tax', '세금', TAX_METRICS, details),
+  ]
+}
+
+export function parseComparisonSlugs(value: string | null): string[] {
+  const slugs = (value ?? '')
+    .split(',')
+    .map((slug) => slug.trim())
+    .filter(Boolean)
+  return Array.from(new Set(slugs))
+}
+
+export function comparePath(slugs: string[]): string {
+  return slugs.length > 0 ? `/compare?units=${slugs.join(',')}` : '/compare'
+}
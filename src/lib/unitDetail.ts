@@ -0,0 +1,173 @@
+import type { GvizCell, GvizTable } from './googleSheets'
+import type { UnitScenario } from './unitScenario'
+
+function cellToString(cell: GvizCell | null | undefined): string {
+  if (!cell) return ''
+  if (cell.f && cell.f.trim()) return cell.f.trim()
+  if (cell.v === null || cell.v === undefined) return ''
+  return String(cell.v).trim()
+}
+
+function normalize(value: string): string {
+  return value.replace(/\s+/g, '').toLowerCase()
+}
+
+function findCellByKeyword(table: GvizTable, keyword: string): { row: number; col: number } | null {
+  const target = normalize(keyword)
+  const rows = table.rows ?? []
+  for (let r = 0; r < rows.length; r++) {
+    const cells = rows[r].c ?? []
+    for (let c = 0; c < cells.length; c++) {
+      if (normalize(cellToString(cells[c])).includes(target)) {
+        return { row: r, col: c }
+      }
+    }
+  }
+  return null
+}
+
+function getNumericAt(table: GvizTable, row: number, col: number): number | null {
+  const cell = table.rows?.[row]?.c?.[col] ?? null
+  const fromValue = toNumber(cell?.v as string | number | null)
+  if (fromValue !== null) return fromValue
+  return toNumber(cellToString(cell))
+}
+
+function getNumericBelow(
+  table: GvizTable,
+  anchor: { row: number; col: number },
+  maxDepth = 4,
+): number | null {
+  for (let offset = 1; offset <= maxDepth; offset++) {
+    const value = getNumericAt(table, anchor.row + offset, anchor.col)
+    if (value !== null) return value
+  }
+  return null
+}
+
+function getRegistrationHeuristic(
+  table: GvizTable,
+  anchor: { row: number; col: number } | null,
+): number | null {
+  if (!anchor) return null
+  const row = table.rows?.[anchor.row + 1]
+  const cells = row?.c ?? []
+  const numbers: number[] = []
+
+  for (let c = anchor.col; c < cells.length; c++) {
+    const value =
+      toNumber(cells[c]?.v as string | number | null) ?? toNumber(cellToString(cells[c]))
+    if (value !== null) {
+      numbers.push(value)
+    }
+  }
+
+  if (numbers.length === 0) return null
+  if (numbers.length >= 3) return numbers[2]
+  return numbers[numbers.length - 1]
+}
+
+export function toNumber(value: string | number | null): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value !== 'string') return null
+  const normalized = value.replace(/[^\d.-]/g, '')
+  if (!normalized) return null
+  const parsed = Number(normalized)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+export function parseRateLabel(label: string): number | null {
+  const value = toNumber(label)
+  if (value === null) return null
+  return value > 1 ? value / 100 : value
+}
+
+export function parseDetail(table: GvizTable) {
+  const rows = table.rows ?? []
+  const getCell = (r: number, c: number) => rows[r]?.c?.[c] ?? null
+
+  const depositLabel = findCellByKeyword(table, '보증금')
+  const rentLabel = findCellByKeyword(table, '월세')
+  const rentPerPyeongLabel = findCellByKeyword(table, '평당월세')
+  const acquisitionTaxLabel = findCellByKeyword(table, '취등록세')
+  const registrationLabel = findCellByKeyword(table, '등기비용')
+
+  const leaseDeposit =
+    depositLabel !== null
+      ? getNumericBelow(table, depositLabel)
+      : toNumber(cellToString(getCell(8, 1)))
+  const monthlyRent =
+    rentLabel !== null
+      ? getNumericBelow(table, rentLabel)
+      : depositLabel !== null
+        ? getNumericAt(table, depositLabel.row + 1, depositLabel.col + 1)
+        : toNumber(cellToString(getCell(8, 2)))
+  const monthlyRentPerPyeong =
+    rentPerPyeongLabel !== null
+      ? getNumericBelow(table, rentPerPyeongLabel)
+      : rentLabel !== null
+        ? getNumericAt(table, rentLabel.row + 1, rentLabel.col + 1)
+        : depositLabel !== null
+          ? getNumericAt(table, depositLabel.row + 1, depositLabel.col + 2)
+          : null
+
+  const scenarios: UnitScenario[] = rows
+    .filter((row) => cellToString(row.c?.[1]).includes('%'))
+    .map((row) => {
+      const c = row.c ?? []
+      return {
+        ltv: cellToString(c[1]) || '-',
+        loanAmount: toNumber(cellToString(c[2])),
+        equity: toNumber(c[3]?.v as string | number | null),
+        deposit: toNumber(c[4]?.v as string | number | null),
+        fixedCost: toNumber(c[5]?.v as string | number | null),
+        investedTotal: toNumber(c[6]?.v as string | number | null),
+        monthlyRent: toNumber(c[7]?.v as string | number | null),
+        monthlyInterest: toNumber(c[8]?.v as string | number | null),
+        monthlyNet: toNumber(c[9]?.v as string | number | null),
+        monthlyRoi: toNumber(c[10]?.v as string | number | null),
+        annualProfit: toNumber(c[11]?.v as string | number | null),
+        annualRoi: toNumber(c[12]?.v as string | number | null),
+      }
+    })
+
+  const registrationFromAcquisitionTax =
+    acquisitionTaxLabel !== null ? getNumericBelow(table, acquisitionTaxLabel) : null
+  const registrationFromScenario = scenarios.length > 0 ? scenarios[0].fixedCost : null
+  const registrationFallback = getRegistrationHeuristic(table, registrationLabel)
+
+  return {
+    warningText: table.cols[1]?.label ?? '',
+    building: {
+      supplyAreaPyeong: cellToString(getCell(0, 1)),
+      exclusiveAreaPyeong: cellToString(getCell(0, 2)),
+      exclusiveRatio: toNumber(getCell(0, 3)?.v as string | number | null),
+      landPrice: toNumber(getCell(0, 4)?.v as string | number | null),
+      buildingPrice: toNumber(getCell(0, 5)?.v as string | number | null),
+      pricePerPyeong: toNumber(getCell(0, 6)?.v as string | number | null),
+      supplyAmount: toNumber(getCell(0, 7)?.v as string | number | null),
+      vat: toNumber(getCell(0, 8)?.v as string | number | null),
+      totalAcquisition: toNumber(getCell(0, 9)?.v as string | number | null),
+    },
+    facility: {
+      hvac: cellToString(getCell(5, 1)),
+      interior: cellToString(getCell(5, 2)),
+    },
+    lease: {
+      deposit: leaseDeposit,
+      monthlyRent,
+      monthlyRentPerPyeong,
+    },
+    otherCosts: {
+      registration:
+        registrationFromAcquisitionTax ?? registrationFromScenario ?? registrationFallback,
+      brokerage: toNumber(cellToString(getCell(11, 2))),
+      propertyBuildingTax: toNumber(cellToString(getCell(12, 1))),
+      propertyLandTax: toNumber(cellToString(getCell(12, 2))),
+    },
+    loanInterestLabel: cellToString(getCell(14, 2)),
+    scenarios,
+  }
+}
+
+export type UnitDetail = ReturnType<typeof parseDetail>
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import fixtureJson from '../../public/fixtures/portfolio.json?raw'
+
+const fixture = JSON.parse(fixtureJson)
+
+// Each test gets a fresh data source, since getDataSource() caches the first one it builds.
+async function loadModule(env: Record<string, string>, extraTabs: Record<string, unknown> = {}) {
+  for (const [name, value] of Object.entries(env)) vi.stubEnv(name, value)
+  const tabs = { ...fixture.tabs, ...extraTabs }
+  const tabTitles = { ...fixture.tabTitles, memo: '메모', empty: '인덱스' }
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async () => new Response(JSON.stringify({ ...fixture, tabs, tabTitles }))),
+  )
+  vi.resetModules()
+  return import('./unitDetailRoutes')
+}
+
+beforeEach(() => {
+  vi.stubEnv('VITE_UNIT_INDEX_GID', '')
+  vi.stubEnv('VITE_SHEETS_PROXY_URL', '')
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.unstubAllGlobals()
+})
+
+describe('loadUnitRegistry', () => {
+  it('falls back to the builtin routes when the source has no tab list', async () => {
+    const { loadUnitRegistry } = await loadModule({ VITE_DATA_SOURCE: 'gviz' })
+    const registry = await loadUnitRegistry([])
+    expect(registry.source).toBe('builtin')
+    expect(registry.routes).toHaveLength(9)
+  })
+
+  it('builds routes only for tabs named after a portfolio row', async () => {
+    const { loadUnitRegistry } = await loadModule(
+      { VITE_DATA_SOURCE: 'fixture' },
+      { memo: { cols: [], rows: [] } },
+    )
+    const registry = await loadUnitRegistry([
+      { 현장: '문래 SKv1 712호' },
+      { 현장: '덕은 리버워크 B동 1016호' },
+    ])
+    expect(registry.source).toBe('tabs')
+    expect(registry.routes.map((route) => route.slug).sort()).toEqual([
+      'deogeun-riverwalk-b-1016',
+      'mullae-skv1-712',
+    ])
+  })
+
+  it('fails visibly when the index tab is empty', async () => {
+    const { loadUnitRegistry } = await loadModule(
+      { VITE_DATA_SOURCE: 'fixture', VITE_UNIT_INDEX_GID: 'empty' },
+      { empty: { cols: [], rows: [] } },
+    )
+    await expect(loadUnitRegistry([])).rejects.toThrow('비어 있습니다')
+  })
+})
+
+describe('getUnitDetailBySlug', () => {
+  it('resolves legacy slugs to the route with the same gid', async () => {
+    const { getUnitDetailBySlug } = await loadModule({ VITE_DATA_SOURCE: 'gviz' })
+    const registry = {
+      source: 'index' as const,
+      routes: [{ slug: 'mullae-712', gid: '1376039638', title: '문래', aliases: ['문래'] }],
+    }
+    expect(getUnitDetailBySlug(registry, 'mullae-skv1-712')?.slug).toBe('mullae-712')
+    expect(getUnitDetailBySlug(registry, 'unknown')).toBeNull()
+  })
+})
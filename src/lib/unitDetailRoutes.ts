@@ -1,11 +1,29 @@
-type UnitDetailRoute = {
+import { getDataSource, type SheetTab } from './dataSources'
+import {
+  fetchGoogleSheetRows,
+  fetchGoogleSheetTableByGid,
+  tableToRows,
+  type SheetRow,
+} from './googleSheets'
+import { resolvePortfolioColumns } from './portfolioColumns'
+
+export type UnitDetailRoute = {
   slug: string
   gid: string
   title: string
   aliases: string[]
 }
 
-const UNIT_DETAIL_ROUTES: UnitDetailRoute[] = [
+export type UnitRegistrySource = 'index' | 'tabs' | 'builtin' | 'none'
+
+export type UnitRegistry = {
+  source: UnitRegistrySource
+  routes: UnitDetailRoute[]
+}
+
+// The routes that used to be hardcoded. They keep old /units/<slug> links working and remain
+// the registry for the gviz source, which cannot list tabs, when no index tab is configured.
+const BUILTIN_UNIT_ROUTES: UnitDetailRoute[] = [
   {
     slug: 'deogeun-riverwalk-b-1016',
     gid: '85403937',
@@ -62,19 +80,186 @@ const UNIT_DETAIL_ROUTES: UnitDetailRoute[] = [
   },
 ]
 
+const INITIALS = [
+  'g', 'kk', 'n', 'd', 'tt', 'r', 'm', 'b', 'pp', 's',
+  'ss', '', 'j', 'jj', 'ch', 'k', 't', 'p', 'h',
+]
+const MEDIALS = [
+  'a', 'ae', 'ya', 'yae', 'eo', 'e', 'yeo', 'ye', 'o', 'wa', 'wae',
+  'oe', 'yo', 'u', 'wo', 'we', 'wi', 'yu', 'eu', 'ui', 'i',
+]
+const FINALS = [
+  '', 'k', 'k', 'k', 'n', 'n', 'n', 't', 'l', 'k', 'm', 'l', 'l', 'l',
+  'p', 'l', 'm', 'p', 'p', 't', 't', 'ng', 't', 't', 'k', 't', 'p', 't',
+]
+const FINALS_BEFORE_VOWEL: Record<number, string> = {
+  1: 'g', 2: 'kk', 4: 'n', 7: 'd', 8: 'r', 16: 'm', 17: 'b',
+  19: 's', 20: 'ss', 22: 'j', 23: 'ch', 24: 'k', 25: 't', 26: 'p', 27: '',
+}
+
+function romanizeHangul(value: string): string {
+  const chars = Array.from(value)
+  let result = ''
+
+  chars.forEach((char, index) => {
+    const code = char.charCodeAt(0) - 0xac00
+    if (code < 0 || code > 11171) {
+      result += char
+      return
+    }
+
+    const initial = Math.floor(code / 588)
+    const medial = Math.floor((code % 588) / 28)
+    const final = code % 28
+    const nextCode = (chars[index + 1]?.charCodeAt(0) ?? 0) - 0xac00
+    const nextStartsWithVowel =
+      nextCode >= 0 && nextCode <= 11171 && Math.floor(nextCode / 588) === 11
+    const nextStartsWithRieul =
+      nextCode >= 0 && nextCode <= 11171 && Math.floor(nextCode / 588) === 5
+    const previousCode = (chars[index - 1]?.charCodeAt(0) ?? 0) - 0xac00
+    const previousFinal = previousCode >= 0 && previousCode <= 11171 ? previousCode % 28 : 0
+    const carriedFinal = initial === 11 ? FINALS_BEFORE_VOWEL[previousFinal] : undefined
+    const lateralized = initial === 5 && (previousFinal === 4 || previousFinal === 8)
+
+    result += carriedFinal !== undefined ? carriedFinal : lateralized ? 'l' : INITIALS[initial]
+    result += MEDIALS[medial]
+    if (final === 4 && nextStartsWithRieul) {
+      result += 'l'
+    } else if (!(nextStartsWithVowel && FINALS_BEFORE_VOWEL[final] !== undefined)) {
+      result += FINALS[final]
+    }
+  })
+
+  return result
+}
+
+export function toUnitSlug(title: string): string {
+  return romanizeHangul(title)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
 function normalize(value: string): string {
   return value.toLowerCase().replace(/[\s-]/g, '')
 }
 
-export function getUnitDetailBySite(site: string) {
+function withUniqueSlugs(routes: Array<Omit<UnitDetailRoute, 'slug'> & { slug?: string }>) {
+  const used = new Set<string>()
+  return routes.map((route) => {
+    const builtin = BUILTIN_UNIT_ROUTES.find((item) => item.gid === route.gid)
+    const base = route.slug || builtin?.slug || toUnitSlug(route.title) || `unit-${route.gid}`
+    let slug = base
+    for (let suffix = 2; used.has(slug); suffix++) {
+      slug = `${base}-${suffix}`
+    }
+    used.add(slug)
+    const aliases = [...new Set([...route.aliases, ...(builtin?.aliases ?? [])])]
+    return { ...route, slug, aliases }
+  })
+}
+
+function findIndexColumn(columns: string[], keys: string[]): string {
+  for (const key of keys) {
+    const found = columns.find((column) => normalize(column).includes(key))
+    if (found) return found
+  }
+  return ''
+}
+
+function routesFromIndexRows(rows: SheetRow[]): UnitDetailRoute[] {
+  if (rows.length === 0) throw new Error('호실 인덱스 탭(VITE_UNIT_INDEX_GID)이 비어 있습니다.')
+  const columns = Object.keys(rows[0])
+  const titleColumn = findIndexColumn(columns, ['현장', '호실', 'title'])
+  const gidColumn = findIndexColumn(columns, ['gid', '탭'])
+  if (!titleColumn || !gidColumn) {
+    throw new Error(
+      '호실 인덱스 탭에서 현장·gid 열을 찾지 못했습니다. 첫 행의 열 이름을 확인하세요.',
+    )
+  }
+  const aliasColumn = findIndexColumn(columns, ['별칭', 'alias'])
+  const slugColumn = findIndexColumn(columns, ['slug'])
+
+  return withUniqueSlugs(
+    rows
+      .map((row) => {
+        const title = String(row[titleColumn] ?? '').trim()
+        const gid = String(row[gidColumn] ?? '').trim()
+        const aliases = String(row[aliasColumn] ?? '')
+          .split(/[,\n]/)
+          .map((alias) => alias.trim())
+          .filter(Boolean)
+        return {
+          title,
+          gid,
+          slug: toUnitSlug(String(row[slugColumn] ?? '')),
+          aliases: [title, ...aliases],
+        }
+      })
+      .filter((route) => route.title && route.gid),
+  )
+}
+
+function routesFromTabs(tabs: SheetTab[], sites: string[]): UnitDetailRoute[] {
+  const portfolioName = import.meta.env.VITE_GOOGLE_SHEET_NAME || 'Sheet1'
+  const otherGids = [
+    import.meta.env.VITE_GOOGLE_SHEET_GID,
+    import.meta.env.VITE_UNIT_INDEX_GID,
+    import.meta.env.VITE_PAYMENTS_GID,
+  ].filter(Boolean)
+  const siteKeys = new Set(sites.map(normalize))
+
+  return withUniqueSlugs(
+    tabs
+      .filter((tab) => !otherGids.includes(tab.gid) && tab.title !== portfolioName)
+      .map((tab) => {
+        const builtin = BUILTIN_UNIT_ROUTES.find((item) => item.gid === tab.gid)
+        return { gid: tab.gid, title: tab.title, aliases: [tab.title, ...(builtin?.aliases ?? [])] }
+      })
+      // Only tabs named after a portfolio row are detail tabs; the rest are notes, ledgers, etc.
+      .filter((route) => route.aliases.some((alias) => siteKeys.has(normalize(alias)))),
+  )
+}
+
+function portfolioSites(rows: SheetRow[]): string[] {
+  const { site } = resolvePortfolioColumns(rows.length > 0 ? Object.keys(rows[0]) : []).columns
+  return rows.map((row) => String(row[site] ?? '').trim()).filter(Boolean)
+}
+
+// Pass the portfolio rows the page already loaded; without them the tab list path fetches them.
+export async function loadUnitRegistry(
+  portfolioRows: SheetRow[] | null = null,
+): Promise<UnitRegistry> {
+  const indexGid = import.meta.env.VITE_UNIT_INDEX_GID
+  if (indexGid && typeof indexGid === 'string') {
+    const table = await fetchGoogleSheetTableByGid(indexGid)
+    return { source: 'index', routes: routesFromIndexRows(tableToRows(table)) }
+  }
+
+  const source = getDataSource()
+  if (source.listTabs) {
+    const [tabs, rows] = await Promise.all([
+      source.listTabs(),
+      portfolioRows ?? fetchGoogleSheetRows(),
+    ])
+    return { source: 'tabs', routes: routesFromTabs(tabs, portfolioSites(rows)) }
+  }
+
+  return { source: 'builtin', routes: BUILTIN_UNIT_ROUTES }
+}
+
+export function getUnitDetailBySite(registry: UnitRegistry, site: string) {
   const target = normalize(site)
   return (
-    UNIT_DETAIL_ROUTES.find((route) =>
-      route.aliases.some((alias) => normalize(alias) === target),
-    ) ?? null
+    registry.routes.find((route) => route.aliases.some((alias) => normalize(alias) === target)) ??
+    null
   )
 }
 
-export function getUnitDetailBySlug(slug: string) {
-  return UNIT_DETAIL_ROUTES.find((item) => item.slug === slug) ?? null
+export function getUnitDetailBySlug(registry: UnitRegistry, slug: string) {
+  const route = registry.routes.find((item) => item.slug === slug)
+  if (route) return route
+  // Bookmarks made before the registry moved to the sheet use the old hardcoded slugs.
+  const builtin = BUILTIN_UNIT_ROUTES.find((item) => item.slug === slug)
+  return (builtin && registry.routes.find((item) => item.gid === builtin.gid)) ?? null
 }
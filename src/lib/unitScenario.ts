@@ -0,0 +1,71 @@
+export type UnitScenario = {
+  ltv: string
+  loanAmount: number | null
+  equity: number | null
+  deposit: number | null
+  fixedCost: number | null
+  investedTotal: number | null
+  monthlyRent: number | null
+  monthlyInterest: number | null
+  monthlyNet: number | null
+  monthlyRoi: number | null
+  annualProfit: number | null
+  annualRoi: number | null
+}
+
+export type ScenarioInputs = {
+  supplyAmount: number
+  deposit: number
+  fixedCost: number
+  monthlyRent: number
+  annualRate: number
+}
+
+export type ScenarioField = Exclude<keyof UnitScenario, 'ltv'>
+
+// The sheet rounds loan amounts to the nearest million won.
+export const LOAN_ROUNDING_UNIT = 1_000_000
+
+const RATIO_FIELDS: ScenarioField[] = ['monthlyRoi', 'annualRoi']
+
+export function parseLtvLabel(label: string): number | null {
+  const value = Number(label.replace(/[^\d.]/g, ''))
+  if (!label.trim() || !Number.isFinite(value)) return null
+  return label.includes('%') || value > 1 ? value / 100 : value
+}
+
+export function buildUnitScenario(inputs: ScenarioInputs, ltv: number): UnitScenario {
+  const loanAmount =
+    Math.round((inputs.supplyAmount * ltv) / LOAN_ROUNDING_UNIT) * LOAN_ROUNDING_UNIT
+  const equity = inputs.supplyAmount - loanAmount
+  const investedTotal = equity - inputs.deposit + inputs.fixedCost
+  const monthlyInterest = (loanAmount * inputs.annualRate) / 12
+  const monthlyNet = inputs.monthlyRent - monthlyInterest
+  const annualProfit = monthlyNet * 12
+
+  return {
+    ltv: `${Number((ltv * 100).toFixed(1))}%`,
+    loanAmount,
+    equity,
+    deposit: inputs.deposit,
+    fixedCost: inputs.fixedCost,
+    investedTotal,
+    monthlyRent: inputs.monthlyRent,
+    monthlyInterest,
+    monthlyNet,
+    monthlyRoi: investedTotal > 0 ? monthlyNet / investedTotal : null,
+    annualProfit,
+    annualRoi: investedTotal > 0 ? annualProfit / investedTotal : null,
+  }
+}
+
+export function scenarioMismatches(sheet: UnitScenario, computed: UnitScenario): ScenarioField[] {
+  const fields = Object.keys(computed).filter((key) => key !== 'ltv') as ScenarioField[]
+  return fields.filter((field) => {
+    const expected = sheet[field]
+    const actual = computed[field]
+    if (expected === null || actual === null) return false
+    const tolerance = RATIO_FIELDS.includes(field) ? 0.0005 : Math.max(1, Math.abs(expected) * 0.001)
+    return Math.abs(expected - actual) > tolerance
+  })
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import { makeUnit } from './testUnits'
+import {
+  applyUnitTableQuery,
+  parseUnitTableQuery,
+  unitComplex,
+  writeUnitTableQuery,
+  type UnitTableQuery,
+} from './unitTable'
+
+const NO_QUERY: UnitTableQuery = {
+  sort: null,
+  direction: 'desc',
+  ownership: null,
+  tenantStatus: null,
+  complex: null,
+  group: null,
+}
+
+describe('unitComplex', () => {
+  it('strips building, unit and floor numbers', () => {
+    expect(unitComplex('덕은 리버워크 B동 1016호')).toBe('덕은 리버워크')
+    expect(unitComplex('마곡 101동 1203호')).toBe('마곡')
+    expect(unitComplex('선유도투웨니퍼스트밸리 B109호')).toBe('선유도투웨니퍼스트밸리')
+    expect(unitComplex('덕은지엘매트로시티 AA509호')).toBe('덕은지엘매트로시티')
+    expect(unitComplex('덕은지엘매트로시티 AB1005호')).toBe('덕은지엘매트로시티')
+    expect(unitComplex('성수 B-1층 12')).toBe('성수')
+  })
+
+  it('keeps place names that end in 동', () => {
+    expect(unitComplex('영등포 문래동')).toBe('영등포 문래동')
+    expect(unitComplex('문래동 712호')).toBe('문래동')
+  })
+})
+
+describe('applyUnitTableQuery', () => {
+  const units = [
+    makeUnit({ site: '덕은지엘매트로시티 AA509호', monthlyRent: 1_500_000, ownership: '본인' }),
+    makeUnit({ site: '덕은지엘매트로시티 AB1005호', monthlyRent: 1_700_000, ownership: '배우자' }),
+    makeUnit({ site: '문래 SKv1 712호', monthlyRent: 900_000, ownership: '본인' }),
+    makeUnit({ site: '영등포 문래동', monthlyRent: null, ownership: '본인' }),
+  ]
+
+  it('groups units of the same complex with a subtotal', () => {
+    const groups = applyUnitTableQuery(units, { ...NO_QUERY, group: 'complex' })
+    expect(groups.map((group) => [group.label, group.units.length])).toEqual([
+      ['덕은지엘매트로시티', 2],
+      ['문래 SKv1', 1],
+      ['영등포 문래동', 1],
+    ])
+    expect(groups[0].subtotal.monthlyRentIncome).toBe(3_200_000)
+  })
+
+  it('filters by complex and sorts with empty values last', () => {
+    const [all] = applyUnitTableQuery(units, {
+      ...NO_QUERY,
+      sort: 'monthlyRent',
+      direction: 'asc',
+      ownership: '본인',
+    })
+    expect(all.units.map((unit) => unit.site)).toEqual([
+      '문래 SKv1 712호',
+      '덕은지엘매트로시티 AA509호',
+      '영등포 문래동',
+    ])
+
+    const [complex] = applyUnitTableQuery(units, { ...NO_QUERY, complex: '덕은지엘매트로시티' })
+    expect(complex.units).toHaveLength(2)
+  })
+})
+
+describe('unit table query string', () => {
+  it('round-trips through the URL and drops unknown keys', () => {
+    const query: UnitTableQuery = {
+      ...NO_QUERY,
+      sort: 'unitRoe',
+      direction: 'asc',
+      complex: '문래 SKv1',
+      group: 'ownership',
+    }
+    const params = writeUnitTableQuery(new URLSearchParams('tab=1'), query)
+    expect(params.get('tab')).toBe('1')
+    expect(parseUnitTableQuery(params)).toEqual(query)
+    expect(parseUnitTableQuery(new URLSearchParams('sort=bogus&group=x'))).toEqual(NO_QUERY)
+  })
+})
@@ -0,0 +1,161 @@
+import { sheetDateDue } from './dates'
+import {
+  summarizePortfolio,
+  unitCashflow,
+  type PortfolioSummary,
+  type PortfolioUnit,
+} from './portfolio'
+
+export type UnitSortKey =
+  | 'supplyPrice'
+  | 'loanAmount'
+  | 'interestRate'
+  | 'monthlyRent'
+  | 'monthlyInterest'
+  | 'monthlyNet'
+  | 'unitRoe'
+  | 'contractRenewal'
+  | 'loanRenewal'
+
+export type SortDirection = 'asc' | 'desc'
+
+export type UnitGroupKey = 'ownership' | 'tenantStatus' | 'complex'
+
+export type UnitTableQuery = {
+  sort: UnitSortKey | null
+  direction: SortDirection
+  ownership: string | null
+  tenantStatus: string | null
+  complex: string | null
+  group: UnitGroupKey | null
+}
+
+export type UnitGroup = {
+  key: string
+  label: string
+  units: PortfolioUnit[]
+  subtotal: PortfolioSummary
+}
+
+const SORT_KEYS: UnitSortKey[] = [
+  'supplyPrice',
+  'loanAmount',
+  'interestRate',
+  'monthlyRent',
+  'monthlyInterest',
+  'monthlyNet',
+  'unitRoe',
+  'contractRenewal',
+  'loanRenewal',
+]
+
+const GROUP_KEYS: UnitGroupKey[] = ['ownership', 'tenantStatus', 'complex']
+
+export const GROUP_LABELS: Record<UnitGroupKey, string> = {
+  ownership: '명의',
+  tenantStatus: '실입주',
+  complex: '단지',
+}
+
+const UNIT_NUMBER_TOKEN = /^([A-Za-z]*-?\d+[A-Za-z]?(동|호|층)|[A-Za-z]+동|\d+)$/
+
+export function unitComplex(site: string): string {
+  const tokens = site.trim().split(/\s+/)
+  // Strip building/unit/floor numbers like B동, AA509호 or B-1층, but keep place names like 문래동.
+  while (tokens.length > 1 && UNIT_NUMBER_TOKEN.test(tokens[tokens.length - 1])) {
+    tokens.pop()
+  }
+  return tokens.join(' ')
+}
+
+function sortValue(unit: PortfolioUnit, key: UnitSortKey): number | null {
+  if (key === 'monthlyNet') return unitCashflow(unit).monthlyNet
+  if (key === 'unitRoe') return unitCashflow(unit).annualReturnOnEquity
+  if (key === 'contractRenewal' || key === 'loanRenewal') {
+    const value = unit[key]
+    return value ? sheetDateDue(value).getTime() : null
+  }
+  return unit[key]
+}
+
+function groupValue(unit: PortfolioUnit, key: UnitGroupKey): string {
+  if (key === 'complex') return unitComplex(unit.site)
+  return unit[key].trim() || '-'
+}
+
+export function parseUnitTableQuery(params: URLSearchParams): UnitTableQuery {
+  const sort = params.get('sort') as UnitSortKey | null
+  const group = params.get('group') as UnitGroupKey | null
+  return {
+    sort: sort && SORT_KEYS.includes(sort) ? sort : null,
+    direction: params.get('dir') === 'asc' ? 'asc' : 'desc',
+    ownership: params.get('owner'),
+    tenantStatus: params.get('tenant'),
+    complex: params.get('complex'),
+    group: group && GROUP_KEYS.includes(group) ? group : null,
+  }
+}
+
+export function writeUnitTableQuery(params: URLSearchParams, query: UnitTableQuery) {
+  const next = new URLSearchParams(params)
+  const entries: Array<[string, string | null]> = [
+    ['sort', query.sort],
+    ['dir', query.sort ? query.direction : null],
+    ['owner', query.ownership],
+    ['tenant', query.tenantStatus],
+    ['complex', query.complex],
+    ['group', query.group],
+  ]
+  for (const [name, value] of entries) {
+    if (value) {
+      next.set(name, value)
+    } else {
+      next.delete(name)
+    }
+  }
+  return next
+}
+
+export function unitFilterOptions(units: PortfolioUnit[], key: UnitGroupKey): string[] {
+  return Array.from(new Set(units.map((unit) => groupValue(unit, key)))).sort((a, b) =>
+    a.localeCompare(b, 'ko'),
+  )
+}
+
+export function applyUnitTableQuery(units: PortfolioUnit[], query: UnitTableQuery): UnitGroup[] {
+  const filtered = units.filter(
+    (unit) =>
+      (query.ownership === null || groupValue(unit, 'ownership') === query.ownership) &&
+      (query.tenantStatus === null || groupValue(unit, 'tenantStatus') === query.tenantStatus) &&
+      (query.complex === null || groupValue(unit, 'complex') === query.complex),
+  )
+
+  const { sort } = query
+  const sorted = sort
+    ? [...filtered].sort((a, b) => {
+        const left = sortValue(a, sort)
+        const right = sortValue(b, sort)
+        if (left === null || right === null) return left === right ? 0 : left === null ? 1 : -1
+        return query.direction === 'asc' ? left - right : right - left
+      })
+    : filtered
+
+  const { group } = query
+  if (!group) {
+    return [{ key: 'all', label: '전체', units: sorted, subtotal: summarizePortfolio(sorted) }]
+  }
+
+  const groups = new Map<string, PortfolioUnit[]>()
+  for (const unit of sorted) {
+    const key = groupValue(unit, group)
+    groups.set(key, [...(groups.get(key) ?? []), unit])
+  }
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b, 'ko'))
+    .map(([key, groupUnits]) => ({
+      key,
+      label: key,
+      units: groupUnits,
+      subtotal: summarizePortfolio(groupUnits),
+    }))
+}
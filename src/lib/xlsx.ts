@@ -0,0 +1,412 @@
+export type XlsxCellValue = string | number | boolean | null
+export type XlsxSheet = { name: string; rows: XlsxCellValue[][] }
+
+type ZipEntry = {
+  name: string
+  method: number
+  compressedSize: number
+  localHeaderOffset: number
+}
+
+const BUILTIN_DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47])
+
+function readZipEntries(buffer: ArrayBuffer): ZipEntry[] {
+  const view = new DataView(buffer)
+  let eocd = -1
+  for (let offset = view.byteLength - 22; offset >= 0; offset--) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      eocd = offset
+      break
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('XLSX 파일 형식이 올바르지 않습니다.')
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true)
+  let cursor = view.getUint32(eocd + 16, true)
+  const decoder = new TextDecoder()
+  const entries: ZipEntry[] = []
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(cursor, true) !== 0x02014b50) break
+    const nameLength = view.getUint16(cursor + 28, true)
+    const extraLength = view.getUint16(cursor + 30, true)
+    const commentLength = view.getUint16(cursor + 32, true)
+    const nameBytes = new Uint8Array(buffer, cursor + 46, nameLength)
+    entries.push({
+      name: decoder.decode(nameBytes),
+      method: view.getUint16(cursor + 10, true),
+      compressedSize: view.getUint32(cursor + 20, true),
+      localHeaderOffset: view.getUint32(cursor + 42, true),
+    })
+    cursor += 46 + nameLength + extraLength + commentLength
+  }
+
+  return entries
+}
+
+async function readZipEntry(buffer: ArrayBuffer, entry: ZipEntry): Promise<string> {
+  const view = new DataView(buffer)
+  const header = entry.localHeaderOffset
+  const nameLength = view.getUint16(header + 26, true)
+  const extraLength = view.getUint16(header + 28, true)
+  const start = header + 30 + nameLength + extraLength
+  const data = new Uint8Array(buffer, start, entry.compressedSize)
+
+  if (entry.method === 0) {
+    return new TextDecoder().decode(data)
+  }
+  if (entry.method !== 8) {
+    throw new Error(`지원하지 않는 XLSX 압축 방식입니다: ${entry.method}`)
+  }
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Response(stream).text()
+}
+
+function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, 'application/xml')
+}
+
+function resolveSheetPath(target: string): string {
+  if (target.startsWith('/')) return target.slice(1)
+  return `xl/${target}`
+}
+
+function columnIndexFromRef(ref: string): number {
+  const letters = ref.match(/^[A-Z]+/)?.[0] ?? 'A'
+  let index = 0
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64)
+  }
+  return index - 1
+}
+
+function serialToDateString(serial: number): string {
+  const date = new Date(Date.UTC(1899, 11, 30) + Math.round(serial * 86400000))
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0')
+  const day = String(date.getUTCDate()).padStart(2, '0')
+  return `${date.getUTCFullYear()}-${month}-${day}`
+}
+
+function readDateStyleIndexes(stylesXml: string | null): Set<number> {
+  const indexes = new Set<number>()
+  if (!stylesXml) return indexes
+
+  const doc = parseXml(stylesXml)
+  const customDateFormats = new Set<number>()
+  for (const numFmt of Array.from(doc.getElementsByTagName('numFmt'))) {
+    const code = (numFmt.getAttribute('formatCode') ?? '').replace(/"[^"]*"|\[[^\]]*\]/g, '')
+    if (/[yd]/i.test(code)) {
+      customDateFormats.add(Number(numFmt.getAttribute('numFmtId')))
+    }
+  }
+
+  const cellXfs = doc.getElementsByTagName('cellXfs')[0]
+  const xfs = cellXfs ? Array.from(cellXfs.getElementsByTagName('xf')) : []
+  xfs.forEach((xf, index) => {
+    const numFmtId = Number(xf.getAttribute('numFmtId') ?? 0)
+    if (BUILTIN_DATE_FORMAT_IDS.has(numFmtId) || customDateFormats.has(numFmtId)) {
+      indexes.add(index)
+    }
+  })
+
+  return indexes
+}
+
+function readCellValue(
+  cell: Element,
+  sharedStrings: string[],
+  dateStyles: Set<number>,
+): XlsxCellValue {
+  const type = cell.getAttribute('t')
+  const raw = cell.getElementsByTagName('v')[0]?.textContent ?? null
+
+  if (type === 'inlineStr') {
+    return Array.from(cell.getElementsByTagName('t'))
+      .map((node) => node.textContent ?? '')
+      .join('')
+  }
+  if (raw === null) return null
+  if (type === 's') return sharedStrings[Number(raw)] ?? ''
+  if (type === 'str' || type === 'e') return raw
+  if (type === 'b') return raw === '1'
+
+  const numeric = Number(raw)
+  if (!Number.isFinite(numeric)) return raw
+  if (dateStyles.has(Number(cell.getAttribute('s') ?? -1))) {
+    return serialToDateString(numeric)
+  }
+  return numeric
+}
+
+export async function readXlsxWorkbook(buffer: ArrayBuffer): Promise<XlsxSheet[]> {
+  const entries = new Map(readZipEntries(buffer).map((entry) => [entry.name, entry]))
+  const readText = async (name: string) => {
+    const entry = entries.get(name)
+    return entry ? readZipEntry(buffer, entry) : null
+  }
+
+  const workbookXml = await readText('xl/workbook.xml')
+  const relsXml = await readText('xl/_rels/workbook.xml.rels')
+  if (!workbookXml || !relsXml) {
+    throw new Error('XLSX 통합 문서 정보를 찾을 수 없습니다.')
+  }
+
+  const targets = new Map(
+    Array.from(parseXml(relsXml).getElementsByTagName('Relationship')).map((rel) => [
+      rel.getAttribute('Id') ?? '',
+      rel.getAttribute('Target') ?? '',
+    ]),
+  )
+
+  const sharedStringsXml = await readText('xl/sharedStrings.xml')
+  const sharedStrings = sharedStringsXml
+    ? Array.from(parseXml(sharedStringsXml).getElementsByTagName('si')).map((item) =>
+        Array.from(item.getElementsByTagName('t'))
+          .map((node) => node.textContent ?? '')
+          .join(''),
+      )
+    : []
+  const dateStyles = readDateStyleIndexes(await readText('xl/styles.xml'))
+
+  const sheets: XlsxSheet[] = []
+  for (const sheet of Array.from(parseXml(workbookXml).getElementsByTagName('sheet'))) {
+    const relationId =
+      sheet.getAttribute('r:id') ??
+      sheet.getAttributeNS(
+        'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+        'id',
+      ) ??
+      ''
+    const target = targets.get(relationId)
+    const sheetXml = target ? await readText(resolveSheetPath(target)) : null
+    if (!sheetXml) continue
+
+    const rows: XlsxCellValue[][] = []
+    for (const rowNode of Array.from(parseXml(sheetXml).getElementsByTagName('row'))) {
+      const rowIndex = Number(rowNode.getAttribute('r') ?? rows.length + 1) - 1
+      const values: XlsxCellValue[] = []
+      for (const cell of Array.from(rowNode.getElementsByTagName('c'))) {
+        const ref = cell.getAttribute('r')
+        const colIndex = ref ? columnIndexFromRef(ref) : values.length
+        while (values.length < colIndex) values.push(null)
+        values[colIndex] = readCellValue(cell, sharedStrings, dateStyles)
+      }
+      while (rows.length < rowIndex) rows.push([])
+      rows[rowIndex] = values
+    }
+
+    sheets.push({ name: sheet.getAttribute('name') ?? '', rows })
+  }
+
+  return sheets
+}
+
+export type XlsxColumnFormat = 'text' | 'integer' | 'percent'
+export type XlsxOutputSheet = XlsxSheet & { formats?: XlsxColumnFormat[] }
+
+// cellXfs indexes in WORKBOOK_STYLES: 0 general, 1 bold header, 2 #,##0, 3 0.00%.
+const HEADER_STYLE = 1
+const FORMAT_STYLES: Record<XlsxColumnFormat, number> = { text: 0, integer: 2, percent: 3 }
+
+const WORKBOOK_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="2"><font><sz val="11"/><name val="맑은 고딕"/></font><font><b/><sz val="11"/><name val="맑은 고딕"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="4"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="10" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>
+</styleSheet>`
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let value = index
+  for (let bit = 0; bit < 8; bit++) {
+    value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1
+  }
+  return value >>> 0
+})
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// Writes an uncompressed (stored) archive; spreadsheet apps and readXlsxWorkbook accept it.
+function writeZip(files: Array<{ name: string; content: string }>): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder()
+  const localParts: Uint8Array[] = []
+  const centralParts: Uint8Array[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = encoder.encode(file.name)
+    const data = encoder.encode(file.content)
+    const crc = crc32(data)
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true)
+    local.setUint16(6, 0x0800, true)
+    local.setUint16(12, 0x21, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, data.length, true)
+    local.setUint32(22, data.length, true)
+    local.setUint16(26, name.length, true)
+    localParts.push(new Uint8Array(local.buffer), name, data)
+
+    const central = new DataView(new ArrayBuffer(46))
+    central.setUint32(0, 0x02014b50, true)
+    central.setUint16(4, 20, true)
+    central.setUint16(6, 20, true)
+    central.setUint16(8, 0x0800, true)
+    central.setUint16(14, 0x21, true)
+    central.setUint32(16, crc, true)
+    central.setUint32(20, data.length, true)
+    central.setUint32(24, data.length, true)
+    central.setUint16(28, name.length, true)
+    central.setUint32(42, offset, true)
+    centralParts.push(new Uint8Array(central.buffer), name)
+
+    offset += 30 + name.length + data.length
+  }
+
+  const centralSize = centralParts.reduce((acc, part) => acc + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, files.length, true)
+  end.setUint16(10, files.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)]
+  const output = new Uint8Array(offset + centralSize + 22)
+  let cursor = 0
+  for (const part of parts) {
+    output.set(part, cursor)
+    cursor += part.length
+  }
+  return output
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// XML 1.0 forbids control characters other than tab, line feed and carriage return.
+function stripControlCharacters(value: string): string {
+  return Array.from(value)
+    .filter((char) => {
+      const code = char.charCodeAt(0)
+      return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d
+    })
+    .join('')
+}
+
+function columnRef(index: number): string {
+  let ref = ''
+  for (let value = index + 1; value > 0; value = Math.floor((value - 1) / 26)) {
+    ref = String.fromCharCode(65 + ((value - 1) % 26)) + ref
+  }
+  return ref
+}
+
+function writeCell(value: XlsxCellValue, ref: string, style: number): string {
+  const styleAttr = style > 0 ? ` s="${style}"` : ''
+  if (value === null || value === '') return ''
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c r="${ref}"${styleAttr}><v>${value}</v></c>` : ''
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${ref}" t="b"${styleAttr}><v>${value ? 1 : 0}</v></c>`
+  }
+  return `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${escapeXml(stripControlCharacters(value))}</t></is></c>`
+}
+
+function writeWorksheet(sheet: XlsxOutputSheet): string {
+  const rows = sheet.rows.map((row, rowIndex) => {
+    const cells = row
+      .map((value, colIndex) => {
+        const format = sheet.formats?.[colIndex] ?? 'text'
+        const style = rowIndex === 0 && sheet.formats ? HEADER_STYLE : FORMAT_STYLES[format]
+        return writeCell(value, `${columnRef(colIndex)}${rowIndex + 1}`, style)
+      })
+      .join('')
+    return `<row r="${rowIndex + 1}">${cells}</row>`
+  })
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rows.join('')}</sheetData></worksheet>`
+}
+
+function sanitizeSheetName(name: string, index: number, used: Set<string>): string {
+  const base =
+    name
+      .replace(/[[\]:*?/\\]/g, ' ')
+      .trim()
+      .slice(0, 31) || `Sheet${index + 1}`
+  let candidate = base
+  for (let suffix = 2; used.has(candidate.toLowerCase()); suffix++) {
+    candidate = `${base.slice(0, 28)} ${suffix}`
+  }
+  used.add(candidate.toLowerCase())
+  return candidate
+}
+
+export function writeXlsxWorkbook(sheets: XlsxOutputSheet[]): Uint8Array<ArrayBuffer> {
+  const used = new Set<string>()
+  const names = sheets.map((sheet, index) => sanitizeSheetName(sheet.name, index, used))
+  const sheetEntries = sheets.map((_, index) => index + 1)
+
+  return writeZip([
+    {
+      name: '[Content_Types].xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${sheetEntries
+        .map(
+          (id) =>
+            `<Override PartName="/xl/worksheets/sheet${id}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+        )
+        .join('')}</Types>`,
+    },
+    {
+      name: '_rels/.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${sheetEntries
+        .map(
+          (id, index) =>
+            `<sheet name="${escapeXml(names[index])}" sheetId="${id}" r:id="rId${id}"/>`,
+        )
+        .join('')}</sheets></workbook>`,
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheetEntries
+        .map(
+          (id) =>
+            `<Relationship Id="rId${id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${id}.xml"/>`,
+        )
+        .join(
+          '',
+        )}<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`,
+    },
+    { name: 'xl/styles.xml', content: WORKBOOK_STYLES },
+    ...sheets.map((sheet, index) => ({
+      name: `xl/worksheets/sheet${index + 1}.xml`,
+      content: writeWorksheet(sheet),
+    })),
+  ])
+}
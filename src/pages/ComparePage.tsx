@@ -0,0 +1,177 @@
+import { useMemo } from 'react'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
+import SyncStatus from '../components/SyncStatus'
+import { useSyncedResource } from '../hooks/useSyncedResource'
+import { useUnitRegistry } from '../hooks/useUnitRegistry'
+import { fetchGoogleSheetTableByGid } from '../lib/googleSheets'
+import {
+  buildUnitComparison,
+  comparePath,
+  parseComparisonSlugs,
+  type ComparisonMark,
+  type ComparisonValueKind,
+} from '../lib/unitComparison'
+import { parseDetail } from '../lib/unitDetail'
+import {
+  getUnitDetailBySlug,
+  type UnitDetailRoute,
+  type UnitRegistry,
+} from '../lib/unitDetailRoutes'
+
+const krwFormat = new Intl.NumberFormat('ko-KR', { maximumFractionDigits: 0 })
+const areaFormat = new Intl.NumberFormat('ko-KR', { maximumFractionDigits: 2 })
+const percentFormat = new Intl.NumberFormat('ko-KR', {
+  style: 'percent',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+})
+
+function formatValue(value: number | null, kind: ComparisonValueKind): string {
+  if (value === null) return '-'
+  if (kind === 'percent') return percentFormat.format(value)
+  if (kind === 'area') return `${areaFormat.format(value)}평`
+  return `${krwFormat.format(Math.round(value))}원`
+}
+
+function markClass(mark: ComparisonMark): string {
+  return mark === 'best' ? 'bestCell' : mark === 'worst' ? 'worstCell' : ''
+}
+
+const EMPTY_REGISTRY: UnitRegistry = { source: 'none', routes: [] }
+
+export default function ComparePage() {
+  const [searchParams] = useSearchParams()
+  const navigate = useNavigate()
+  const unitsParam = searchParams.get('units')
+  const slugs = useMemo(() => parseComparisonSlugs(unitsParam), [unitsParam])
+  const registryResource = useUnitRegistry(null)
+  const registry = registryResource.data ?? EMPTY_REGISTRY
+
+  const selected = useMemo(
+    () =>
+      slugs
+        .map((slug) => getUnitDetailBySlug(registry, slug))
+        .filter((route): route is UnitDetailRoute => route !== null),
+    [registry, slugs],
+  )
+  const unknownSlugs = registryResource.data
+    ? slugs.filter((slug) => !getUnitDetailBySlug(registry, slug))
+    : []
+  const gids = selected.map((route) => route.gid).join(',')
+
+  const tables = useSyncedResource(
+    selected.length > 0 ? `compare:${gids}` : null,
+    () => Promise.all(selected.map((route) => fetchGoogleSheetTableByGid(route.gid))),
+    '상세 데이터를 불러오는 중 오류가 발생했습니다.',
+  )
+  const sections = useMemo(
+    () => (tables.data ? buildUnitComparison(tables.data.map(parseDetail)) : []),
+    [tables.data],
+  )
+
+  function toggleUnit(slug: string) {
+    const next = slugs.includes(slug) ? slugs.filter((item) => item !== slug) : [...slugs, slug]
+    navigate(comparePath(next), { replace: true })
+  }
+
+  return (
+    <div className="page">
+      <header className="hero">
+        <div>
+          <p className="badge">UNIT COMPARISON</p>
+          <h1>호실 비교</h1>
+          <p className="subtitle">
+            호실 상세 탭의 건물정보, 평당 가격, 시나리오와 세금을 나란히 비교합니다.
+          </p>
+        </div>
+        <Link className="refreshButton asLink" to="/">
+          포트폴리오로
+        </Link>
+      </header>
+
+      {registryResource.error && registryResource.data === null ? (
+        <div className="error">{registryResource.error}</div>
+      ) : null}
+      {unknownSlugs.length > 0 ? (
+        <div className="error">등록되지 않은 호실: {unknownSlugs.join(', ')}</div>
+      ) : null}
+
+      <section className="tableSection">
+        <div className="tableHeader">
+          <h2>비교할 호실</h2>
+          <p>{selected.length}개 선택</p>
+        </div>
+        {registry.routes.length === 0 ? (
+          <p className="emptyText">
+            {registryResource.loading
+              ? '호실 목록을 불러오는 중입니다...'
+              : '호실 목록이 없습니다.'}
+          </p>
+        ) : (
+          <div className="toolbar">
+            {registry.routes.map((route) => (
+              <label key={route.slug} className="checkboxField">
+                <input
+                  type="checkbox"
+                  checked={slugs.includes(route.slug)}
+                  onChange={() => toggleUnit(route.slug)}
+                />
+                {route.title}
+              </label>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {selected.length > 0 ? (
+        <SyncStatus syncedAt={tables.syncedAt} loading={tables.loading} error={tables.error} />
+      ) : null}
+      {tables.error && tables.data === null ? <div className="error">{tables.error}</div> : null}
+
+      {tables.data && tables.data.length === selected.length ? (
+        <section className="tableSection">
+          <div className="tableHeader">
+            <h2>항목별 비교</h2>
+            <p>
+              <span className="bestCell">최고</span> · <span className="worstCell">최저</span>{' '}
+              (항목별 유리한 방향 기준)
+            </p>
+          </div>
+          <div className="tableContainer">
+            <table>
+              <thead>
+                <tr>
+                  <th>항목</th>
+                  {selected.map((route) => (
+                    <th key={route.slug}>
+                      <Link to={`/units/${route.slug}`}>{route.title}</Link>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sections.map((section) => [
+                  <tr key={section.id} className="subtotalRow">
+                    <td colSpan={selected.length + 1}>{section.title}</td>
+                  </tr>,
+                  ...section.rows.map((row) => (
+                    <tr key={`${section.id}-${row.id}`}>
+                      <td>{row.label}</td>
+                      {row.values.map((value, index) => (
+                        <td key={selected[index].slug} className={markClass(row.marks[index])}>
+                          {formatValue(value, row.kind)}
+                        </td>
+                      ))}
+                    </tr>
+                  )),
+                ])}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      ) : selected.length === 0 ? (
+        <p className="emptyText">비교할 호실을 두 개 이상 선택하세요.</p>
+      ) : null}
+    </div>
+  )
+}
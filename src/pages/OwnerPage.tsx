@@ -0,0 +1,192 @@
+import { useMemo } from 'react'
+import { Link, useParams } from 'react-router-dom'
+import PortfolioUnitTable from '../components/PortfolioUnitTable'
+import SyncStatus from '../components/SyncStatus'
+import { useSyncedResource } from '../hooks/useSyncedResource'
+import { useUnitRegistry } from '../hooks/useUnitRegistry'
+import { fetchGoogleSheetRows } from '../lib/googleSheets'
+import { buildOwnerPortfolio, ownerPath, unitOwner } from '../lib/owners'
+import { portfolioUnitsFromRows } from '../lib/portfolio'
+import type { UnitRegistry } from '../lib/unitDetailRoutes'
+
+const krwFormat = new Intl.NumberFormat('ko-KR', { maximumFractionDigits: 0 })
+const percentFormat = new Intl.NumberFormat('ko-KR', {
+  style: 'percent',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+})
+
+function formatCurrency(value: number): string {
+  return `${krwFormat.format(Math.round(value))}원`
+}
+
+const EMPTY_REGISTRY: UnitRegistry = { source: 'none', routes: [] }
+
+export default function OwnerPage() {
+  const { owner = '' } = useParams()
+  const portfolio = useSyncedResource('portfolio', fetchGoogleSheetRows)
+  const registryResource = useUnitRegistry(portfolio)
+  const registry = registryResource.data ?? EMPTY_REGISTRY
+
+  const units = useMemo(() => portfolioUnitsFromRows(portfolio.data ?? []), [portfolio.data])
+  const ownerPortfolio = useMemo(() => buildOwnerPortfolio(owner, units), [owner, units])
+  const otherOwners = useMemo(
+    () => Array.from(new Set(units.map(unitOwner))).filter((name) => name !== owner),
+    [units, owner],
+  )
+  const { summary, taxes, loans, businessNumbers } = ownerPortfolio
+
+  if (portfolio.data === null && portfolio.loading) {
+    return (
+      <div className="page">
+        <p className="emptyText">포트폴리오를 불러오는 중입니다...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="page">
+      <header className="hero">
+        <div>
+          <p className="badge">OWNER PORTFOLIO</p>
+          <h1>{owner} 명의 보유 현황</h1>
+          <p className="subtitle">명의별 손익, 레버리지, 세금과 사업자등록번호를 모아 봅니다.</p>
+        </div>
+        <Link className="refreshButton asLink" to="/">
+          포트폴리오로
+        </Link>
+      </header>
+
+      <SyncStatus
+        syncedAt={portfolio.syncedAt}
+        loading={portfolio.loading}
+        error={portfolio.error}
+      />
+      {portfolio.error && portfolio.data === null ? (
+        <div className="error">{portfolio.error}</div>
+      ) : null}
+      {portfolio.data !== null && ownerPortfolio.units.length === 0 ? (
+        <div className="error">'{owner}' 명의의 호실이 없습니다.</div>
+      ) : null}
+
+      {otherOwners.length > 0 ? (
+        <nav className="toolbar ownerNav">
+          {otherOwners.map((name) => (
+            <Link key={name} className="refreshButton asLink" to={ownerPath(name)}>
+              {name}
+            </Link>
+          ))}
+        </nav>
+      ) : null}
+
+      <section className="metricGrid">
+        <article className="metricCard">
+          <p className="label">보유 호실</p>
+          <p className="value">{summary.totalUnits}개</p>
+        </article>
+        <article className="metricCard">
+          <p className="label">총 투자금(공급금액)</p>
+          <p className="value">{formatCurrency(summary.totalSupplyPrice)}</p>
+        </article>
+        <article className="metricCard">
+          <p className="label">총 대출금 / LTV</p>
+          <p className="value">{formatCurrency(summary.totalLoanAmount)}</p>
+          <p className="subValue">
+            LTV {summary.loanToValue === null ? '-' : percentFormat.format(summary.loanToValue)}
+          </p>
+        </article>
+        <article className="metricCard">
+          <p className="label">월 임대수입</p>
+          <p className="value">{formatCurrency(summary.monthlyRentIncome)}</p>
+        </article>
+        <article className="metricCard">
+          <p className="label">월 대출이자</p>
+          <p className="value">{formatCurrency(summary.monthlyInterestCost)}</p>
+        </article>
+        <article className="metricCard">
+          <p className="label">월 순현금흐름</p>
+          <p className={`value ${summary.monthlyNetCashflow < 0 ? 'negative' : ''}`}>
+            {formatCurrency(summary.monthlyNetCashflow)}
+          </p>
+          <p className="subValue">연 환산 {formatCurrency(summary.annualNetCashflow)}</p>
+        </article>
+      </section>
+
+      <section className="highlightGrid">
+        <article className="highlightCard">
+          <h2>수익성 · 대출</h2>
+          <div className="kvList">
+            <p>
+              <span>자기자본</span>
+              <strong>{formatCurrency(summary.totalEquity)}</strong>
+            </p>
+            <p>
+              <span>평균 대출이율(가중)</span>
+              <strong>
+                {summary.avgInterestRate === null
+                  ? '-'
+                  : percentFormat.format(summary.avgInterestRate)}
+              </strong>
+            </p>
+            <p>
+              <span>연 자기자본수익률(ROE)</span>
+              <strong>
+                {summary.annualReturnOnEquity === null
+                  ? '-'
+                  : percentFormat.format(summary.annualReturnOnEquity)}
+              </strong>
+            </p>
+            <p>
+              <span>현재 대출 잔액</span>
+              <strong>{formatCurrency(loans.outstandingBalance)}</strong>
+            </p>
+            <p>
+              <span>월 원리금 납입액</span>
+              <strong>{formatCurrency(loans.monthlyDebtService)}</strong>
+            </p>
+          </div>
+        </article>
+
+        <article className="highlightCard">
+          <h2>세금</h2>
+          <div className="kvList">
+            <p>
+              <span>재산세(건물분)</span>
+              <strong>{formatCurrency(taxes.buildingTaxTotal)}</strong>
+            </p>
+            <p>
+              <span>재산세(토지분)</span>
+              <strong>{formatCurrency(taxes.landTaxTotal)}</strong>
+            </p>
+            <p>
+              <span>교통유발부담금</span>
+              <strong>{formatCurrency(taxes.trafficChargeTotal)}</strong>
+            </p>
+            <p>
+              <span>연간 세금 총합</span>
+              <strong>{formatCurrency(taxes.annualTaxTotal)}</strong>
+            </p>
+          </div>
+        </article>
+
+        <article className="highlightCard">
+          <h2>사업자등록번호</h2>
+          {businessNumbers.length === 0 ? (
+            <p className="emptyText">등록된 사업자번호가 없습니다.</p>
+          ) : (
+            <div className="kvList">
+              {businessNumbers.map((entry) => (
+                <p key={entry.businessNumber}>
+                  <span>{entry.sites.join(', ')}</span>
+                  <strong>{entry.businessNumber}</strong>
+                </p>
+              ))}
+            </div>
+          )}
+        </article>
+      </section>
+
+      <PortfolioUnitTable units={ownerPortfolio.units} registry={registry} />
+    </div>
+  )
+}
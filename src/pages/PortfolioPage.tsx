@@ -1,57 +1,45 @@
-import { useEffect, useMemo, useState } from 'react'
+import { useMemo } from 'react'
 import { Link } from 'react-router-dom'
-import { fetchGoogleSheetRows, type SheetRow } from '../lib/googleSheets'
-import { getUnitDetailBySite } from '../lib/unitDetailRoutes'
-
-type PortfolioUnit = {
-  id: string
-  site: string
-  ownership: string
-  tenantStatus: string
-  completionDate: string
-  contractRenewalRaw: string
-  loanRenewalRaw: string
-  note: string
-  businessNumber: string
-  supplyPrice: number | null
-  loanAmount: number | null
-  interestRate: number | null
-  monthlyInterest: number | null
-  monthlyRent: number | null
-  buildingTax: number | null
-  landTax: number | null
-  trafficInducementCharge: number | null
-}
-
-type RenewalAlert = {
-  id: string
-  site: string
-  kind: '계약갱신' | '대출갱신'
-  rawDate: string
-  daysLeft: number
-}
-
-type PortfolioSummary = {
-  totalUnits: number
-  leasedUnits: number
-  totalSupplyPrice: number
-  totalLoanAmount: number
-  totalEquity: number
-  avgInterestRate: number | null
-  monthlyRentIncome: number
-  monthlyInterestCost: number
-  monthlyNetCashflow: number
-  annualNetCashflow: number
-  annualReturnOnEquity: number | null
-  loanToValue: number | null
-}
-
-type TaxSummary = {
-  buildingTaxTotal: number
-  landTaxTotal: number
-  trafficChargeTotal: number
-  annualTaxTotal: number
-}
+import AlertCard from '../components/AlertCard'
+import CalendarExportPanel from '../components/CalendarExportPanel'
+import DataAuditPanel from '../components/DataAuditPanel'
+import ExpensePanel from '../components/ExpensePanel'
+import ExportButtons from '../components/ExportButtons'
+import OwnerBreakdownTable from '../components/OwnerBreakdownTable'
+import PortfolioCharts from '../components/PortfolioCharts'
+import PortfolioUnitTable from '../components/PortfolioUnitTable'
+import RateStressPanel from '../components/RateStressPanel'
+import RentLedgerPanel from '../components/RentLedgerPanel'
+import ReturnsPanel from '../components/ReturnsPanel'
+import SnapshotTrendPanel from '../components/SnapshotTrendPanel'
+import SyncStatus from '../components/SyncStatus'
+import TaxEstimatorPanel from '../components/TaxEstimatorPanel'
+import { useExpenses } from '../hooks/useExpenses'
+import { usePortfolioSnapshots } from '../hooks/usePortfolioSnapshots'
+import { useRentLedger } from '../hooks/useRentLedger'
+import { useSyncedResource } from '../hooks/useSyncedResource'
+import { useUnitRegistry } from '../hooks/useUnitRegistry'
+import {
+  fetchGoogleSheetRows,
+  fetchGoogleSheetTableByGid,
+  type SheetRow,
+} from '../lib/googleSheets'
+import { summaryExportTable, unitExportTable } from '../lib/exportTables'
+import { summarizeOperations } from '../lib/expenses'
+import { reportMonthOf, reportPath } from '../lib/monthlyReport'
+import { buildOwnerPortfolios } from '../lib/owners'
+import {
+  summarizeLoans,
+  summarizePortfolio,
+  summarizeTaxes,
+  toPortfolioUnits,
+  toSheetTotals,
+  unitLoanTerms,
+} from '../lib/portfolio'
+import { resolvePortfolioColumns } from '../lib/portfolioColumns'
+import { returnInput } from '../lib/returns'
+import { parseDetail } from '../lib/unitDetail'
+import { getUnitDetailBySite, type UnitRegistry } from '../lib/unitDetailRoutes'
 
 const krwFormat = new Intl.NumberFormat('ko-KR', { maximumFractionDigits: 0 })
 const percentFormat = new Intl.NumberFormat('ko-KR', {
@@ -60,261 +48,69 @@ const percentFormat = new Intl.NumberFormat('ko-KR', {
   maximumFractionDigits: 2,
 })
 
-function parseNumericValue(value: unknown): number | null {
-  if (typeof value === 'number') return Number.isFinite(value) ? value : null
-  if (typeof value !== 'string') return null
-
-  const normalized = value.replace(/[^\d.-]/g, '')
-  if (!normalized) return null
-  const parsed = Number(normalized)
-  return Number.isFinite(parsed) ? parsed : null
-}
-
-function findLikelyColumn(columns: string[], keys: string[]): string {
-  const lowered = columns.map((column) => ({
-    original: column,
-    lowered: column.toLowerCase(),
-  }))
-
-  for (const key of keys) {
-    const found = lowered.find((column) => column.lowered.includes(key))
-    if (found) return found.original
-  }
-
-  return ''
-}
-
-function parseKoreanDate(raw: string): Date | null {
-  const match = raw.match(/(\d{2,4})\D+(\d{1,2})\D+(\d{1,2})/)
-  if (!match) return null
-
-  let year = Number(match[1])
-  const month = Number(match[2])
-  const day = Number(match[3])
-
-  if (!Number.isFinite(year) || !Number.isFinite(month) || !Number.isFinite(day)) {
-    return null
-  }
-
-  if (year < 100) {
-    year += 2000
-  }
-
-  const date = new Date(year, month - 1, day)
-  return Number.isNaN(date.getTime()) ? null : date
-}
-
-function calculateDaysLeft(rawDate: string): number | null {
-  const parsed = parseKoreanDate(rawDate)
-  if (!parsed) return null
-
-  const today = new Date()
-  const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate())
-  const target = new Date(parsed.getFullYear(), parsed.getMonth(), parsed.getDate())
-  const diffMs = target.getTime() - startOfToday.getTime()
-  return Math.floor(diffMs / (1000 * 60 * 60 * 24))
+function formatCurrency(value: number): string {
+  return `${krwFormat.format(Math.round(value))}원`
 }
 
-function toPortfolioUnits(rows: SheetRow[]): PortfolioUnit[] {
-  if (rows.length === 0) return []
-  const columns = Object.keys(rows[0])
-
-  const siteColumn = findLikelyColumn(columns, ['현장', '호실', 'site'])
-  const completionColumn = findLikelyColumn(columns, ['준공일', 'completion'])
-  const supplyColumn = findLikelyColumn(columns, ['공급금액', '매입', 'price'])
-  const loanColumn = findLikelyColumn(columns, ['대출금', 'loan'])
-  const rateColumn = findLikelyColumn(columns, ['이율', '금리', 'rate'])
-  const interestColumn = findLikelyColumn(columns, ['대출이자', 'interest'])
-  const rentColumn = findLikelyColumn(columns, ['월세', '임대료', 'rent'])
-  const contractRenewalColumn = findLikelyColumn(columns, ['계약갱신', '계약 갱신'])
-  const loanRenewalColumn = findLikelyColumn(columns, ['대출갱신', '대출 갱신'])
-  const ownershipColumn = findLikelyColumn(columns, ['명의'])
-  const tenantColumn = findLikelyColumn(columns, ['실입주 여부', '입주', '임대'])
-  const noteColumn = findLikelyColumn(columns, ['비고', 'note'])
-  const businessNumberColumn = findLikelyColumn(columns, ['사업자등록번호'])
-  const buildingTaxColumn = findLikelyColumn(columns, ['재산세', '건문불'])
-  const landTaxColumn = findLikelyColumn(columns, ['토지분'])
-  const trafficChargeColumn = findLikelyColumn(columns, ['교통유발부담금'])
+const EMPTY_ROWS: SheetRow[] = []
+const EMPTY_REGISTRY: UnitRegistry = { source: 'none', routes: [] }
 
-  const sumRowIndex = rows.findIndex((row) =>
-    String(row[siteColumn] ?? '')
-      .replace(/\s+/g, '')
-      .includes('합계'),
-  )
-
-  const sourceRows = (sumRowIndex >= 0 ? rows.slice(0, sumRowIndex) : rows).filter((row) => {
-    const site = String(row[siteColumn] ?? '').trim()
-    return site.length > 0
-  })
-
-  return sourceRows.map((row, index) => ({
-    id: `unit-${index}`,
-    site: String(row[siteColumn] ?? `호실 ${index + 1}`),
-    ownership: String(row[ownershipColumn] ?? '-'),
-    tenantStatus: String(row[tenantColumn] ?? '-'),
-    completionDate: String(row[completionColumn] ?? '-'),
-    contractRenewalRaw: String(row[contractRenewalColumn] ?? ''),
-    loanRenewalRaw: String(row[loanRenewalColumn] ?? ''),
-    note: String(row[noteColumn] ?? '-'),
-    businessNumber: String(row[businessNumberColumn] ?? '-'),
-    supplyPrice: parseNumericValue(row[supplyColumn]),
-    loanAmount: parseNumericValue(row[loanColumn]),
-    interestRate: parseNumericValue(row[rateColumn]),
-    monthlyInterest: parseNumericValue(row[interestColumn]),
-    monthlyRent: parseNumericValue(row[rentColumn]),
-    buildingTax: parseNumericValue(row[buildingTaxColumn]),
-    landTax: parseNumericValue(row[landTaxColumn]),
-    trafficInducementCharge: parseNumericValue(row[trafficChargeColumn]),
-  }))
-}
-
-function summarizeTaxes(units: PortfolioUnit[]): TaxSummary {
-  const buildingTaxTotal = units.reduce((acc, unit) => acc + (unit.buildingTax ?? 0), 0)
-  const landTaxTotal = units.reduce((acc, unit) => acc + (unit.landTax ?? 0), 0)
-  const trafficChargeTotal = units.reduce(
-    (acc, unit) => acc + (unit.trafficInducementCharge ?? 0),
-    0,
+export default function PortfolioPage() {
+  const portfolio = useSyncedResource('portfolio', fetchGoogleSheetRows)
+  const registryResource = useUnitRegistry(portfolio)
+  const rows = portfolio.data ?? EMPTY_ROWS
+  const registry = registryResource.data ?? EMPTY_REGISTRY
+  const loading = portfolio.loading || registryResource.loading
+
+  const columnMapping = useMemo(
+    () => resolvePortfolioColumns(rows.length > 0 ? Object.keys(rows[0]) : []),
+    [rows],
   )
-  return {
-    buildingTaxTotal,
-    landTaxTotal,
-    trafficChargeTotal,
-    annualTaxTotal: buildingTaxTotal + landTaxTotal + trafficChargeTotal,
-  }
-}
-
-function summarizePortfolio(units: PortfolioUnit[]): PortfolioSummary {
-  if (units.length === 0) {
-    return {
-      totalUnits: 0,
-      leasedUnits: 0,
-      totalSupplyPrice: 0,
-      totalLoanAmount: 0,
-      totalEquity: 0,
-      avgInterestRate: null,
-      monthlyRentIncome: 0,
-      monthlyInterestCost: 0,
-      monthlyNetCashflow: 0,
-      annualNetCashflow: 0,
-      annualReturnOnEquity: null,
-      loanToValue: null,
-    }
-  }
-
-  const totalSupplyPrice = units.reduce((acc, unit) => acc + (unit.supplyPrice ?? 0), 0)
-  const totalLoanAmount = units.reduce((acc, unit) => acc + (unit.loanAmount ?? 0), 0)
-  const totalEquity = totalSupplyPrice - totalLoanAmount
-  const monthlyRentIncome = units.reduce((acc, unit) => acc + (unit.monthlyRent ?? 0), 0)
-  const monthlyInterestCost = units.reduce(
-    (acc, unit) => acc + (unit.monthlyInterest ?? 0),
-    0,
+  const units = useMemo(() => toPortfolioUnits(rows, columnMapping), [rows, columnMapping])
+  const sheetTotals = useMemo(() => toSheetTotals(rows, columnMapping), [rows, columnMapping])
+  const summary = useMemo(() => summarizePortfolio(units), [units])
+  const taxSummary = useMemo(() => summarizeTaxes(units), [units])
+  const loanSummary = useMemo(() => summarizeLoans(units), [units])
+  const owners = useMemo(() => buildOwnerPortfolios(units), [units])
+  const exportTables = useMemo(
+    () => [unitExportTable(units), summaryExportTable(summary, taxSummary, loanSummary)],
+    [units, summary, taxSummary, loanSummary],
   )
-  const monthlyNetCashflow = monthlyRentIncome - monthlyInterestCost
-  const annualNetCashflow = monthlyNetCashflow * 12
-
-  const weightedRateBase = units.filter(
-    (unit) => unit.interestRate !== null && unit.loanAmount !== null && unit.loanAmount > 0,
+  const history = usePortfolioSnapshots(units, summary, portfolio.syncedAt)
+  const rent = useRentLedger(units, registry)
+  const { expenses, addExpense, removeExpense } = useExpenses()
+  const operations = useMemo(
+    () => summarizeOperations(units, summary, expenses),
+    [units, summary, expenses],
   )
-  const weightedRateDenom = weightedRateBase.reduce(
-    (acc, unit) => acc + (unit.loanAmount as number),
-    0,
+  const detailGids = useMemo(
+    () => [
+      ...new Set(units.flatMap((unit) => getUnitDetailBySite(registry, unit.site)?.gid ?? [])),
+    ],
+    [units, registry],
   )
-  const weightedRateNumerator = weightedRateBase.reduce(
-    (acc, unit) => acc + (unit.loanAmount as number) * (unit.interestRate as number),
-    0,
+  const detailTables = useSyncedResource(
+    detailGids.length > 0 ? `details:${detailGids.join(',')}` : null,
+    () => Promise.all(detailGids.map((gid) => fetchGoogleSheetTableByGid(gid))),
+    '상세 데이터를 불러오지 못했습니다.',
   )
-  const avgInterestRate =
-    weightedRateDenom > 0 ? weightedRateNumerator / weightedRateDenom : null
-
-  const leasedUnits = units.filter((unit) => {
-    const value = unit.tenantStatus.toLowerCase()
-    return value.includes('임대') || value.includes('입주') || value.includes('운영')
-  }).length
-
-  const annualReturnOnEquity = totalEquity > 0 ? annualNetCashflow / totalEquity : null
-  const loanToValue = totalSupplyPrice > 0 ? totalLoanAmount / totalSupplyPrice : null
-
-  return {
-    totalUnits: units.length,
-    leasedUnits,
-    totalSupplyPrice,
-    totalLoanAmount,
-    totalEquity,
-    avgInterestRate,
-    monthlyRentIncome,
-    monthlyInterestCost,
-    monthlyNetCashflow,
-    annualNetCashflow,
-    annualReturnOnEquity,
-    loanToValue,
-  }
-}
-
-function buildRenewalAlerts(units: PortfolioUnit[]): RenewalAlert[] {
-  const alerts: RenewalAlert[] = []
-
-  for (const unit of units) {
-    const contractDays = calculateDaysLeft(unit.contractRenewalRaw)
-    if (contractDays !== null && contractDays >= 0 && contractDays <= 120) {
-      alerts.push({
-        id: `${unit.id}-contract`,
-        site: unit.site,
-        kind: '계약갱신',
-        rawDate: unit.contractRenewalRaw,
-        daysLeft: contractDays,
-      })
-    }
-
-    const loanDays = calculateDaysLeft(unit.loanRenewalRaw)
-    if (loanDays !== null && loanDays >= 0 && loanDays <= 120) {
-      alerts.push({
-        id: `${unit.id}-loan`,
-        site: unit.site,
-        kind: '대출갱신',
-        rawDate: unit.loanRenewalRaw,
-        daysLeft: loanDays,
-      })
-    }
-  }
-
-  return alerts.sort((a, b) => a.daysLeft - b.daysLeft)
-}
-
-function formatCurrency(value: number): string {
-  return `${krwFormat.format(Math.round(value))}원`
-}
-
-export default function PortfolioPage() {
-  const [rows, setRows] = useState<SheetRow[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-
-  const units = useMemo(() => toPortfolioUnits(rows), [rows])
-  const summary = useMemo(() => summarizePortfolio(units), [units])
-  const taxSummary = useMemo(() => summarizeTaxes(units), [units])
-  const renewalAlerts = useMemo(() => buildRenewalAlerts(units), [units])
-
-  async function loadData() {
-    try {
-      setLoading(true)
-      setError(null)
-      const data = await fetchGoogleSheetRows()
-      setRows(data)
-    } catch (caughtError) {
-      const message =
-        caughtError instanceof Error
-          ? caughtError.message
-          : '데이터를 불러오는 중 오류가 발생했습니다.'
-      setError(message)
-    } finally {
-      setLoading(false)
-    }
+  const returnItems = useMemo(() => {
+    const details = new Map(
+      (detailTables.data ?? []).map((table, index) => [detailGids[index], parseDetail(table)]),
+    )
+    return units.flatMap((unit) => {
+      const gid = getUnitDetailBySite(registry, unit.site)?.gid
+      const input = returnInput(unit, (gid && details.get(gid)) || null, unitLoanTerms(unit))
+      return input ? [{ id: unit.id, label: unit.site, input }] : []
+    })
+  }, [units, registry, detailGids, detailTables.data])
+
+  function loadData() {
+    portfolio.refresh()
+    registryResource.refresh()
+    detailTables.refresh()
   }
 
-  useEffect(() => {
-    void loadData()
-  }, [])
-
   return (
     <div className="page">
       <header className="hero">
@@ -325,12 +121,38 @@ export default function PortfolioPage() {
             월세 수입, 이자 비용, 자기자본수익률(ROE), 갱신 일정을 한눈에 관리합니다.
           </p>
         </div>
-        <button className="refreshButton" onClick={loadData} disabled={loading}>
-          {loading ? '불러오는 중...' : '새로고침'}
-        </button>
+        <div className="heroActions">
+          <Link className="refreshButton asLink" to="/compare">
+            호실 비교
+          </Link>
+          <Link className="refreshButton asLink" to={reportPath(reportMonthOf(new Date()))}>
+            월간 리포트
+          </Link>
+          <button className="refreshButton" onClick={loadData} disabled={loading}>
+            {loading ? '불러오는 중...' : '새로고침'}
+          </button>
+        </div>
       </header>
 
-      {error ? <div className="error">{error}</div> : null}
+      <SyncStatus
+        syncedAt={portfolio.syncedAt}
+        loading={portfolio.loading}
+        error={portfolio.error}
+      />
+      {portfolio.error && portfolio.data === null ? (
+        <div className="error">{portfolio.error}</div>
+      ) : null}
+      {registryResource.error && registryResource.data === null ? (
+        <div className="error">호실 목록을 불러오지 못했습니다: {registryResource.error}</div>
+      ) : null}
+      {!loading && registry.source === 'builtin' && rows.length > 0 ? (
+        <div className="warning">
+          호실 인덱스 탭이 없어 기본 호실 목록을 사용합니다. 새로 산 호실은 VITE_UNIT_INDEX_GID에
+          인덱스 탭 gid를 지정해야 상세 페이지와 연결됩니다.
+        </div>
+      ) : null}
+
+      <ExportButtons baseName="portfolio" tables={exportTables} />
 
       <section className="metricGrid">
         <article className="metricCard">
@@ -389,118 +211,96 @@ export default function PortfolioPage() {
                   : percentFormat.format(summary.annualReturnOnEquity)}
               </strong>
             </p>
+            <p>
+              <span>월 운영비 / 순영업소득(NOI)</span>
+              <strong>
+                {formatCurrency(operations.monthlyExpenses)} /{' '}
+                {formatCurrency(operations.monthlyNetOperatingIncome)}
+              </strong>
+            </p>
+            <p>
+              <span>비용 반영 ROE</span>
+              <strong className={operations.monthlyNetCashflowAfterExpenses < 0 ? 'negative' : ''}>
+                {operations.annualReturnOnEquityAfterExpenses === null
+                  ? '-'
+                  : percentFormat.format(operations.annualReturnOnEquityAfterExpenses)}
+              </strong>
+            </p>
             <p>
               <span>임대/운영 중 호실</span>
               <strong>
                 {summary.leasedUnits} / {summary.totalUnits}
               </strong>
             </p>
+            <p>
+              <span>임대료 미납 ({rent.ledger.overdueUnits}개 호실)</span>
+              <strong className={rent.ledger.arrearsTotal > 0 ? 'negative' : ''}>
+                {formatCurrency(rent.ledger.arrearsTotal)}
+              </strong>
+            </p>
           </div>
         </article>
 
+        <AlertCard units={units} registry={registry} />
+
         <article className="highlightCard">
-          <h2>갱신 알림 (120일 이내)</h2>
-          {renewalAlerts.length === 0 ? (
-            <p className="emptyText">가까운 일정이 없습니다.</p>
-          ) : (
-            <ul className="alertList">
-              {renewalAlerts.map((alert) => (
-                <li key={alert.id}>
-                  <span className="alertType">{alert.kind}</span>
-                  <span>{alert.site}</span>
-                  <span>{alert.rawDate}</span>
-                  <strong>D-{alert.daysLeft}</strong>
-                </li>
-              ))}
-            </ul>
-          )}
+          <h2>대출 상환 현황</h2>
+          <div className="kvList">
+            <p>
+              <span>현재 대출 잔액</span>
+              <strong>{formatCurrency(loanSummary.outstandingBalance)}</strong>
+            </p>
+            <p>
+              <span>1년 후 대출 잔액</span>
+              <strong>{formatCurrency(loanSummary.balanceInOneYear)}</strong>
+            </p>
+            <p>
+              <span>상환 원금 누계</span>
+              <strong>{formatCurrency(loanSummary.principalRepaidToDate)}</strong>
+            </p>
+            <p>
+              <span>월 원리금 납입액</span>
+              <strong>{formatCurrency(loanSummary.monthlyDebtService)}</strong>
+            </p>
+            <p>
+              <span>원금 상환 중 호실</span>
+              <strong>
+                {loanSummary.amortizingUnits} / {summary.totalUnits}
+              </strong>
+            </p>
+          </div>
         </article>
       </section>
 
-      <section className="tableSection">
-        <div className="tableHeader">
-          <h2>호실별 손익/레버리지</h2>
-          <p>{units.length > 0 ? `${units.length}개 호실 로드됨` : '데이터 없음'}</p>
-        </div>
-        <div className="tableContainer">
-          <table>
-            <thead>
-              <tr>
-                <th>현장</th>
-                <th>명의</th>
-                <th>공급금액</th>
-                <th>대출금</th>
-                <th>이율</th>
-                <th>월세</th>
-                <th>월이자</th>
-                <th>월 순현금흐름</th>
-                <th>연 ROE</th>
-                <th>실입주</th>
-                <th>사업자번호</th>
-                <th>계약갱신</th>
-                <th>대출갱신</th>
-                <th>비고</th>
-              </tr>
-            </thead>
-            <tbody>
-              {units.map((unit) => {
-                const detail = getUnitDetailBySite(unit.site)
-                const equity =
-                  (unit.supplyPrice ?? 0) > 0 ? (unit.supplyPrice ?? 0) - (unit.loanAmount ?? 0) : 0
-                const monthlyNet = (unit.monthlyRent ?? 0) - (unit.monthlyInterest ?? 0)
-                const unitRoe = equity > 0 ? (monthlyNet * 12) / equity : null
+      <PortfolioCharts units={units} summary={summary} />
 
-                return (
-                  <tr key={unit.id}>
-                    <td>
-                      {detail ? (
-                        <Link className="unitLink" to={`/units/${detail.slug}`}>
-                          {unit.site}
-                        </Link>
-                      ) : (
-                        unit.site
-                      )}
-                    </td>
-                    <td>{unit.ownership}</td>
-                    <td>{unit.supplyPrice === null ? '-' : formatCurrency(unit.supplyPrice)}</td>
-                    <td>{unit.loanAmount === null ? '-' : formatCurrency(unit.loanAmount)}</td>
-                    <td>
-                      {unit.interestRate === null ? '-' : percentFormat.format(unit.interestRate)}
-                    </td>
-                    <td>{unit.monthlyRent === null ? '-' : formatCurrency(unit.monthlyRent)}</td>
-                    <td>
-                      {unit.monthlyInterest === null
-                        ? '-'
-                        : formatCurrency(unit.monthlyInterest)}
-                    </td>
-                    <td className={monthlyNet < 0 ? 'negativeCell' : ''}>
-                      {formatCurrency(monthlyNet)}
-                    </td>
-                    <td>{unitRoe === null ? '-' : percentFormat.format(unitRoe)}</td>
-                    <td>{unit.tenantStatus}</td>
-                    <td>
-                      <details className="inlineDisclosure">
-                        <summary>확인</summary>
-                        <div>{unit.businessNumber || '-'}</div>
-                      </details>
-                    </td>
-                    <td>{unit.contractRenewalRaw || '-'}</td>
-                    <td>{unit.loanRenewalRaw || '-'}</td>
-                    <td>{unit.note}</td>
-                  </tr>
-                )
-              })}
-              {units.length === 0 ? (
-                <tr>
-                  <td colSpan={14} className="emptyRow">
-                    표시할 데이터가 없습니다.
-                  </td>
-                </tr>
-              ) : null}
-            </tbody>
-          </table>
-        </div>
-      </section>
+      <PortfolioUnitTable units={units} registry={registry} />
+
+      <RentLedgerPanel rent={rent} />
+
+      <ExpensePanel
+        units={units}
+        summary={summary}
+        operations={operations}
+        expenses={expenses}
+        onAdd={addExpense}
+        onRemove={removeExpense}
+      />
+
+      <OwnerBreakdownTable owners={owners} />
+
+      <RateStressPanel units={units} summary={summary} />
+
+      <ReturnsPanel
+        items={returnItems}
+        note={
+          detailTables.data === null && detailGids.length > 0
+            ? '호실 상세 탭을 불러오기 전에는 부가세·취등록세·중개수수료가 빠진 값입니다.'
+            : undefined
+        }
+      />
+
+      <SnapshotTrendPanel history={history} />
 
       <section className="tableSection">
         <div className="tableHeader">
@@ -556,6 +356,80 @@ export default function PortfolioPage() {
           ))}
         </div>
       </section>
+
+      <TaxEstimatorPanel units={units} />
+
+      <CalendarExportPanel units={units} registry={registry} />
+
+      <DataAuditPanel units={units} totals={sheetTotals} />
+
+      {rows.length > 0 ? (
+        <section className="tableSection">
+          <div className="tableHeader">
+            <h2>열 매핑 진단</h2>
+            <p>
+              스키마 v{columnMapping.version} · 미매핑 {columnMapping.unmappedFields.length}개 ·
+              무시된 열 {columnMapping.ignoredColumns.length}개
+            </p>
+          </div>
+          {columnMapping.unmappedFields.some((mapping) => mapping.required) ? (
+            <p className="error mappingWarning">
+              필수 항목이 매핑되지 않았습니다:{' '}
+              {columnMapping.unmappedFields
+                .filter((mapping) => mapping.required)
+                .map((mapping) => mapping.label)
+                .join(', ')}
+            </p>
+          ) : null}
+          <details className="disclosureCard mappingDisclosure">
+            <summary>
+              <span>필드별 매핑 보기</span>
+              <span>펼치기</span>
+            </summary>
+            <div className="tableContainer">
+              <table>
+                <thead>
+                  <tr>
+                    <th>필드</th>
+                    <th>시트 열</th>
+                    <th>매칭</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {columnMapping.fields.map((mapping) => (
+                    <tr key={mapping.field}>
+                      <td>
+                        {mapping.label}
+                        {mapping.required ? ' *' : ''}
+                      </td>
+                      <td className={mapping.column === null ? 'negativeCell' : ''}>
+                        {mapping.column ?? '미매핑'}
+                      </td>
+                      <td>
+                        {mapping.match === 'exact'
+                          ? '정확히 일치'
+                          : mapping.match === 'partial'
+                            ? '부분 일치'
+                            : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="disclosureBody">
+              <p>
+                <span>무시된 시트 열</span>
+                <strong>
+                  {columnMapping.ignoredColumns.length > 0
+                    ? columnMapping.ignoredColumns.join(', ')
+                    : '-'}
+                </strong>
+              </p>
+            </div>
+          </details>
+        </section>
+      ) : null}
     </div>
   )
 }
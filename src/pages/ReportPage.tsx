@@ -0,0 +1,293 @@
+import { useMemo } from 'react'
+import { Link, Navigate, useParams } from 'react-router-dom'
+import SyncStatus from '../components/SyncStatus'
+import { usePortfolioSnapshots } from '../hooks/usePortfolioSnapshots'
+import { useSyncedResource } from '../hooks/useSyncedResource'
+import { ALERT_KIND_LABELS, ALERT_SEVERITY_LABELS } from '../lib/alerts'
+import { fetchGoogleSheetRows } from '../lib/googleSheets'
+import {
+  buildMonthlyReport,
+  parseReportMonth,
+  reportMonthOf,
+  reportPath,
+  shiftReportMonth,
+  type ReportValueKind,
+} from '../lib/monthlyReport'
+import { portfolioUnitsFromRows, summarizePortfolio } from '../lib/portfolio'
+
+const krwFormat = new Intl.NumberFormat('ko-KR', { maximumFractionDigits: 0 })
+const percentFormat = new Intl.NumberFormat('ko-KR', {
+  style: 'percent',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+})
+
+function formatCurrency(value: number): string {
+  return `${krwFormat.format(Math.round(value))}원`
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? '-' : percentFormat.format(value)
+}
+
+function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}.${month}.${day}`
+}
+
+function formatValue(value: number | null, kind: ReportValueKind): string {
+  if (value === null) return '-'
+  if (kind === 'percent') return percentFormat.format(value)
+  if (kind === 'count') return `${krwFormat.format(value)}개`
+  return formatCurrency(value)
+}
+
+export default function ReportPage() {
+  const { month: monthParam = '' } = useParams()
+  const month = useMemo(() => parseReportMonth(monthParam), [monthParam])
+  const portfolio = useSyncedResource('portfolio', fetchGoogleSheetRows)
+  const units = useMemo(() => portfolioUnitsFromRows(portfolio.data ?? []), [portfolio.data])
+  const summary = useMemo(() => summarizePortfolio(units), [units])
+  const history = usePortfolioSnapshots(units, summary, portfolio.syncedAt)
+  const report = useMemo(
+    () => (month ? buildMonthlyReport(units, history.snapshots, month) : null),
+    [units, history.snapshots, month],
+  )
+
+  if (!month || !report) {
+    return <Navigate to={reportPath(reportMonthOf(new Date()))} replace />
+  }
+
+  const title = `${month.year}년 ${month.month}월 투자 현황`
+  const { summary: kpis, taxes } = report
+
+  return (
+    <div className="page reportPage">
+      <nav className="toolbar noPrint">
+        <Link className="refreshButton asLink" to="/">
+          포트폴리오로
+        </Link>
+        <Link className="refreshButton asLink" to={reportPath(shiftReportMonth(month, -1))}>
+          ← 이전 달
+        </Link>
+        <Link className="refreshButton asLink" to={reportPath(shiftReportMonth(month, 1))}>
+          다음 달 →
+        </Link>
+        <button className="refreshButton" onClick={() => window.print()}>
+          인쇄 / PDF 저장
+        </button>
+      </nav>
+      <div className="noPrint">
+        <SyncStatus
+          syncedAt={portfolio.syncedAt}
+          loading={portfolio.loading}
+          error={portfolio.error}
+        />
+      </div>
+      {portfolio.error && portfolio.data === null ? (
+        <div className="error noPrint">{portfolio.error}</div>
+      ) : null}
+
+      <section className="reportSheet">
+        <header className="reportHeader">
+          <p className="badge">MONTHLY REPORT</p>
+          <h1>{title}</h1>
+          <p className="subtitle">
+            {formatDate(report.periodStart)} ~ {formatDate(report.periodEnd)} · 작성{' '}
+            {formatDate(new Date())}
+            {portfolio.syncedAt ? ` · 시트 동기화 ${formatDate(new Date(portfolio.syncedAt))}` : ''}
+          </p>
+        </header>
+
+        <h2>핵심 지표</h2>
+        <div className="kvList reportKpis">
+          <p>
+            <span>보유 호실 (임대/운영)</span>
+            <strong>
+              {kpis.totalUnits}개 ({kpis.leasedUnits}개)
+            </strong>
+          </p>
+          <p>
+            <span>총 투자금(공급금액)</span>
+            <strong>{formatCurrency(kpis.totalSupplyPrice)}</strong>
+          </p>
+          <p>
+            <span>총 대출금 / LTV</span>
+            <strong>
+              {formatCurrency(kpis.totalLoanAmount)} / {formatPercent(kpis.loanToValue)}
+            </strong>
+          </p>
+          <p>
+            <span>자기자본</span>
+            <strong>{formatCurrency(kpis.totalEquity)}</strong>
+          </p>
+          <p>
+            <span>평균 대출이율(가중)</span>
+            <strong>{formatPercent(kpis.avgInterestRate)}</strong>
+          </p>
+          <p>
+            <span>월 임대수입</span>
+            <strong>{formatCurrency(kpis.monthlyRentIncome)}</strong>
+          </p>
+          <p>
+            <span>월 대출이자</span>
+            <strong>{formatCurrency(kpis.monthlyInterestCost)}</strong>
+          </p>
+          <p>
+            <span>월 순현금흐름 (연 환산)</span>
+            <strong className={kpis.monthlyNetCashflow < 0 ? 'negative' : ''}>
+              {formatCurrency(kpis.monthlyNetCashflow)} ({formatCurrency(kpis.annualNetCashflow)})
+            </strong>
+          </p>
+          <p>
+            <span>연 자기자본수익률(ROE)</span>
+            <strong>{formatPercent(kpis.annualReturnOnEquity)}</strong>
+          </p>
+          <p>
+            <span>연간 보유세 합계</span>
+            <strong>{formatCurrency(taxes.annualTaxTotal)}</strong>
+          </p>
+        </div>
+
+        <h2>주요 변동</h2>
+        {report.baseline && report.latest ? (
+          <>
+            <p className="reportNote">
+              스냅샷 {report.baseline.date} 대비 {report.latest.date}
+            </p>
+            {report.changes.length === 0 &&
+            report.addedSites.length === 0 &&
+            report.removedSites.length === 0 ? (
+              <p className="emptyText">변동 사항이 없습니다.</p>
+            ) : (
+              <ul className="reportList">
+                {report.addedSites.map((site) => (
+                  <li key={`added-${site}`}>신규 편입: {site}</li>
+                ))}
+                {report.removedSites.map((site) => (
+                  <li key={`removed-${site}`}>제외: {site}</li>
+                ))}
+                {report.changes.map((change) => (
+                  <li key={change.id}>
+                    {change.subject} · {change.label}: {formatValue(change.from, change.kind)} →{' '}
+                    <strong>{formatValue(change.to, change.kind)}</strong>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        ) : (
+          <p className="emptyText">
+            비교할 스냅샷이 없습니다. 이 달과 이전 달에 대시보드를 한 번 이상 동기화하면 표시됩니다.
+          </p>
+        )}
+      </section>
+
+      <section className="reportSheet">
+        <h2>호실별 손익</h2>
+        <div className="tableContainer">
+          <table>
+            <thead>
+              <tr>
+                <th>현장</th>
+                <th>명의</th>
+                <th>상태</th>
+                <th>대출금</th>
+                <th>이율</th>
+                <th>월세</th>
+                <th>월이자</th>
+                <th>월 순현금흐름</th>
+                <th>연 ROE</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.units.map(({ unit, monthlyNet, annualReturnOnEquity }) => (
+                <tr key={unit.id}>
+                  <td>{unit.site}</td>
+                  <td>{unit.ownership}</td>
+                  <td>{unit.tenantStatus}</td>
+                  <td>{unit.loanAmount === null ? '-' : formatCurrency(unit.loanAmount)}</td>
+                  <td>{formatPercent(unit.interestRate)}</td>
+                  <td>{unit.monthlyRent === null ? '-' : formatCurrency(unit.monthlyRent)}</td>
+                  <td>
+                    {unit.monthlyInterest === null ? '-' : formatCurrency(unit.monthlyInterest)}
+                  </td>
+                  <td className={monthlyNet < 0 ? 'negativeCell' : ''}>
+                    {formatCurrency(monthlyNet)}
+                  </td>
+                  <td>{formatPercent(annualReturnOnEquity)}</td>
+                </tr>
+              ))}
+              <tr className="subtotalRow">
+                <td colSpan={3}>합계 ({kpis.totalUnits}개)</td>
+                <td>{formatCurrency(kpis.totalLoanAmount)}</td>
+                <td>{formatPercent(kpis.avgInterestRate)}</td>
+                <td>{formatCurrency(kpis.monthlyRentIncome)}</td>
+                <td>{formatCurrency(kpis.monthlyInterestCost)}</td>
+                <td className={kpis.monthlyNetCashflow < 0 ? 'negativeCell' : ''}>
+                  {formatCurrency(kpis.monthlyNetCashflow)}
+                </td>
+                <td>{formatPercent(kpis.annualReturnOnEquity)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      <section className="reportSheet">
+        <h2>갱신 일정</h2>
+        <p className="reportNote">
+          {formatDate(report.periodStart)} 기준 지난 일정과 120일 이내 일정
+        </p>
+        {report.renewals.length === 0 ? (
+          <p className="emptyText">가까운 갱신 일정이 없습니다.</p>
+        ) : (
+          <ul className="alertList">
+            {report.renewals.map((alert) => (
+              <li key={alert.id}>
+                <span className={`severityBadge ${alert.severity}`}>
+                  {ALERT_SEVERITY_LABELS[alert.severity]}
+                </span>
+                <span className="alertType">{ALERT_KIND_LABELS[alert.kind]}</span>
+                <span>{alert.site}</span>
+                <strong>{alert.message}</strong>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <h2>이달의 세금 납부·신고</h2>
+        {report.obligations.length === 0 ? (
+          <p className="emptyText">이달 마감인 세금 일정이 없습니다.</p>
+        ) : (
+          <div className="tableContainer">
+            <table>
+              <thead>
+                <tr>
+                  <th>기한</th>
+                  <th>항목</th>
+                  <th>내용</th>
+                  <th>예상 금액</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.obligations.map((item) => (
+                  <tr key={item.id}>
+                    <td>{formatDate(item.dueDate)}</td>
+                    <td>{item.title}</td>
+                    <td>{item.detail}</td>
+                    <td>{formatCurrency(item.amount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="reportNote">
+          부가세·소득세는 월세 기준 추정치이며 재산세는 시트에 입력된 고지액입니다.
+        </p>
+      </section>
+    </div>
+  )
+}
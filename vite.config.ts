@@ -1,8 +1,21 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { createSheetsProxyHandler, loadSheetsProxyConfig, SHEETS_PROXY_PREFIX } from './server/sheetsProxy'
+
+function sheetsProxyPlugin(env: Record<string, string>): Plugin {
+  return {
+    name: 'sheets-proxy',
+    apply: 'serve',
+    configureServer(server) {
+      const config = loadSheetsProxyConfig(env, { allowAnonymous: true })
+      if (!config) return
+      server.middlewares.use(SHEETS_PROXY_PREFIX, createSheetsProxyHandler(config))
+    },
+  }
+}
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ mode }) => ({
+  plugins: [react(), sheetsProxyPlugin(loadEnv(mode, process.cwd(), ''))],
   base: '/RealestateDashBoard/',
-})
+}))